@@ -0,0 +1,114 @@
+// ---------- Service worker: app installabile, promemoria e avvisi ----------
+// Tiene in cache la shell dell'app (index.html + asset di Vite) così si apre
+// anche senza rete; i dati restano quelli della cache IndexedDB dell'app.
+// Riceve i push delle funzioni dose-reminders e stock-alerts anche a scheda
+// chiusa e gestisce le azioni "Preso" / "Posticipa 15 min" chiamando la
+// funzione dose-action. data.url = pagina da aprire al tocco.
+
+// BUILD e ASSETS li riempie `vite build` (vite.config.ts): versione della
+// cache e bundle con hash, così l'app si apre offline anche al primo avvio
+// dopo l'installazione. Ogni build ha la sua cache: all'attivazione quelle
+// delle build precedenti si cancellano. In sviluppo restano così.
+const BUILD = "dev";
+const ASSETS = [];
+const CACHE = `farmaci-shell-${BUILD}`;
+const SHELL = ["/", "/manifest.webmanifest", "/icons/icon.svg", "/icons/icon-192.png", "/icons/icon-512.png", ...ASSETS];
+
+self.addEventListener("install", event => {
+  event.waitUntil(caches.open(CACHE).then(c => c.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+self.addEventListener("activate", event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k.startsWith("farmaci-") && k !== CACHE).map(k => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// pagine: prima la rete (nuove versioni), senza rete la shell in cache.
+// asset con hash (/assets/…) e icone: prima la cache. Supabase non passa di qui.
+self.addEventListener("fetch", event => {
+  const req = event.request;
+  const url = new URL(req.url);
+  if (req.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (req.mode === "navigate") {
+    event.respondWith(
+      fetch(req)
+        .then(res => {
+          if (res.ok) {
+            const copy = res.clone();
+            caches.open(CACHE).then(c => c.put("/", copy));
+          }
+          return res;
+        })
+        .catch(() => caches.match("/"))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith("/assets/") || url.pathname.startsWith("/icons/") || url.pathname === "/manifest.webmanifest") {
+    event.respondWith(
+      caches.match(req).then(hit => hit || fetch(req).then(res => {
+        if (res.ok) {
+          const copy = res.clone();
+          caches.open(CACHE).then(c => c.put(req, copy));
+        }
+        return res;
+      }))
+    );
+  }
+});
+
+self.addEventListener("push", event => {
+  let msg = {};
+  try { msg = event.data ? event.data.json() : {}; } catch { msg = { title: "Promemoria farmaci", body: event.data?.text() }; }
+  event.waitUntil(
+    self.registration.showNotification(msg.title || "Promemoria farmaci", {
+      body: msg.body || "",
+      tag: msg.tag,
+      renotify: true,
+      requireInteraction: true,
+      icon: "/icons/icon-192.png",
+      badge: "/icons/icon-192.png",
+      data: msg.data || {},
+      actions: msg.actions || [],
+    })
+  );
+});
+
+async function openApp(url = "/") {
+  const wins = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  const win = wins.find(w => new URL(w.url).origin === self.location.origin);
+  if (win) return url === "/" ? win.focus() : win.navigate(url).then(w => (w || win).focus());
+  return self.clients.openWindow(url);
+}
+
+async function runAction(notification, action) {
+  const { token, api } = notification.data || {};
+  if (!token || !api) return openApp();
+  try {
+    const res = await fetch(api, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ token, action }),
+    });
+    const out = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(out.error || res.statusText);
+    if (action === "taken" && out.changed === false && out.marked_by) {
+      await self.registration.showNotification("Dose già registrata", { body: `Segnata da ${out.marked_by}`, tag: notification.tag });
+    }
+  } catch (e) {
+    // senza rete o token scaduto: si apre l'app per segnarla a mano
+    console.error("azione promemoria", e);
+    await self.registration.showNotification("Impossibile registrare dalla notifica", {
+      body: "Apri l'app per segnare la dose.", tag: notification.tag, data: {},
+    });
+  }
+}
+
+self.addEventListener("notificationclick", event => {
+  event.notification.close();
+  const { url } = event.notification.data || {};
+  event.waitUntil(event.action ? runAction(event.notification, event.action) : openApp(url));
+});
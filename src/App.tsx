@@ -1,36 +1,64 @@
-import React, { useEffect, useMemo, useState } from "react";
-import { createClient, type Session } from "@supabase/supabase-js";
-
-// ---------- Supabase (.env richiesto) ----------
-const URL = import.meta.env.VITE_SUPABASE_URL as string | undefined;
-const KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
-const sb = URL && KEY ? createClient(URL, KEY) : null;
-
-// ---------- Tipi ----------
-type TimeSlot = "Mattina" | "Mezzogiorno" | "Sera";
-type Profile = { id: string; email: string; family_id: string | null; role: "admin" | "member" };
-type Med = {
-  id: string; family_id: string; name: string; dosage: string | null;
-  per_dose: number; times: TimeSlot[]; threshold: number; archived?: boolean;
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { type Session } from "@supabase/supabase-js";
+import { sb } from "./supabase";
+import { styles } from "./styles";
+import { ShoppingList } from "./ShoppingList";
+import { History } from "./History";
+import { MED_SELECT, updateMed } from "./meds";
+import { versionLog } from "./adherence";
+import { escapeHtml, printHtml } from "./print";
+import { DoctorReport } from "./DoctorReport";
+import { ImportExport } from "./ImportExport";
+import { FamilySettings } from "./FamilySettings";
+import { Reminders } from "./Reminders";
+import { Archive } from "./Archive";
+import { Scanner } from "./Scanner";
+import { FillOrganizer } from "./FillOrganizer";
+import { linkMedCodes, medIdsForCodes, packLabel, type ScannedPack } from "./barcode";
+import { TRASH_DAYS, archiveMed, trashMed } from "./archive";
+import { launchView } from "./pwa";
+import { ALERT_LABELS, SNOOZE_OPTIONS, ackStockAlert, pendingAlerts, refreshStockAlerts, snoozeStockAlert, type StockAlert } from "./alerts";
+import { acceptInvite, createFamily, permissions } from "./family";
+import { createPatient, loadPatients, renamePatient, savePatientId, savedPatientId } from "./patients";
+import type { ShoppingRow } from "./shopping";
+import { UNITS, UNIT_LABELS, qtyLabel, stockLabel, toUnits, type QtyMode } from "./units";
+import { Badge, EmptyHint, Field, Modal, Section, Small, Title, Wrap } from "./ui";
+import type { DoseTime, Med, MedUnit, Patient, Profile, Schedule, SlotDef, StockLocation, StockLot, StockMovement, StocksMap, LotsMap } from "./types";
+import {
+  MOVEMENT_LABELS, expiryStatus, loadLots, loadMovements, loadStocks, purchaseStock, recordMovements,
+  type AlreadyMarked, type NewMovement,
+} from "./stock";
+import { subscribeFamily, type IntakeRow } from "./realtime";
+import { SKIP_REASONS, STATUS_LOOK, doseStatus, initials, type IntakeMark, type MarkStatus } from "./intakes";
+import { IntakeHistory } from "./IntakeHistory";
+import { cacheGet, cacheSet, isNetworkError, replayQueue, submit } from "./offline";
+import { SyncStatus } from "./SyncStatus";
+import {
+  addDaysISO, calendarSettings, dayOfInstant, daysBetweenISO, formatInstant, setCalendar, startOfWeekISO, timeOfInstant, todayISO,
+  type CalendarSettings,
+} from "./dates";
+import { DEFAULT_FORECAST, forecastMed, loadRecentUsage, usageRate, type Forecast, type ForecastSettings } from "./forecast";
+import { DAILY, DEFAULT_SLOTS, WEEKDAY_LABELS, doseQtyOn, dosesOn, medOn, needBetween, mergeDoses, normalizeTime, resolveLoggedTime, slotFor, sortDoses, sortSlots, scheduleError, scheduleLabel, timeLabel, type ScheduledDose } from "./schedule";
+
+/** Ogni quanto si riprova a inviare la coda offline */
+const QUEUE_RETRY_MS = 30 * 1000;
+/** Finestra in cui una spunta altrui è "recente" (conferma prima di annullarla) */
+const RECENT_MARK_MS = 15 * 60 * 1000;
+
+const EMPTY_NEW_MED = {
+  name: "", dosage: "", threshold: 10, doses: [] as DoseTime[], schedule: DAILY,
+  unit: "tablet" as MedUnit, pack_size: null as number | null,
+  initBox: 0, initDisp: 0, initMode: "units" as QtyMode,
+  /** confezione scansionata: i codici si collegano al nuovo farmaco */
+  scanned: null as ScannedPack | null,
 };
-type StocksMap = Record<string, { box: number; dispensa: number }>;
-
-const TIMES: TimeSlot[] = ["Mattina", "Mezzogiorno", "Sera"];
-const TIME_COLORS: Record<TimeSlot, string> = {
-  Mattina: "#E8F4FF",      // azzurrino
-  Mezzogiorno: "#FFF6E5",  // arancione chiaro
-  Sera: "#F3E8FF",         // lilla chiaro
-};
-const todayISO = () => new Date().toISOString().slice(0, 10);
-const startOfWeekISO = () => { const d = new Date(); const day = (d.getDay() + 6) % 7; d.setDate(d.getDate() - day); return d.toISOString().slice(0, 10); };
-const addDaysISO = (iso: string, n: number) => { const d = new Date(iso); d.setDate(d.getDate() + n); return d.toISOString().slice(0, 10); };
 
 // ---------- App Wrapper ----------
 export default function App() {
   if (!sb) {
     return (
       <Wrap>
-        <h1>💊 Farmaci Giannina</h1>
+        <h1>💊 Farmaci</h1>
         <p style={{ color: "crimson" }}>
           Mancano le variabili <code>.env</code>: <b>VITE_SUPABASE_URL</b> e <b>VITE_SUPABASE_ANON_KEY</b>.
         </p>
@@ -55,14 +83,17 @@ function AuthedApp() {
     return () => { unsub?.(); };
   }, []);
 
+  const [profileRev, setProfileRev] = useState(0);
   useEffect(() => {
     if (!session) return;
-    sb!.from("profiles")
-      .select("id,email,family_id,role")
-      .eq("id", session.user.id)
-      .single()
-      .then(({ data }) => setProfile(data as Profile));
-  }, [session]);
+    (async () => {
+      // senza famiglia: prima si prova con un eventuale invito per la propria email
+      const load = () => sb!.from("profiles").select("id,email,family_id,role").eq("id", session.user.id).single();
+      let { data } = await load();
+      if (data && !data.family_id && await acceptInvite()) ({ data } = await load());
+      setProfile(data as Profile);
+    })();
+  }, [session, profileRev]);
 
   if (!session) {
     return (
@@ -96,35 +127,136 @@ function AuthedApp() {
     );
   }
 
-  return <Dashboard profile={profile} onLogout={() => sb!.auth.signOut()} />;
+  if (!profile.family_id) {
+    return <NoFamily email={profile.email} onCreated={() => setProfileRev(r => r + 1)} onLogout={() => sb!.auth.signOut()} />;
+  }
+
+  return <Dashboard profile={profile} onProfileChanged={() => setProfileRev(r => r + 1)} onLogout={() => sb!.auth.signOut()} />;
+}
+
+// ---------- Primo accesso senza famiglia ----------
+function NoFamily({ email, onCreated, onLogout }: { email: string; onCreated: () => void; onLogout: () => void }) {
+  const [name, setName] = useState("Famiglia ");
+  const [patient, setPatient] = useState("");
+  const [busy, setBusy] = useState(false);
+  return (
+    <Wrap>
+      <Title />
+      <p>
+        <b>{email}</b> non fa ancora parte di una famiglia. Se qualcuno ti ha invitato, chiedigli di controllare
+        l'indirizzo dell'invito e poi ricarica la pagina; altrimenti crea la tua famiglia (ne sarai amministratore).
+      </p>
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="es. Famiglia Mamma" style={styles.input} />
+      <input value={patient} onChange={(e) => setPatient(e.target.value)} placeholder="Persona assistita (es. Mamma)" style={styles.input} />
+      <button
+        style={styles.btn} disabled={busy || !name.trim() || !patient.trim()}
+        onClick={async () => {
+          setBusy(true);
+          const error = await createFamily(name, patient);
+          setBusy(false);
+          if (error) alert(`Impossibile creare la famiglia: ${error.message}`);
+          else onCreated();
+        }}
+      >
+        Crea famiglia
+      </button>
+      <div style={{ marginTop: 12 }}><Small onClick={onLogout}>Esci</Small></div>
+    </Wrap>
+  );
 }
 
 // ---------- Dashboard ----------
-function Dashboard({ profile, onLogout }: { profile: Profile; onLogout: () => void }) {
+function Dashboard({ profile, onProfileChanged, onLogout }: { profile: Profile; onProfileChanged: () => void; onLogout: () => void }) {
   const [weekStart, setWeekStart] = useState(startOfWeekISO());
-  const [view, setView] = useState<"planner" | "stocks">("planner");
-  const [onlyToday, setOnlyToday] = useState(false);
+  // ?view=today dall'icona sulla Home, ?view=stocks dalle notifiche degli avvisi scorte
+  const [view, setView] = useState<"planner" | "rounds" | "stocks" | "shopping" | "history" | "archive">(
+    () => (launchView() === "stocks" ? "stocks" : "planner")
+  );
+  // cosa può fare l'utente (il server applica le stesse regole)
+  const can = permissions(profile);
+  const [onlyToday, setOnlyToday] = useState(() => launchView() === "today");
+  // il giro di oggi mostra solo oggi, per tutti i pazienti
+  const todayOnly = onlyToday || view === "rounds";
 
   const allDays = useMemo(() => Array.from({ length: 7 }, (_, i) => addDaysISO(weekStart, i)), [weekStart]);
   const days = useMemo(() => (onlyToday ? allDays.filter(d => d === todayISO()) : allDays), [allDays, onlyToday]);
 
-  const [meds, setMeds] = useState<Med[]>([]);
+  // ---------- Pazienti ----------
+  // si caricano i farmaci di tutta la famiglia (servono al giro di oggi);
+  // planner, scorte, lista, storico e PDF lavorano su quelli del paziente scelto
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientId, setPatientId] = useState<string | null>(null);
+  const patient = patients.find(p => p.id === patientId) ?? null;
+  const loadPatientsNow = async () => {
+    if (!profile.family_id) return;
+    const list = await loadPatients(profile.family_id);
+    setPatients(list);
+    const saved = await savedPatientId(profile.family_id);
+    setPatientId(cur => [cur, saved].find(id => id && list.some(p => p.id === id)) ?? list[0]?.id ?? null);
+  };
+  function choosePatient(id: string) {
+    setPatientId(id);
+    savePatientId(profile.family_id!, id);
+  }
+  async function addPatient() {
+    const name = prompt("Nome della persona assistita (es. Nonno Piero)");
+    if (!name?.trim()) return;
+    const { id, error } = await createPatient(profile.family_id!, name);
+    if (error || !id) { alert(error?.message || "Impossibile aggiungere il paziente."); return; }
+    await loadPatientsNow();
+    choosePatient(id);
+  }
+  async function renameCurrentPatient() {
+    if (!patient) return;
+    const name = prompt("Nuovo nome del paziente", patient.name);
+    if (!name?.trim() || name.trim() === patient.name) return;
+    const error = await renamePatient(patient.id, name);
+    if (error) { alert(error.message); return; }
+    await loadPatientsNow();
+  }
+
+  const [familyMeds, setFamilyMeds] = useState<Med[]>([]);
+  const meds = useMemo(() => familyMeds.filter(m => m.patient_id === patientId), [familyMeds, patientId]);
   const [stocks, setStocks] = useState<StocksMap>({});
-  const [intakes, setIntakes] = useState<Record<string, boolean>>({}); // chiave: day|time|med
+  const [lots, setLots] = useState<LotsMap>({});
+  const [intakes, setIntakes] = useState<Record<string, IntakeMark>>({}); // chiave: day|time|med
+  // orologio del planner: fa passare le dosi a "non data" senza ricaricare
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(t);
+  }, []);
 
   // --- Editor farmaco (popup) ---
   const [editing, setEditing] = useState<null | {
-    id: string; name: string; dosage: string | null; per_dose: number; times: TimeSlot[];
+    id: string; name: string; dosage: string | null; doses: DoseTime[]; schedule: Schedule;
+    unit: MedUnit; pack_size: number | null;
+    // nuova versione della prescrizione (solo se cambiano dosaggio/orari/ricorrenza)
+    effective_from: string; prescriber: string | null; note: string;
   }>(null);
 
   async function saveMed() {
     if (!editing) return;
-    await sb!.from("meds").update({
-      name: editing.name,
-      dosage: editing.dosage,
-      per_dose: editing.per_dose,
-      times: editing.times
-    }).eq("id", editing.id);
+    if (editing.doses.length === 0) { alert("Inserisci almeno un orario."); return; }
+    const scheduleErr = scheduleError(editing.schedule);
+    if (scheduleErr) { alert(scheduleErr); return; }
+    const m = meds.find(x => x.id === editing.id);
+    const before = m ? medOn(m, editing.effective_from) : null;
+    const doses = mergeDoses(editing.doses);
+    const therapyChanged = !before
+      || (editing.dosage || null) !== (before.dosage || null)
+      || JSON.stringify(doses) !== JSON.stringify(sortDoses(before.doses || []))
+      || JSON.stringify(editing.schedule) !== JSON.stringify(before.schedule || DAILY);
+    // le settimane passate restano con la prescrizione di allora
+    const error = await updateMed(
+      editing.id,
+      { name: editing.name, unit: editing.unit, pack_size: editing.pack_size },
+      therapyChanged ? {
+        effective_from: editing.effective_from, dosage: editing.dosage, doses, schedule: editing.schedule,
+        prescriber: editing.prescriber, note: editing.note || null,
+      } : null
+    );
+    if (error) { alert(error.message); return; }
     setEditing(null);
     await loadMeds();
   }
@@ -132,21 +264,27 @@ function Dashboard({ profile, onLogout }: { profile: Profile; onLogout: () => vo
   // --- Aggiungi nuovo farmaco ---
   const [adding, setAdding] = useState(false);
   const [newMed, setNewMed] = useState<{
-    name: string; dosage: string; per_dose: number; threshold: number;
-    times: TimeSlot[]; initBox: number; initDisp: number;
-  }>({ name: "", dosage: "", per_dose: 1, threshold: 10, times: [], initBox: 0, initDisp: 0 });
+    name: string; dosage: string; threshold: number;
+    doses: DoseTime[]; schedule: Schedule; unit: MedUnit; pack_size: number | null;
+    initBox: number; initDisp: number; initMode: QtyMode; scanned: ScannedPack | null;
+  }>(EMPTY_NEW_MED);
 
   async function addMed() {
-    if (!newMed.name || newMed.times.length === 0) {
-      alert("Inserisci almeno il nome e una fascia oraria.");
+    if (!newMed.name || newMed.doses.length === 0) {
+      alert("Inserisci almeno il nome e un orario.");
       return;
     }
+    const scheduleErr = scheduleError(newMed.schedule);
+    if (scheduleErr) { alert(scheduleErr); return; }
+    if (!patientId) { alert("Aggiungi prima la persona assistita."); return; }
     const { data: created, error } = await sb!.from("meds")
       .insert({
-        family_id: profile.family_id!, name: newMed.name,
+        family_id: profile.family_id!, patient_id: patientId, name: newMed.name,
         dosage: newMed.dosage || null,
-        per_dose: newMed.per_dose,
-        times: newMed.times,
+        doses: mergeDoses(newMed.doses),
+        schedule: newMed.schedule,
+        unit: newMed.unit,
+        pack_size: newMed.pack_size,
         threshold: newMed.threshold,
         archived: false
       })
@@ -155,266 +293,702 @@ function Dashboard({ profile, onLogout }: { profile: Profile; onLogout: () => vo
     if (error) { alert(error.message); return; }
     const medId = (created as any).id as string;
 
-    const stockRows = [
-      { med_id: medId, location: "Box", qty: newMed.initBox || 0 },
-      { med_id: medId, location: "Dispensa", qty: newMed.initDisp || 0 },
-    ];
-    await sb!.from("stocks").insert(stockRows);
+    const scanned = newMed.scanned;
+    const initDisp = toUnits(newMed.initDisp || 0, newMed.initMode, newMed);
+    // con lotto/scadenza letti dalla confezione la Dispensa iniziale è un acquisto di quel lotto
+    const asLot = !!scanned && (!!scanned.lot || !!scanned.expiresOn) && initDisp > 0;
+    const stockError = await recordMovements(profile.family_id!, [
+      { med_id: medId, location: "Box", delta: toUnits(newMed.initBox || 0, newMed.initMode, newMed), kind: "correction", reason: "Quantità iniziale" },
+      { med_id: medId, location: "Dispensa", delta: asLot ? 0 : initDisp, kind: "correction", reason: "Quantità iniziale" },
+    ]);
+    const lotError = asLot ? (await purchaseStock(medId, initDisp, scanned!.lot ?? null, scanned!.expiresOn ?? null)).error : null;
+    if (stockError || lotError) {
+      alert(`Farmaco aggiunto, ma le quantità iniziali non sono state registrate: ${(stockError || lotError)!.message}. Correggile dalla card.`);
+    }
+    if (scanned) {
+      const linkError = await linkMedCodes(profile.family_id!, medId, scanned.codes);
+      if (linkError) alert(`Farmaco aggiunto, ma il codice della confezione non è stato collegato: ${linkError.message}`);
+    }
 
     setAdding(false);
-    setNewMed({ name: "", dosage: "", per_dose: 1, threshold: 10, times: [], initBox: 0, initDisp: 0 });
+    setNewMed(EMPTY_NEW_MED);
     await loadMeds();
   }
 
   // --- Elimina/Archivia farmaco ---
   const [deleting, setDeleting] = useState<null | Med>(null);
-  const [deleteKeepHistory, setDeleteKeepHistory] = useState<"archive" | "hard">("archive");
+  const [deleteKeepHistory, setDeleteKeepHistory] = useState<"archive" | "trash">("archive");
 
-  async function archiveMed(m: Med) {
-    await sb!.from("meds").update({ archived: true }).eq("id", m.id);
-    await sb!.from("stocks").delete().eq("med_id", m.id);
+  async function removeMed(m: Med, how: "archive" | "trash") {
+    const error = how === "archive" ? await archiveMed(m) : await trashMed(m);
+    if (error) alert(`Operazione non riuscita: ${error.message}`);
     await loadMeds();
   }
 
-  async function hardDeleteMed(m: Med) {
-    await sb!.from("intake_logs").delete().eq("med_id", m.id).eq("family_id", profile.family_id);
-    await sb!.from("stocks").delete().eq("med_id", m.id);
-    await sb!.from("meds").delete().eq("id", m.id);
-    await loadMeds();
-  }
-
-  // se non c'è famiglia → creala al volo (admin)
-  useEffect(() => {
-    (async () => {
-      if (!profile.family_id) {
-        const name = prompt("Nome famiglia (es. Famiglia Mamma)", "Famiglia Mamma");
-        if (!name) return;
-        const { data: fam, error } = await sb!.from("families").insert({ name }).select("id").single();
-        if (!error) await sb!.from("profiles").update({ family_id: fam!.id, role: "admin" }).eq("id", profile.id);
-        location.reload();
-      }
-    })();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  // carica meds + stocks (NO seed)
+  // carica meds + stocks (NO seed); senza rete usa la copia locale
   const loadMeds = async () => {
     if (!profile.family_id) return;
-    const { data: medsNow } = await sb!.from("meds")
-      .select("id,family_id,name,dosage,per_dose,times,threshold,archived")
+    const { data: medsNow, error } = await sb!.from("meds")
+      .select(MED_SELECT)
       .eq("family_id", profile.family_id)
       .eq("archived", false)
       .order("name");
+    if (isNetworkError(error)) {
+      const cached = await cacheGet<{ meds: Med[]; stocks: StocksMap; lots?: LotsMap }>(`meds:${profile.family_id}`);
+      if (cached) { setFamilyMeds(cached.meds); setStocks(cached.stocks); setLots(cached.lots || {}); }
+      return;
+    }
 
-    setMeds((medsNow as Med[]) || []);
+    const list = (medsNow || []) as unknown as Med[];
+    setFamilyMeds(list);
 
-    if ((medsNow || []).length > 0) {
-      const ids = (medsNow as Med[]).map(m => m.id);
-      const { data: st } = await sb!.from("stocks").select("med_id,location,qty").in("med_id", ids);
-      const map: StocksMap = {};
-      (st || []).forEach((r: any) => {
-        map[r.med_id] ||= { box: 0, dispensa: 0 };
-        if (r.location === "Box") map[r.med_id].box = r.qty || 0;
-        if (r.location === "Dispensa") map[r.med_id].dispensa = r.qty || 0;
-      });
-      setStocks(map);
-    } else {
-      setStocks({});
-    }
+    setStocks(await loadStocks(list.map(m => m.id)));
+    setLots(await loadLots(list.map(m => m.id)));
+  };
+  // i lotti cambiano con ogni movimento di Dispensa (acquisti, travasi FEFO, correzioni)
+  const refreshLots = async (medId: string) => {
+    const fresh = await loadLots([medId]);
+    setLots(all => ({ ...all, [medId]: fresh[medId] || [] }));
   };
 
+  // fuso e fine giornata della famiglia: valgono per tutte le date dell'app (dates.ts)
+  const [calendar, setCalendarState] = useState<CalendarSettings>(calendarSettings);
+  const applyCalendar = (next: Partial<CalendarSettings>) => {
+    const before = todayISO();
+    setCalendar(next);
+    setCalendarState(calendarSettings());
+    // la giornata di oggi può cambiare: la settimana mostrata si riallinea
+    if (todayISO() !== before) setWeekStart(startOfWeekISO());
+  };
+
+  // impostazioni di famiglia: fasce orarie (solo raggruppamento/colori) e previsione scorte
+  const [slots, setSlots] = useState<SlotDef[]>(DEFAULT_SLOTS);
+  const [forecastSettings, setForecastSettings] = useState<ForecastSettings>(DEFAULT_FORECAST);
+  /** ultime impostazioni salvate (o lette) sul server */
+  const savedForecast = useRef<ForecastSettings>(DEFAULT_FORECAST);
+  const [familyName, setFamilyName] = useState("");
+  const loadFamily = async () => {
+    if (!profile.family_id) return;
+    const { data: fresh, error } = await sb!.from("families")
+      .select("name,slots,lead_days,forecast_days,alert_coverage_days,timezone,day_cutoff")
+      .eq("id", profile.family_id).single();
+    const data = isNetworkError(error) ? await cacheGet(`family:${profile.family_id}`) : fresh;
+    if (!error) cacheSet(`family:${profile.family_id}`, fresh);
+    const fam = data as {
+      name: string | null; slots: SlotDef[] | null; lead_days: number | null; forecast_days: number | null; alert_coverage_days: number | null;
+      timezone: string | null; day_cutoff: string | null;
+    } | null;
+    applyCalendar({ timeZone: fam?.timezone || undefined, cutoff: fam?.day_cutoff || undefined });
+    setFamilyName(fam?.name || "");
+    setSlots(fam?.slots?.length ? sortSlots(fam.slots) : DEFAULT_SLOTS);
+    const forecast = {
+      leadDays: fam?.lead_days ?? DEFAULT_FORECAST.leadDays,
+      historyDays: fam?.forecast_days ?? DEFAULT_FORECAST.historyDays,
+      alertDays: fam?.alert_coverage_days ?? DEFAULT_FORECAST.alertDays,
+    };
+    setForecastSettings(forecast);
+    savedForecast.current = forecast;
+  };
+  // i campi aggiornano solo lo stato; si salva all'uscita dal campo (onBlur), se è cambiato qualcosa
+  async function saveForecastSettings(next: ForecastSettings) {
+    setForecastSettings(next);
+    const prev = savedForecast.current;
+    if (next.leadDays === prev.leadDays && next.historyDays === prev.historyDays && next.alertDays === prev.alertDays) return;
+    const { error } = await sb!.from("families")
+      .update({ lead_days: next.leadDays, forecast_days: next.historyDays, alert_coverage_days: next.alertDays })
+      .eq("id", profile.family_id!);
+    if (error) { alert(error.message); return; }
+    savedForecast.current = next;
+    // cambia la copertura minima: gli avvisi "in esaurimento" vanno ricalcolati tutti
+    if (can.manageMeds && next.alertDays !== prev.alertDays) {
+      setStockAlerts(await refreshStockAlerts(profile.family_id!, null));
+    }
+  }
+  const [editingSlots, setEditingSlots] = useState(false);
+  async function saveSlots(next: SlotDef[]) {
+    const { error } = await sb!.from("families").update({ slots: next }).eq("id", profile.family_id!);
+    if (error) { alert(error.message); return; }
+    setSlots(next);
+    setEditingSlots(false);
+  }
+
   const loadWeek = async () => {
     if (!profile.family_id) return;
-    const from = onlyToday ? todayISO() : weekStart;
-    const to = onlyToday ? todayISO() : addDaysISO(weekStart, 6);
-    const { data } = await sb!.from("intake_logs")
-      .select("day,time_slot,med_id,taken")
+    const from = todayOnly ? todayISO() : weekStart;
+    const to = todayOnly ? todayISO() : addDaysISO(weekStart, 6);
+    const { data, error } = await sb!.from("intake_logs")
+      .select("day,time_slot,med_id,taken,status,skip_reason,taken_at,updated_at,updated_by,note")
       .eq("family_id", profile.family_id)
       .gte("day", from).lte("day", to);
-    const map: Record<string, boolean> = {};
-    (data || []).forEach((r: any) => { map[`${r.day}|${r.time_slot}|${r.med_id}`] = !!r.taken; });
+    if (isNetworkError(error)) {
+      const cached = await cacheGet<Record<string, IntakeMark>>(`marks:${profile.family_id}:${from}:${to}`);
+      if (cached) setIntakes(cached);
+      return;
+    }
+    const map: Record<string, IntakeMark> = {};
+    (data || []).forEach((r: Omit<IntakeRow, "family_id">) => {
+      // i vecchi log hanno il nome fascia al posto dell'orario
+      const time = resolveLoggedTime(r.time_slot, familyMeds.find(m => m.id === r.med_id), slots);
+      const mark = toMark(r);
+      if (mark) map[`${r.day}|${time}|${r.med_id}`] = mark;
+    });
     setIntakes(map);
   };
 
-  useEffect(() => { loadMeds(); /* eslint-disable-next-line */ }, [profile.family_id]);
-  useEffect(() => { loadWeek(); /* eslint-disable-next-line */ }, [profile.family_id, weekStart, onlyToday]);
+  useEffect(() => { loadMeds(); loadFamily(); loadPatientsNow(); /* eslint-disable-next-line */ }, [profile.family_id]);
+  useEffect(() => { loadWeek(); /* eslint-disable-next-line */ }, [profile.family_id, weekStart, todayOnly, familyMeds, slots]);
 
-  // toggle presa (log + scala Box)
-// toggle presa (log + scala Box) — versione fix con delete su "uncheck"
-// aggiunge anche il parametro opzionale "force" per l'uso in bulk
+  // copia locale sempre aggiornata (anche con le modifiche ottimistiche fatte offline)
+  useEffect(() => {
+    if (profile.family_id && familyMeds.length > 0) cacheSet(`meds:${profile.family_id}`, { meds: familyMeds, stocks, lots });
+  }, [profile.family_id, familyMeds, stocks, lots]);
+  useEffect(() => {
+    const from = todayOnly ? todayISO() : weekStart;
+    const to = todayOnly ? todayISO() : addDaysISO(weekStart, 6);
+    if (profile.family_id) cacheSet(`marks:${profile.family_id}:${from}:${to}`, intakes);
+  }, [profile.family_id, weekStart, todayOnly, intakes]);
+
+  // tornati online → reinvia la coda e riallinea con il server. Anche a
+  // intervalli e al ritorno sulla scheda: con una rete instabile una richiesta
+  // fallisce senza che "online" scatti mai.
+  const resync = async (retryFailed = false) => {
+    const done = await replayQueue(retryFailed);
+    if (done > 0) { await loadMeds(); await loadWeek(); }
+  };
+  useEffect(() => {
+    resync();
+    const onOnline = () => { resync(); };
+    const onVisible = () => { if (document.visibilityState === "visible") resync(); };
+    const timer = setInterval(onOnline, QUEUE_RETRY_MS);
+    window.addEventListener("online", onOnline);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", onOnline);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile.family_id]);
+
+  // ---------- Sync in tempo reale con gli altri caregiver ----------
+  // email dei membri della famiglia, per dire "chi" ha segnato
+  const [members, setMembers] = useState<Record<string, string>>({});
+  useEffect(() => {
+    if (!profile.family_id) return;
+    sb!.from("profiles").select("id,email").eq("family_id", profile.family_id).then(({ data, error }) => {
+      if (error) { console.error("select profiles", error); return; }
+      setMembers(Object.fromEntries((data || []).map((p: { id: string; email: string }) => [p.id, p.email])));
+    });
+  }, [profile.family_id]);
+
+  // avvisi a comparsa per le spunte fatte da altri
+  const [notices, setNotices] = useState<{ id: number; text: string }[]>([]);
+  const notify = (text: string) => setNotices((n) => [...n.slice(-4), { id: Date.now() + Math.random(), text }]);
+
+  // gli handler del canale leggono sempre lo stato corrente
+  const live = useRef({ meds: familyMeds, patients, slots, members });
+  live.current = { meds: familyMeds, patients, slots, members };
+  useEffect(() => {
+    if (!profile.family_id) return;
+    const stockTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+    let medsTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeFamily(profile.family_id, {
+      onIntake: (row, deleted) => {
+        const m = live.current.meds.find((x) => x.id === row.med_id);
+        const time = resolveLoggedTime(row.time_slot, m, live.current.slots);
+        const k = `${row.day}|${time}|${row.med_id}`;
+        // la nostra spunta in volo ha già aggiornato la UI
+        if (pendingToggles.current.has(k)) return;
+        const mark = deleted ? null : toMark(row);
+        putMark(k, mark);
+        if (!mark || !row.updated_by || row.updated_by === profile.id) return;
+        // solo la spunta vera e propria, non una nota aggiunta dopo
+        if (row.taken_at && row.updated_at && new Date(row.updated_at).getTime() - new Date(row.taken_at).getTime() > 60_000) return;
+        const who = live.current.members[row.updated_by] || "Un altro caregiver";
+        const forWhom = live.current.patients.length > 1 ? live.current.patients.find((p) => p.id === m?.patient_id)?.name : null;
+        const what = `${m?.name || "un farmaco"}${forWhom ? ` di ${forWhom}` : ""}`;
+        notify(mark.status === "skipped"
+          ? `${who} ha segnato come saltata ${what} (${row.day} ${timeLabel(time)}): ${mark.reason || ""}`
+          : `${who} ha appena segnato ${what} (${row.day} ${timeLabel(time)})`);
+      },
+      // saldo assoluto dal server (non il delta): niente doppi conteggi con le nostre operazioni
+      onStockMovement: (medId) => {
+        clearTimeout(stockTimers[medId]);
+        stockTimers[medId] = setTimeout(async () => {
+          const fresh = await loadStocks([medId]);
+          if (fresh[medId]) setStocks((st) => ({ ...st, [medId]: fresh[medId] }));
+          refreshLots(medId);
+        }, 400);
+      },
+      onMedChange: () => {
+        clearTimeout(medsTimer);
+        medsTimer = setTimeout(() => { loadMeds(); }, 400);
+      },
+      onPatientChange: () => { loadPatientsNow(); },
+    });
+    return () => {
+      unsubscribe();
+      Object.values(stockTimers).forEach(clearTimeout);
+      clearTimeout(medsTimer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile.family_id, profile.id]);
+
+  /** "alle HH:MM" (o data e ora se non è di oggi) */
+  const markedAt = (at: string) => {
+    const day = dayOfInstant(at);
+    const hm = timeOfInstant(at);
+    return day === todayISO() ? `alle ${hm}` : `il ${day.split("-").reverse().join("/")} alle ${hm}`;
+  };
+
+  const putMark = (k: string, mark: IntakeMark | null) => setIntakes((s) => {
+    const next = { ...s };
+    if (mark) next[k] = mark; else delete next[k];
+    return next;
+  });
 
-const toggleTaken = async (
+  // stato dose (log + eventuale delta Box) — una sola RPC atomica e idempotente;
+  // "pending" annulla quanto registrato, "skipped" richiede un motivo e non scala il Box
+const pendingToggles = useRef(new Set<string>());
+const markDose = async (
   day: string,
-  time: TimeSlot,
+  time: string,
   m: Med,
-  force?: boolean
+  next: MarkStatus | "pending",
+  opts: { reason?: string; quiet?: boolean } = {}
 ) => {
   const k = `${day}|${time}|${m.id}`;
-  const next = typeof force === "boolean" ? force : !intakes[k];
-
-  // aggiorna UI locale
-  setIntakes((s) => ({ ...s, [k]: next }));
-
-  if (next) {
-    // spunta → upsert con onConflict
-    const { error } = await sb!
-      .from("intake_logs")
-      .upsert(
-        { family_id: profile.family_id, day, time_slot: time, med_id: m.id, taken: true },
-        { onConflict: "family_id,day,time_slot,med_id" }
-      );
-    if (error) console.error("upsert intake_logs", error);
-  } else {
-    // togli spunta → DELETE (così al refresh non torna spuntato)
-    const { error } = await sb!
-      .from("intake_logs")
-      .delete()
-      .eq("family_id", profile.family_id)
-      .eq("day", day)
-      .eq("time_slot", time)
-      .eq("med_id", m.id);
-    if (error) console.error("delete intake_logs", error);
+  // doppio tap mentre la richiesta precedente è in volo → ignorato
+  if (pendingToggles.current.has(k)) return true;
+  const prev = intakes[k];
+  const quiet = !!opts.quiet;
+
+  // togliere una spunta appena messa da un altro caregiver: meglio chiedere
+  if (next !== "taken" && prev?.status === "taken" && prev.by && prev.by !== profile.id && prev.at && !quiet
+    && Date.now() - new Date(prev.at).getTime() < RECENT_MARK_MS) {
+    if (!confirm(`${members[prev.by] || "Un altro caregiver"} ha segnato questa dose ${markedAt(prev.at)}. Cambiarla davvero?`)) return true;
   }
+  const at = new Date().toISOString();
+  const mine: IntakeMark | null = next === "pending" ? null
+    : { status: next, by: profile.id, at, note: null, reason: next === "skipped" ? opts.reason ?? null : null };
+
+  // aggiorna UI locale (ottimistico)
+  putMark(k, mine);
 
-  // aggiorna Box
-  const { data: box } = await sb!
-    .from("stocks")
-    .select("id,qty")
-    .eq("med_id", m.id)
-    .eq("location", "Box")
-    .single();
-
-  if (box) {
-    const newQty = Math.max(0, (box.qty || 0) + (next ? -m.per_dose : m.per_dose));
-    await sb!.from("stocks").update({ qty: newQty }).eq("id", box.id);
-    setStocks((st) => ({ ...st, [m.id]: { ...(st[m.id] || { box: 0, dispensa: 0 }), box: newQty } }));
+  pendingToggles.current.add(k);
+  const res = await submit(
+    { kind: "intake", medId: m.id, day, time, status: next, reason: opts.reason ?? null, at },
+    `${next === "taken" ? "Presa" : next === "skipped" ? "Saltata" : "Annullata"} ${m.name} ${day} ${time}`
+  );
+  pendingToggles.current.delete(k);
+  const { balance, error, queued } = res;
+  if (queued) {
+    // offline: Box stimato in locale (solo entrando/uscendo da "presa"), il replay lo riallinea
+    const rx = medOn(m, day);
+    const dose = (rx.doses || []).find((d) => d.time === time);
+    const qty = dose ? doseQtyOn(rx, dose, day) : 0;
+    const delta = next === "taken" ? (prev?.status === "taken" ? 0 : -qty) : (prev?.status === "taken" ? qty : 0);
+    if (delta !== 0) bumpStocks([{ med_id: m.id, location: "Box", delta, kind: "dose" }]);
+    return true;
+  }
+  if (error || !balance) {
+    // rollback: la UI torna allo stato precedente
+    putMark(k, prev ?? null);
+    if (!quiet) alert(`Impossibile salvare “${m.name}”: ${error?.message || "errore sconosciuto"}`);
+    return false;
+  }
+  setStocks((st) => ({ ...st, [m.id]: balance }));
+  // era già segnata da qualcun altro: il Box non è cambiato, ma va detto chiaramente
+  const already = (res as { already?: AlreadyMarked | null }).already ?? null;
+  if (next === "taken" && already) {
+    putMark(k, { status: "taken", by: already.by, at: already.at, note: prev?.note ?? null, reason: null });
+    if (already.by !== profile.id && !quiet) {
+      alert(`⚠️ “${m.name}” (${timeLabel(time)}) era già stata segnata da ${already.email || "un altro caregiver"} ${markedAt(already.at)}.\nNON darla di nuovo.`);
+    }
   }
+  return true;
 };
-/** Elenco (med,slot) pianificati per OGGI */
-function plannedDosesForToday(): { med: Med; slot: TimeSlot }[] {
-  const rows: { med: Med; slot: TimeSlot }[] = [];
-  TIMES.forEach((time) => {
-    meds.filter((m) => (m.times || []).includes(time)).forEach((m) => rows.push({ med: m, slot: time }));
-  });
-  return rows;
+/** Spunta: presa ↔ da dare (una dose saltata diventa presa) */
+const toggleTaken = (day: string, time: string, m: Med) =>
+  markDose(day, time, m, intakes[`${day}|${time}|${m.id}`]?.status === "taken" ? "pending" : "taken");
+/** Salta la dose chiedendo il motivo */
+const skipDose = (day: string, time: string, m: Med) => {
+  const reason = prompt(`Motivo per saltare “${m.name}” (${timeLabel(time)})?\nEs.: ${SKIP_REASONS.join(", ")}`, SKIP_REASONS[0]);
+  if (!reason?.trim()) return;
+  markDose(day, time, m, "skipped", { reason: reason.trim() });
+};
+/** Cella "Stato" di una dose (planner e giro di oggi): spunta, salta/annulla, chi e quando */
+const doseStateCell = (day: string, time: string, m: Med) => {
+  const mark = intakes[`${day}|${time}|${m.id}`];
+  const look = STATUS_LOOK[doseStatus(mark, day, time, now)];
+  // vista di oggi (anche dall'icona sulla Home): spunta grande, un tocco
+  const touch = todayOnly;
+  return (
+    <td style={{ background: look.color, whiteSpace: "nowrap", padding: touch ? "6px 8px" : undefined }}>
+      <input type="checkbox"
+        checked={mark?.status === "taken"}
+        onChange={() => toggleTaken(day, time, m)}
+        style={touch ? styles.touchCheck : undefined}
+      />
+      <span style={{ fontSize: 12, color: look.text, marginLeft: 4 }} title={mark?.reason || undefined}>
+        {look.label}
+      </span>
+      {mark?.status === "skipped" ? (
+        <button style={{ ...styles.nav, fontSize: touch ? 14 : 11, marginLeft: 6, padding: touch ? "8px 12px" : undefined }} title="Annulla il salto"
+          onClick={() => markDose(day, time, m, "pending")}>↩</button>
+      ) : !mark && (
+        <button style={{ ...styles.nav, fontSize: touch ? 14 : 11, marginLeft: 6, padding: touch ? "8px 12px" : undefined }} title="Salta la dose (con motivo)"
+          onClick={() => skipDose(day, time, m)}>Salta</button>
+      )}
+      <IntakeBadge
+        info={mark}
+        members={members}
+        onOpen={() => setDoseLog({ med: m, day, time })}
+      />
+    </td>
+  );
+};
+/** Elenco (med,orario,fascia) pianificati per OGGI secondo la ricorrenza (di default: paziente scelto) */
+function plannedDosesForToday(list: Med[] = meds): ScheduledDose[] {
+  return dosesOn(list, slots, todayISO()).flatMap((g) => g.doses);
 }
 
 /** Spunta/annulla in blocco tutti i farmaci di oggi */
 async function markAllToday(checked: boolean) {
   const day = todayISO();
-  const jobs: Promise<any>[] = [];
-  plannedDosesForToday().forEach(({ med, slot }) => {
-    const k = `${day}|${slot}|${med.id}`;
-    const cur = !!intakes[k];
-    if (cur !== checked) {
-      // riusa toggleTaken con "force" per uno stato preciso
-      jobs.push(toggleTaken(day, slot, med, checked));
+  const jobs: Promise<boolean>[] = [];
+  plannedDosesForToday().forEach(({ med, dose }) => {
+    const cur = intakes[`${day}|${dose.time}|${med.id}`]?.status;
+    // le dosi saltate restano saltate; si annullano solo quelle prese
+    if (checked ? !cur : cur === "taken") {
+      jobs.push(markDose(day, dose.time, med, checked ? "taken" : "pending", { quiet: true }));
     }
   });
-  await Promise.all(jobs);
+  const results = await Promise.all(jobs);
+  const failed = results.filter((ok) => !ok).length;
+  if (failed > 0) alert(`${failed} assunzioni non salvate: riprova.`);
   await loadWeek(); // riallinea eventuali sfalsamenti
 }
 
+  // aggiorna i saldi locali per differenza
+  const bumpStocks = (rows: NewMovement[]) => {
+    setStocks(st => {
+      const next = { ...st };
+      rows.forEach(r => {
+        const cur = next[r.med_id] || { box: 0, dispensa: 0 };
+        next[r.med_id] = r.location === "Box"
+          ? { ...cur, box: cur.box + r.delta }
+          : { ...cur, dispensa: cur.dispensa + r.delta };
+      });
+      return next;
+    });
+  };
+  // registra movimenti (o li accoda se offline) e aggiorna i saldi locali
+  const applyMovements = async (rows: NewMovement[], label: string) => {
+    const { error } = await submit({ kind: "movements", familyId: profile.family_id!, rows, opId: crypto.randomUUID() }, label);
+    if (error) { alert(`${label}: ${error.message}`); return false; }
+    bumpStocks(rows);
+    return true;
+  };
+
   // movimenti incrementali
   const moveFromPantry = async (m: Med, qty: number) => {
     if (!qty || qty <= 0) return;
-    const { data: box } = await sb!.from("stocks").select("id,qty").eq("med_id", m.id).eq("location", "Box").single();
-    const { data: pan } = await sb!.from("stocks").select("id,qty").eq("med_id", m.id).eq("location", "Dispensa").single();
-    if (box && pan) {
-      const newBox = (box.qty || 0) + qty;
-      const newPan = Math.max(0, (pan.qty || 0) - qty);
-      await sb!.from("stocks").update({ qty: newBox }).eq("id", box.id);
-      await sb!.from("stocks").update({ qty: newPan }).eq("id", pan.id);
-      setStocks(st => ({ ...st, [m.id]: { box: newBox, dispensa: newPan } }));
+    const { balance, error, queued } = await submit(
+      { kind: "transfer", medId: m.id, qty, opId: crypto.randomUUID() },
+      `Travaso ${m.name} (${qty})`
+    );
+    if (queued) {
+      bumpStocks([
+        { med_id: m.id, location: "Dispensa", delta: -qty, kind: "transfer" },
+        { med_id: m.id, location: "Box", delta: qty, kind: "transfer" },
+      ]);
+      return;
     }
+    if (error || !balance) { alert(`Travaso non riuscito: ${error?.message || "errore sconosciuto"}`); return; }
+    setStocks(st => ({ ...st, [m.id]: balance }));
+    refreshLots(m.id);
   };
-  const addPantry = async (m: Med, qty: number) => {
+  // acquisto in farmacia: prima si chiedono lotto e scadenza (popup)
+  const [purchasing, setPurchasing] = useState<null | { med: Med; qty: number; lot: string; expiresOn: string }>(null);
+  const addPantry = async (m: Med, qty: number, lot: string, expiresOn: string) => {
     if (!qty || qty <= 0) return;
-    const { data: pan } = await sb!.from("stocks").select("id,qty").eq("med_id", m.id).eq("location", "Dispensa").single();
-    if (pan) {
-      const newPan = (pan.qty || 0) + qty;
-      await sb!.from("stocks").update({ qty: newPan }).eq("id", pan.id);
-      setStocks(st => ({ ...st, [m.id]: { ...(st[m.id] || { box: 0, dispensa: 0 }), dispensa: newPan } }));
+    const { balance, error, queued } = await submit(
+      { kind: "purchase", medId: m.id, qty, lot: lot.trim() || null, expiresOn: expiresOn || null, opId: crypto.randomUUID() },
+      `Acquisto ${m.name} (${qty})`
+    );
+    if (queued) { bumpStocks([{ med_id: m.id, location: "Dispensa", delta: qty, kind: "purchase" }]); return; }
+    if (error || !balance) { alert(`Acquisto non registrato: ${error?.message || "errore sconosciuto"}`); return; }
+    setStocks(st => ({ ...st, [m.id]: balance }));
+    refreshLots(m.id);
+  };
+  // smaltimento di un lotto scaduto: esce dalla Dispensa con il motivo nei movimenti
+  const disposeLot = async (m: Med, lot: StockLot) => {
+    const reason = prompt(`Smaltire ${qtyLabel(lot.qty, m)} di ${m.name}${lot.lot ? ` (lotto ${lot.lot})` : ""}? Motivo:`, "Scaduto");
+    if (!reason?.trim()) return;
+    const { balance, error, queued } = await submit(
+      { kind: "dispose", lotId: lot.lot_id, reason: reason.trim(), opId: crypto.randomUUID() },
+      `Smaltimento ${m.name} (${lot.qty})`
+    );
+    if (queued) {
+      bumpStocks([{ med_id: m.id, location: "Dispensa", delta: -lot.qty, kind: "disposal" }]);
+      setLots(all => ({ ...all, [m.id]: (all[m.id] || []).filter(l => l.lot_id !== lot.lot_id) }));
+      return;
     }
+    if (error || !balance) { alert(`Smaltimento non riuscito: ${error?.message || "errore sconosciuto"}`); return; }
+    setStocks(st => ({ ...st, [m.id]: balance }));
+    refreshLots(m.id);
   };
 
-  // correzione manuale assoluta
-  const setBoxQty = async (m: Med, qty: number) => {
+  // lista farmacia: acquisto registrato in blocco (un'unica insert)
+  async function registerPurchase(rows: ShoppingRow[]) {
+    return applyMovements(rows.map(r => ({
+      med_id: r.med.id, location: "Dispensa" as const, delta: r.units, kind: "purchase" as const, reason: "Acquisto da lista farmacia",
+    })), "Acquisto da lista farmacia");
+  }
+  async function savePackSize(m: Med, size: number | null) {
+    const { error } = await sb!.from("meds").update({ pack_size: size }).eq("id", m.id);
+    if (error) { alert(error.message); return; }
+    setFamilyMeds(ms => ms.map(x => (x.id === m.id ? { ...x, pack_size: size } : x)));
+  }
+
+  // correzione manuale assoluta → movimento pari alla differenza col saldo attuale
+  const setQty = async (m: Med, location: StockLocation, qty: number) => {
     if (qty < 0 || Number.isNaN(qty)) return;
-    const { data: box } = await sb!.from("stocks").select("id").eq("med_id", m.id).eq("location", "Box").single();
-    if (box) {
-      await sb!.from("stocks").update({ qty }).eq("id", box.id);
-      setStocks(st => ({ ...st, [m.id]: { ...(st[m.id] || { box: 0, dispensa: 0 }), box: qty } }));
-    }
+    const reason = prompt("Motivo della correzione (facoltativo)", "Conteggio manuale");
+    if (reason === null) return;
+    const { balance, error } = await submit(
+      { kind: "correction", familyId: profile.family_id!, medId: m.id, location, qty, reason: reason || null, opId: crypto.randomUUID() },
+      `Correzione ${m.name} ${location} = ${qty}`
+    );
+    if (error) { alert(`Correzione non salvata: ${error.message}`); return; }
+    setStocks(st => {
+      const cur = balance || st[m.id] || { box: 0, dispensa: 0 };
+      return { ...st, [m.id]: location === "Box" ? { ...cur, box: qty } : { ...cur, dispensa: qty } };
+    });
   };
-  const setPantryQty = async (m: Med, qty: number) => {
-    if (qty < 0 || Number.isNaN(qty)) return;
-    const { data: pan } = await sb!.from("stocks").select("id").eq("med_id", m.id).eq("location", "Dispensa").single();
-    if (pan) {
-      await sb!.from("stocks").update({ qty }).eq("id", pan.id);
-      setStocks(st => ({ ...st, [m.id]: { ...(st[m.id] || { box: 0, dispensa: 0 }), dispensa: qty } }));
+  const setBoxQty = (m: Med, qty: number) => setQty(m, "Box", qty);
+  const setPantryQty = (m: Med, qty: number) => setQty(m, "Dispensa", qty);
+
+  // --- Storico movimenti (popup) ---
+  const [history, setHistory] = useState<null | { med: Med; rows: StockMovement[] }>(null);
+  const [reporting, setReporting] = useState(false);
+  const [transferring, setTransferring] = useState(false);
+  const [familyOpen, setFamilyOpen] = useState(false);
+  const [remindersOpen, setRemindersOpen] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [filling, setFilling] = useState(false);
+
+  // portapillole riempito: i totali della settimana passano dalla Dispensa al Box
+  async function fillBox(items: { med: Med; qty: number }[], from: string) {
+    const { error, queued } = await submit(
+      { kind: "fill", items: items.map(i => ({ medId: i.med.id, qty: i.qty })), reason: `Portapillole dal ${from}`, opId: crypto.randomUUID() },
+      `Portapillole ${patient?.name || ""} dal ${from}`
+    );
+    const rows = items.flatMap(i => [
+      { med_id: i.med.id, location: "Dispensa" as const, delta: -i.qty, kind: "transfer" as const },
+      { med_id: i.med.id, location: "Box" as const, delta: i.qty, kind: "transfer" as const },
+    ]);
+    if (queued) { bumpStocks(rows); return true; }
+    if (error) { alert(`Travaso non riuscito: ${error.message}`); return false; }
+    const ids = items.map(i => i.med.id);
+    const [fresh, freshLots] = await Promise.all([loadStocks(ids), loadLots(ids)]);
+    setStocks(st => ({ ...st, ...fresh }));
+    setLots(all => ({ ...all, ...Object.fromEntries(ids.map(id => [id, freshLots[id] || []])) }));
+    return true;
+  }
+
+  // confezione scansionata: se è di un farmaco noto si registra l'acquisto,
+  // altrimenti si parte dal modulo "Aggiungi" con il codice già collegato
+  async function onScannedPack(pack: ScannedPack) {
+    setScanning(false);
+    const { ids, error } = await medIdsForCodes(profile.family_id!, pack.codes);
+    // senza la ricerca non si sa se il farmaco c'è già: niente "Aggiungi" (sarebbe un doppione)
+    if (error) { alert(`Impossibile cercare la confezione (${packLabel(pack)}): ${error.message}. Riprova quando sei online.`); return; }
+    const known = familyMeds.filter(m => ids.includes(m.id));
+    const m = known.find(x => x.patient_id === patientId) || known[0];
+    if (m) {
+      if (m.patient_id !== patientId) choosePatient(m.patient_id);
+      linkMedCodes(profile.family_id!, m.id, pack.codes); // es. GTIN letto per la prima volta accanto all'AIC
+      setView("stocks");
+      setPurchasing({ med: m, qty: m.pack_size || 1, lot: pack.lot || "", expiresOn: pack.expiresOn || "" });
+      return;
     }
-  };
+    if (ids.length > 0) { alert(`La confezione (${packLabel(pack)}) è di un farmaco archiviato: ripristinalo da "Archiviati e cestino".`); return; }
+    if (!can.manageMeds) { alert(`Confezione non riconosciuta (${packLabel(pack)}): chiedi a un amministratore di aggiungere il farmaco.`); return; }
+    setNewMed({ ...EMPTY_NEW_MED, scanned: pack });
+    setAdding(true);
+  }
+  const [doseLog, setDoseLog] = useState<null | { med: Med; day: string; time: string }>(null);
+  async function openHistory(m: Med) {
+    setHistory({ med: m, rows: [] });
+    const rows = await loadMovements(m.id);
+    setHistory(h => (h && h.med.id === m.id ? { med: m, rows } : h));
+  }
 
   // indicatori scorte
-  const weeklyNeed = (m: Med) => m.per_dose * (m.times?.length || 0) * 7;
+  const weeklyNeed = (m: Med) => needBetween(m, todayISO(), 7);
+  // quantità digitate nelle card: in unità o in confezioni (se pack_size è noto)
+  const [qtyModes, setQtyModes] = useState<Record<string, QtyMode>>({});
+  const readQty = (el: HTMLInputElement | null, m: Med) => toUnits(Number(el?.value || 0), qtyModes[m.id] || "units", m);
+
+  // il lotto messo peggio del farmaco: scaduto > in scadenza
+  const lotsExpiry = (m: Med) => {
+    const all = (lots[m.id] || []).map(l => expiryStatus(l));
+    return all.includes("expired") ? "expired" : all.includes("expiring") ? "expiring" : null;
+  };
   const totalStock = (m: Med) => (stocks[m.id]?.box || 0) + (stocks[m.id]?.dispensa || 0);
-  const statusText = (m: Med) =>
-    totalStock(m) < m.threshold ? "Sotto soglia" :
-    totalStock(m) < weeklyNeed(m) ? "Copertura < 1 settimana" : "OK";
+  const statusText = (m: Med) => {
+    const days = forecasts[m.id]?.totalDays;
+    return totalStock(m) < m.threshold ? "Sotto soglia" :
+      (days ?? Infinity) < forecastSettings.alertDays ? `Copertura < ${forecastSettings.alertDays} gg` : "OK";
+  };
+
+  // avvisi scorte (solo admin): al primo caricamento si leggono e basta, poi
+  // il server ricalcola solo i farmaci con saldo, soglia o terapia cambiati
+  const [stockAlerts, setStockAlerts] = useState<StockAlert[]>([]);
+  const alertInputs = useRef<Record<string, string> | null>(null);
+  useEffect(() => {
+    if (!can.manageMeds || !profile.family_id || familyMeds.length === 0) return;
+    const inputs = Object.fromEntries(familyMeds.map(m => [m.id, JSON.stringify([
+      (stocks[m.id]?.box || 0) + (stocks[m.id]?.dispensa || 0), m.threshold, m.doses, m.schedule, m.versions?.length,
+    ])]));
+    const prev = alertInputs.current;
+    const changed = prev ? familyMeds.filter(m => prev[m.id] !== inputs[m.id]).map(m => m.id) : [];
+    const t = setTimeout(() => {
+      alertInputs.current = inputs;
+      refreshStockAlerts(profile.family_id!, changed).then(setStockAlerts);
+    }, 1000);
+    return () => clearTimeout(t);
+  }, [can.manageMeds, profile.family_id, familyMeds, stocks]);
+  async function closeAlert(a: StockAlert, snoozeHours?: number) {
+    const error = snoozeHours ? await snoozeStockAlert(a, snoozeHours) : await ackStockAlert(a);
+    if (error) { alert(error.message); return; }
+    setStockAlerts(all => all.filter(x => x.med_id !== a.med_id || x.kind !== a.kind));
+  }
+  const alertText = (a: StockAlert) => {
+    const m = familyMeds.find(x => x.id === a.med_id);
+    const who = patients.length > 1 ? patients.find(p => p.id === m?.patient_id)?.name : undefined;
+    const detail = a.kind === "low"
+      ? `restano ${m ? stockLabel(a.total, m) : a.total}`
+      : a.days_left === 0 ? "non basta per oggi" : `copre ${a.days_left} gg`;
+    return `${m?.name || "Farmaco"}${who ? ` (${who})` : ""} ${ALERT_LABELS[a.kind]}: ${detail}`;
+  };
+
+  // previsione esaurimento: ricorrenza reale × aderenza degli ultimi N giorni
+  const [usage, setUsage] = useState<{ used: Record<string, number>; takenToday: Record<string, number> }>({ used: {}, takenToday: {} });
+  useEffect(() => {
+    if (view === "planner" || !profile.family_id || meds.length === 0) return;
+    loadRecentUsage(meds, slots, profile.family_id, todayISO(), forecastSettings.historyDays).then(setUsage);
+  }, [view, meds, slots, stocks, profile.family_id, forecastSettings.historyDays]);
+  const forecasts = useMemo(() => {
+    const today = todayISO();
+    const map: Record<string, Forecast> = {};
+    meds.forEach(m => {
+      const rate = usageRate(m, usage.used[m.id] || 0, today, forecastSettings.historyDays);
+      map[m.id] = forecastMed(m, stocks[m.id] || { box: 0, dispensa: 0 }, rate, today, usage.takenToday[m.id] || 0, forecastSettings);
+    });
+    return map;
+  }, [meds, stocks, usage, forecastSettings]);
+  const usageRates = useMemo(
+    () => Object.fromEntries(Object.entries(forecasts).map(([id, f]) => [id, f.rate])),
+    [forecasts]
+  );
+  const runOutOrder = useMemo(
+    () => [...meds].sort((a, b) => (forecasts[a.id]?.totalRunOut || "9999").localeCompare(forecasts[b.id]?.totalRunOut || "9999")),
+    [meds, forecasts]
+  );
 
   // -------- Export PDF settimana (stampa browser) --------
   function exportWeekPDF() {
-    const title = onlyToday
+    const title = (onlyToday
       ? `Assunzioni del ${days[0] || todayISO()}`
-      : `Assunzioni ${weekStart} → ${addDaysISO(weekStart, 6)}`;
+      : `Assunzioni ${weekStart} → ${addDaysISO(weekStart, 6)}`) + (patient ? ` · ${patient.name}` : "");
     let htmlRows = "";
     days.forEach(day => {
-      htmlRows += `<tr><td colspan="5" style="background:#f5f5f5;font-weight:600;padding:6px">${day}</td></tr>`;
-      TIMES.forEach(time => {
-        const medsAt = meds.filter(m => (m.times || []).includes(time));
-        medsAt.forEach(m => {
-          const checked = intakes[`${day}|${time}|${m.id}`] ? "✓" : "";
-          htmlRows += `<tr>
-            <td>${time}</td>
-            <td>${m.name}${m.dosage ? " – " + m.dosage : ""}</td>
-            <td style="text-align:center">${m.per_dose}</td>
-            <td style="text-align:center">${checked}</td>
+      htmlRows += `<tr><td colspan="4" style="background:#f5f5f5;font-weight:600;padding:6px">${escapeHtml(day)}</td></tr>`;
+      dosesOn(meds, slots, day).forEach(({ slot, doses }) => {
+        doses.forEach(({ med: m, dose }) => {
+          const mark = intakes[`${day}|${dose.time}|${m.id}`];
+          const look = STATUS_LOOK[doseStatus(mark, day, dose.time, now)];
+          const detail = mark?.status === "skipped" && mark.reason ? ` (${mark.reason})` : "";
+          htmlRows += `<tr style="background:${escapeHtml(slot.color)}">
+            <td>${escapeHtml(`${slot.name} · ${timeLabel(dose.time)}`)}</td>
+            <td>${escapeHtml(m.name)}${m.dosage ? " – " + escapeHtml(m.dosage) : ""}</td>
+            <td style="text-align:center">${escapeHtml(qtyLabel(dose.qty, m))}</td>
+            <td style="text-align:center;background:${look.color};color:${look.text}">${escapeHtml(look.label + detail)}</td>
           </tr>`;
         });
       });
     });
-    const html = `<!doctype html><html><head><meta charset="utf-8">
-      <title>${title}</title>
-      <style>
-        body{font-family:system-ui,-apple-system,Segoe UI,Roboto,sans-serif;padding:24px}
-        h1{font-size:18px;margin:0 0 10px}
-        table{width:100%;border-collapse:collapse}
-        th,td{border:1px solid #ddd;padding:6px;font-size:12px}
-        th{background:#fafafa;text-align:left}
-      </style></head><body>
-      <h1>${title}</h1>
-      <table>
-        <thead><tr><th>Orario</th><th>Farmaco</th><th>Dose</th><th>Preso</th></tr></thead>
+    printHtml(title, `<table>
+        <thead><tr><th>Orario</th><th>Farmaco</th><th>Dose</th><th>Stato</th></tr></thead>
         <tbody>${htmlRows}</tbody>
-      </table>
-      <script>window.onload=()=>{window.print();}</script>
-    </body></html>`;
-    const w = window.open("", "_blank");
-    if (w) { w.document.write(html); w.document.close(); }
+      </table>`);
   }
 
   return (
     <div style={{ padding: "28px", fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif" }}>
-      <Title />
-      <div style={{ margin: "6px 0 18px 0" }}>Benvenuto, <b>{profile.email}</b></div>
+      <Title patient={view === "rounds" ? undefined : patient?.name} />
+      <div style={{ margin: "6px 0 18px 0", display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+        <span>Benvenuto, <b>{profile.email}</b>{familyName && <> · {familyName}</>}</span>
+        <button style={{ ...styles.nav, padding: "4px 10px" }} onClick={() => setFamilyOpen(true)}>
+          👪 Famiglia{can.manageFamily ? "" : " (membro)"}
+        </button>
+        <button style={{ ...styles.nav, padding: "4px 10px" }} onClick={() => setRemindersOpen(true)}>🔔 Promemoria</button>
+        <SyncStatus onRetry={() => resync(true)} />
+      </div>
+
+      {notices.map((n) => (
+        <div key={n.id} style={{ background: "#fff3cd", border: "1px solid #f0c36d", borderRadius: 8, padding: "8px 12px", marginBottom: 8, display: "flex", alignItems: "center", gap: 8 }}>
+          <span style={{ flex: 1 }}>⚠️ {n.text}</span>
+          <button style={styles.nav} onClick={() => setNotices((all) => all.filter((x) => x.id !== n.id))}>OK</button>
+        </div>
+      ))}
+
+      {pendingAlerts(stockAlerts).map((a) => (
+        <div key={`${a.med_id}-${a.kind}`} style={{ background: a.kind === "low" ? "#fde2e1" : "#fff3cd", border: "1px solid #f0c36d", borderRadius: 8, padding: "8px 12px", marginBottom: 8, display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+          <span style={{ flex: 1 }}>📦 {alertText(a)}</span>
+          <button style={styles.nav} onClick={() => closeAlert(a)}>Visto</button>
+          <select style={styles.select} value="" onChange={(e) => e.target.value && closeAlert(a, Number(e.target.value))}>
+            <option value="">Posticipa…</option>
+            {SNOOZE_OPTIONS.map(o => <option key={o.hours} value={o.hours}>{o.label}</option>)}
+          </select>
+        </div>
+      ))}
+
+      {/* ---- Paziente ---- */}
+      {view !== "rounds" && (
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8, flexWrap: "wrap" }}>
+          <label style={{ fontSize: 14, color: "#444" }}>Paziente:</label>
+          {patients.length > 0 ? (
+            <select value={patientId ?? ""} onChange={(e) => choosePatient(e.target.value)} style={styles.select}>
+              {patients.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          ) : (
+            <span style={{ color: "#888", fontSize: 14 }}>
+              nessuno{can.manageMeds ? "" : " (chiedi a un amministratore di aggiungerlo)"}
+            </span>
+          )}
+          {can.manageMeds && patient && (
+            <button style={{ ...styles.nav, padding: "4px 10px" }} onClick={renameCurrentPatient} title="Rinomina il paziente">✏️</button>
+          )}
+          {can.manageMeds && (
+            <button style={{ ...styles.nav, padding: "4px 10px" }} onClick={addPatient}>+ Paziente</button>
+          )}
+        </div>
+      )}
 
       {/* ---- Menù vista + toggle oggi + export ---- */}
       <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12, flexWrap: "wrap" }}>
         <label style={{ fontSize: 14, color: "#444" }}>Mostra:</label>
         <select value={view} onChange={(e) => setView(e.target.value as any)} style={styles.select}>
           <option value="planner">Dose presa (planner settimanale)</option>
+          <option value="rounds">Giro di oggi (tutti i pazienti)</option>
           <option value="stocks">Scorte & Rifornimenti</option>
+          <option value="shopping">Lista farmacia</option>
+          <option value="history">Storico</option>
+          <option value="archive">Archiviati e cestino</option>
         </select>
 
         {view === "planner" && (
@@ -446,15 +1020,70 @@ async function markAllToday(checked: boolean) {
     <button style={{ ...styles.btn, padding: "8px 12px" }} onClick={exportWeekPDF}>
       Esporta PDF
     </button>
+    <button style={{ ...styles.nav, padding: "8px 12px" }} onClick={() => setEditingSlots(true)}>
+      ⚙️ Fasce orarie
+    </button>
   </>
 )}
 
 
+        {(view === "planner" || view === "history") && (
+          <button style={{ ...styles.btn, padding: "8px 12px", background: "#6f42c1" }} onClick={() => setReporting(true)}>
+            🩺 Relazione medico
+          </button>
+        )}
+
         {view === "stocks" && (
-          <button style={{ ...styles.btn, padding: "8px 12px" }} onClick={() => setAdding(true)}>+ Aggiungi nuovo farmaco</button>
+          <>
+            <button style={{ ...styles.btn, padding: "8px 12px", background: "#198754" }} onClick={() => setScanning(true)}>📷 Scansiona confezione</button>
+            {meds.length > 0 && (
+              <button style={{ ...styles.btn, padding: "8px 12px", background: "#6f42c1" }} onClick={() => setFilling(true)}>💊 Riempi portapillole</button>
+            )}
+            {can.manageMeds && (
+              <button style={{ ...styles.btn, padding: "8px 12px" }} onClick={() => setAdding(true)}>+ Aggiungi nuovo farmaco</button>
+            )}
+            <button style={{ ...styles.nav, padding: "8px 12px" }} onClick={() => setTransferring(true)}>⇅ Importa / esporta</button>
+          </>
         )}
       </div>
 
+      {/* -------- Giro di oggi: tutti i pazienti, per orario -------- */}
+      {view === "rounds" && (
+        <Section title={`Giro di oggi · ${todayISO()}`}>
+          {(() => {
+            const day = todayISO();
+            const groups = dosesOn(familyMeds, slots, day);
+            if (groups.every(g => g.doses.length === 0)) return <p style={{ color: "#666" }}>Nessuna dose prevista oggi.</p>;
+            const nameOf = (m: Med) => patients.find(p => p.id === m.patient_id)?.name || "—";
+            return (
+              <div style={{ overflowX: "auto" }}>
+                <table style={styles.table}>
+                  <thead>
+                    <tr><th>Fascia</th><th>Orario</th><th>Paziente</th><th>Farmaco</th><th>Dose</th><th>Stato</th></tr>
+                  </thead>
+                  <tbody>
+                    {groups.flatMap(({ slot, doses }) =>
+                      // stesso orario: raggruppati per paziente
+                      [...doses].sort((a, b) => a.dose.time.localeCompare(b.dose.time) || nameOf(a.med).localeCompare(nameOf(b.med)))
+                        .map(({ med: m, dose }, idx) => (
+                          <tr key={`${dose.time}-${m.id}`} style={{ background: slot.color }}>
+                            <td>{idx === 0 ? slot.name : ""}</td>
+                            <td>{timeLabel(dose.time)}</td>
+                            <td><b>{nameOf(m)}</b></td>
+                            <td>{m.name} {m.dosage ? <span style={{ color: "#666" }}>– {m.dosage}</span> : null}</td>
+                            <td>{qtyLabel(dose.qty, m)}</td>
+                            {doseStateCell(day, dose.time, m)}
+                          </tr>
+                        ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })()}
+        </Section>
+      )}
+
       {/* -------- Dose presa (planner settimanale) -------- */}
 
       {view === "planner" && (
@@ -469,14 +1098,14 @@ async function markAllToday(checked: boolean) {
           )}
 
           {meds.length === 0 ? (
-            <EmptyHint onAdd={() => setAdding(true)} />
+            <EmptyHint onAdd={can.manageMeds ? () => setAdding(true) : undefined} />
           ) : (
             <div style={{ overflowX: "auto" }}>
               <table style={styles.table}>
                 <thead>
                   <tr>
                     {!onlyToday && <th>Giorno</th>}
-                    <th>Orario</th><th>Farmaco</th><th>Dose</th><th>Preso?</th>
+                    <th>Fascia</th><th>Orario</th><th>Farmaco</th><th>Dose</th><th>Stato</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -485,26 +1114,20 @@ async function markAllToday(checked: boolean) {
                     if (!onlyToday) {
                       rows.push(
                         <tr key={`${day}-header`}>
-                          <td colSpan={5} style={{ background: "#fafafa", fontWeight: 600 }}>{day}</td>
+                          <td colSpan={6} style={{ background: "#fafafa", fontWeight: 600 }}>{day}</td>
                         </tr>
                       );
                     }
-                    TIMES.forEach(time => {
-                      const medsAt = meds.filter(m => (m.times || []).includes(time));
-                      medsAt.forEach((m, idx) => {
-                        const bg = TIME_COLORS[time];
+                    dosesOn(meds, slots, day).forEach(({ slot, doses }) => {
+                      doses.forEach(({ med: m, dose }, idx) => {
                         rows.push(
-                          <tr key={`${day}-${time}-${m.id}`} style={{ background: bg }}>
+                          <tr key={`${day}-${dose.time}-${m.id}`} style={{ background: slot.color, fontSize: onlyToday ? 17 : undefined }}>
                             {!onlyToday && <td>{idx === 0 ? day : ""}</td>}
-                            <td>{idx === 0 ? time : ""}</td>
+                            <td>{idx === 0 ? slot.name : ""}</td>
+                            <td>{timeLabel(dose.time)}</td>
                             <td>{m.name} {m.dosage ? <span style={{ color: "#666" }}>– {m.dosage}</span> : null}</td>
-                            <td>{m.per_dose} pill.</td>
-                            <td>
-                              <input type="checkbox"
-                                checked={!!intakes[`${day}|${time}|${m.id}`]}
-                                onChange={() => toggleTaken(day, time, m)}
-                              />
-                            </td>
+                            <td>{qtyLabel(dose.qty, m)}</td>
+                            {doseStateCell(day, dose.time, m)}
                           </tr>
                         );
                       });
@@ -522,9 +1145,52 @@ async function markAllToday(checked: boolean) {
       {view === "stocks" && (
         <Section title="Scorte & Rifornimenti">
           {meds.length === 0 ? (
-            <EmptyHint onAdd={() => setAdding(true)} />
+            <EmptyHint onAdd={can.manageMeds ? () => setAdding(true) : undefined} />
           ) : (
             <div style={{ display: "grid", gap: 12 }}>
+              {/* Riepilogo: chi finisce prima */}
+              <div style={{ ...styles.card, background: "#fcfcfc" }}>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 8 }}>
+                  <div style={{ fontWeight: 600 }}>Prossimi esaurimenti</div>
+                  <div style={{ display: "flex", gap: 8, fontSize: 12, color: "#555", alignItems: "center" }}>
+                    Attesa farmacia
+                    <input type="number" min={0} max={60} value={forecastSettings.leadDays} style={{ ...styles.inputSmall, width: 60 }}
+                      onChange={(e) => setForecastSettings({ ...forecastSettings, leadDays: Math.min(60, Math.max(0, Number(e.target.value || 0))) })}
+                      onBlur={() => saveForecastSettings(forecastSettings)} />
+                    gg · Storico consumi
+                    <input type="number" min={1} max={90} value={forecastSettings.historyDays} style={{ ...styles.inputSmall, width: 60 }}
+                      onChange={(e) => setForecastSettings({ ...forecastSettings, historyDays: Math.min(90, Math.max(1, Number(e.target.value || 1))) })}
+                      onBlur={() => saveForecastSettings(forecastSettings)} />
+                    gg · Avvisa sotto
+                    <input type="number" min={1} max={60} value={forecastSettings.alertDays} style={{ ...styles.inputSmall, width: 60 }}
+                      onChange={(e) => setForecastSettings({ ...forecastSettings, alertDays: Math.min(60, Math.max(1, Number(e.target.value || 1))) })}
+                      onBlur={() => saveForecastSettings(forecastSettings)} />
+                    gg
+                  </div>
+                </div>
+                <table style={{ ...styles.table, fontSize: 13, marginTop: 8 }}>
+                  <thead>
+                    <tr><th style={{ textAlign: "left" }}>Farmaco</th><th>Box fino al</th><th>Box+Dispensa fino al</th><th>Compra entro</th></tr>
+                  </thead>
+                  <tbody>
+                    {runOutOrder.map(m => {
+                      const f = forecasts[m.id];
+                      const urgent = !!f?.buyBy && daysBetweenISO(todayISO(), f.buyBy) <= 0;
+                      return (
+                        <tr key={m.id}>
+                          <td>{m.name}</td>
+                          <td style={{ textAlign: "center" }}>{f?.boxRunOut || "—"}</td>
+                          <td style={{ textAlign: "center" }}>{f?.totalRunOut || "—"}</td>
+                          <td style={{ textAlign: "center", color: urgent ? "#b30021" : undefined, fontWeight: urgent ? 700 : undefined }}>
+                            {f?.buyBy ? (urgent ? "Oggi!" : f.buyBy) : "—"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
               {meds.map(m => {
                 const tone = statusTone(statusText(m)); // green | amber | red
                 const toneColor = tone === "green" ? "#2ecc71" : tone === "amber" ? "#f39c12" : "#e74c3c";
@@ -533,107 +1199,174 @@ async function markAllToday(checked: boolean) {
                     <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
                       <div style={{ fontWeight: 600 }}>
                         {m.name} {m.dosage ? <span style={{ color: "#666" }}>– {m.dosage}</span> : null}
-                        <button
+                        {can.manageMeds && <button
                           style={{ marginLeft: 8, fontSize: 12, padding: "6px 8px", borderRadius: 8, border: "1px solid #ddd", background: "#fff", cursor: "pointer" }}
                           title="Modifica farmaco"
-                          onClick={() =>
-                            setEditing({ id: m.id, name: m.name, dosage: m.dosage, per_dose: m.per_dose, times: m.times || [] })
-                          }
+                          onClick={() => {
+                            const rx = medOn(m, todayISO());
+                            setEditing({
+                              id: m.id, name: m.name, dosage: rx.dosage, doses: rx.doses || [], schedule: rx.schedule || DAILY,
+                              unit: m.unit || "tablet", pack_size: m.pack_size,
+                              effective_from: todayISO(), prescriber: versionLog(m)[0]?.version.prescriber ?? null, note: "",
+                            });
+                          }}
                         >
                           ✏️ Modifica
+                        </button>}
+                        <button
+                          style={{ marginLeft: 6, fontSize: 12, padding: "6px 8px", borderRadius: 8, border: "1px solid #ddd", background: "#fff", cursor: "pointer" }}
+                          title="Storico movimenti scorte"
+                          onClick={() => openHistory(m)}
+                        >
+                          📜 Movimenti
                         </button>
                       </div>
                       <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
                         <Badge tone={tone}>{statusText(m)}</Badge>
-                        <button
-                          title="Elimina o archivia (mantieni storico)"
-                          onClick={() => { setDeleting(m); setDeleteKeepHistory("archive"); }}
-                          onAuxClick={() => {
-                            if (confirm("Eliminare definitivamente il farmaco? (Cancellerà anche lo storico di assunzione)")) {
-                              hardDeleteMed(m);
-                            }
-                          }}
-                          style={{ ...styles.btnSmall, background: "#b30021" }}
-                        >
-                          🗑️ Elimina/Archivia
-                        </button>
+                        {lotsExpiry(m) && (
+                          <Badge tone={lotsExpiry(m) === "expired" ? "red" : "amber"}>
+                            {lotsExpiry(m) === "expired" ? "Lotti scaduti" : "Lotti in scadenza"}
+                          </Badge>
+                        )}
+                        {can.manageMeds && (
+                          <button
+                            title="Elimina o archivia (mantieni storico)"
+                            onClick={() => { setDeleting(m); setDeleteKeepHistory("archive"); }}
+                            style={{ ...styles.btnSmall, background: "#b30021" }}
+                          >
+                            🗑️ Elimina/Archivia
+                          </button>
+                        )}
                       </div>
                     </div>
                     <div style={{ fontSize: 12, color: "#666", marginTop: 4 }}>
-                      Fabbisogno settimanale: {weeklyNeed(m)} pill. · Totale: {totalStock(m)} (Box {stocks[m.id]?.box || 0} + Dispensa {stocks[m.id]?.dispensa || 0})
+                      {scheduleLabel(m.schedule)} · Fabbisogno prossimi 7 giorni: {qtyLabel(weeklyNeed(m), m)} · Totale: {stockLabel(totalStock(m), m)} (Box {qtyLabel(stocks[m.id]?.box || 0, m)} + Dispensa {qtyLabel(stocks[m.id]?.dispensa || 0, m)})
                     </div>
+                    {forecasts[m.id] && (
+                      <div style={{ fontSize: 12, color: "#444", marginTop: 2 }}>
+                        Box: {coverageText(forecasts[m.id].boxDays, forecasts[m.id].boxRunOut)}
+                        {" · "}Box+Dispensa: {coverageText(forecasts[m.id].totalDays, forecasts[m.id].totalRunOut)}
+                        {forecasts[m.id].buyBy && <> · <b>Compra entro {forecasts[m.id].buyBy}</b></>}
+                        {forecasts[m.id].rate < 1 && (
+                          <span style={{ color: "#888" }}> (consumo reale {Math.round(forecasts[m.id].rate * 100)}%)</span>
+                        )}
+                      </div>
+                    )}
+
+                    {m.pack_size ? (
+                      <div style={{ fontSize: 12, color: "#555", marginTop: 6 }}>
+                        Quantità inserite in{" "}
+                        <select value={qtyModes[m.id] || "units"} style={{ ...styles.select, padding: "2px 6px", fontSize: 12 }}
+                          onChange={(e) => setQtyModes(q => ({ ...q, [m.id]: e.target.value as QtyMode }))}>
+                          <option value="units">{UNIT_LABELS[m.unit].many}</option>
+                          <option value="packs">confezioni da {m.pack_size}</option>
+                        </select>
+                      </div>
+                    ) : null}
 
                     <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12, marginTop: 10 }}>
                       {/* BOX */}
                       <div style={styles.subcard}>
                         <div style={styles.label}>Box</div>
-                        <div style={styles.big}>{stocks[m.id]?.box || 0}</div>
+                        <div style={styles.big}>{qtyLabel(stocks[m.id]?.box || 0, m)}</div>
 
                         {/* Movimento incrementale */}
                         <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
-                          <input id={`box-move-${m.id}`} type="number" min={1} placeholder="qty" style={styles.inputSmall} />
+                          <input id={`box-move-${m.id}`} type="number" min={0} step="any" placeholder="qty" style={styles.inputSmall} />
                           <button
                             style={styles.btnSmall}
                             onClick={() => {
                               const el = document.getElementById(`box-move-${m.id}`) as HTMLInputElement | null;
-                              const qty = Number(el?.value || 0); moveFromPantry(m, qty); if (el) el.value = "";
+                              const qty = readQty(el, m); moveFromPantry(m, qty); if (el) el.value = "";
                             }}
                           >
                             ⇧ dalla Dispensa
                           </button>
                         </div>
 
-                        {/* Impostazione assoluta */}
-                        <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
-                          <input id={`box-set-${m.id}`} type="number" min={0} placeholder={`imposta (${stocks[m.id]?.box ?? 0})`} style={styles.inputSmall} />
-                          <button
-                            style={{ ...styles.btnSmall, background: "#555" }}
-                            onClick={() => {
-                              const el = document.getElementById(`box-set-${m.id}`) as HTMLInputElement | null;
-                              const qty = Number(el?.value ?? "");
-                              if (!Number.isNaN(qty) && qty >= 0) setBoxQty(m, qty);
-                              if (el) el.value = "";
-                            }}
-                          >
-                            Salva
-                          </button>
-                        </div>
+                        {/* Impostazione assoluta (solo admin) */}
+                        {can.correctStock && (
+                          <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                            <input id={`box-set-${m.id}`} type="number" min={0} step="any" placeholder={`imposta (${stocks[m.id]?.box ?? 0})`} style={styles.inputSmall} />
+                            <button
+                              style={{ ...styles.btnSmall, background: "#555" }}
+                              onClick={() => {
+                                const el = document.getElementById(`box-set-${m.id}`) as HTMLInputElement | null;
+                                const qty = el?.value ? readQty(el, m) : NaN;
+                                if (!Number.isNaN(qty) && qty >= 0) setBoxQty(m, qty);
+                                if (el) el.value = "";
+                              }}
+                            >
+                              Salva
+                            </button>
+                          </div>
+                        )}
                       </div>
 
                       {/* DISPENSA */}
                       <div style={styles.subcard}>
                         <div style={styles.label}>Dispensa</div>
-                        <div style={styles.big}>{stocks[m.id]?.dispensa || 0}</div>
+                        <div style={styles.big}>{qtyLabel(stocks[m.id]?.dispensa || 0, m)}</div>
 
                         {/* Movimento incrementale */}
                         <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
-                          <input id={`pan-add-${m.id}`} type="number" min={1} placeholder="qty" style={styles.inputSmall} />
+                          <input id={`pan-add-${m.id}`} type="number" min={0} step="any" placeholder="qty" style={styles.inputSmall} />
                           <button
                             style={styles.btnSmall}
                             onClick={() => {
                               const el = document.getElementById(`pan-add-${m.id}`) as HTMLInputElement | null;
-                              const qty = Number(el?.value || 0); addPantry(m, qty); if (el) el.value = "";
+                              const qty = readQty(el, m);
+                              if (qty > 0) setPurchasing({ med: m, qty, lot: "", expiresOn: "" });
+                              if (el) el.value = "";
                             }}
                           >
                             + da Farmacia
                           </button>
                         </div>
 
-                        {/* Impostazione assoluta */}
-                        <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
-                          <input id={`pan-set-${m.id}`} type="number" min={0} placeholder={`imposta (${stocks[m.id]?.dispensa ?? 0})`} style={styles.inputSmall} />
-                          <button
-                            style={{ ...styles.btnSmall, background: "#555" }}
-                            onClick={() => {
-                              const el = document.getElementById(`pan-set-${m.id}`) as HTMLInputElement | null;
-                              const qty = Number(el?.value ?? "");
-                              if (!Number.isNaN(qty) && qty >= 0) setPantryQty(m, qty);
-                              if (el) el.value = "";
-                            }}
-                          >
-                            Salva
-                          </button>
-                        </div>
+                        {/* Impostazione assoluta (solo admin) */}
+                        {can.correctStock && (
+                          <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                            <input id={`pan-set-${m.id}`} type="number" min={0} step="any" placeholder={`imposta (${stocks[m.id]?.dispensa ?? 0})`} style={styles.inputSmall} />
+                            <button
+                              style={{ ...styles.btnSmall, background: "#555" }}
+                              onClick={() => {
+                                const el = document.getElementById(`pan-set-${m.id}`) as HTMLInputElement | null;
+                                const qty = el?.value ? readQty(el, m) : NaN;
+                                if (!Number.isNaN(qty) && qty >= 0) setPantryQty(m, qty);
+                                if (el) el.value = "";
+                              }}
+                            >
+                              Salva
+                            </button>
+                          </div>
+                        )}
+
+                        {/* Lotti, dal primo che scade (è quello che esce al prossimo travaso) */}
+                        {(lots[m.id] || []).length > 0 && (
+                          <div style={{ marginTop: 8, fontSize: 12 }}>
+                            {lots[m.id].map(l => {
+                              const expiry = expiryStatus(l);
+                              return (
+                                <div key={l.lot_id} style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 4, flexWrap: "wrap" }}>
+                                  <span>
+                                    {[l.lot && `Lotto ${l.lot}`, l.expires_on && `scad. ${l.expires_on}`, qtyLabel(l.qty, m)].filter(Boolean).join(" · ")}
+                                  </span>
+                                  {expiry && <Badge tone={expiry === "expired" ? "red" : "amber"}>{expiry === "expired" ? "Scaduto" : "In scadenza"}</Badge>}
+                                  {expiry && (
+                                    <button style={{ ...styles.btnSmall, background: "#b30021", padding: "3px 6px" }} onClick={() => disposeLot(m, l)}>
+                                      Smaltisci
+                                    </button>
+                                  )}
+                                </div>
+                              );
+                            })}
+                            {(() => {
+                              const loose = (stocks[m.id]?.dispensa || 0) - lots[m.id].reduce((sum, l) => sum + l.qty, 0);
+                              return loose > 0 && <div style={{ marginTop: 4, color: "#666" }}>Senza lotto · {qtyLabel(loose, m)}</div>;
+                            })()}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -644,6 +1377,26 @@ async function markAllToday(checked: boolean) {
         </Section>
       )}
 
+      {/* -------- Lista farmacia -------- */}
+      {view === "shopping" && (
+        meds.length === 0 ? <EmptyHint onAdd={can.manageMeds ? () => setAdding(true) : undefined} /> : (
+          <ShoppingList
+            meds={meds}
+            stocks={stocks}
+            rates={usageRates}
+            onPackSize={can.manageMeds ? savePackSize : undefined}
+            onPurchase={registerPurchase}
+          />
+        )
+      )}
+
+      {/* -------- Storico -------- */}
+      {view === "history" && profile.family_id && patient && <History familyId={profile.family_id} patientId={patient.id} slots={slots} />}
+
+      {view === "archive" && profile.family_id && patient && (
+        <Archive familyId={profile.family_id} patientId={patient.id} canManage={can.manageMeds} onChanged={loadMeds} onMovements={openHistory} />
+      )}
+
       <div style={{ marginTop: 18 }}>
         <button onClick={onLogout} style={{ ...styles.btn, background: "#e74c3c" }}>Esci</button>
       </div>
@@ -658,27 +1411,48 @@ async function markAllToday(checked: boolean) {
           <Field label="Dosaggio (es. 5mg)">
             <input value={editing.dosage || ""} onChange={(e) => setEditing({ ...editing, dosage: e.target.value || null })} style={styles.inputFull} />
           </Field>
-          <Field label="Pillole per dose">
-            <input type="number" min={1} value={editing.per_dose}
-              onChange={(e) => setEditing({ ...editing, per_dose: Number(e.target.value || 1) })} style={styles.inputFull} />
-          </Field>
-          <div style={{ margin: "8px 0 4px" }}>Fasce orarie</div>
-          {TIMES.map((t) => (
-            <label key={t} style={{ display: "inline-flex", gap: 6, marginRight: 12 }}>
-              <input
-                type="checkbox"
-                checked={editing.times.includes(t)}
-                onChange={(e) => {
-                  const on = e.target.checked;
-                  setEditing({
-                    ...editing,
-                    times: on ? [...editing.times, t] : editing.times.filter((x) => x !== t)
-                  });
-                }}
-              />
-              {t}
-            </label>
-          ))}
+          <UnitFields value={editing} onChange={(patch) => setEditing({ ...editing, ...patch })} />
+          <DosesEditor doses={editing.doses} unit={editing.unit} slots={slots} onChange={(doses) => setEditing({ ...editing, doses })} />
+          <ScheduleEditor schedule={editing.schedule} unit={editing.unit} onChange={(schedule) => setEditing({ ...editing, schedule })} />
+          <div style={{ borderTop: "1px solid #eee", marginTop: 12, paddingTop: 8 }}>
+            <div style={{ fontSize: 13, color: "#555", marginBottom: 6 }}>Se cambiano dosaggio, orari o ricorrenza:</div>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              <Field label="In vigore dal">
+                <input type="date" value={editing.effective_from} style={styles.inputSmall}
+                  onChange={(e) => setEditing({ ...editing, effective_from: e.target.value || todayISO() })} />
+              </Field>
+              <Field label="Prescritto da">
+                <input value={editing.prescriber || ""} placeholder="es. Dr. Rossi (cardiologo)" style={{ ...styles.inputSmall, width: 180 }}
+                  onChange={(e) => setEditing({ ...editing, prescriber: e.target.value || null })} />
+              </Field>
+            </div>
+            <Field label="Nota">
+              <input value={editing.note} placeholder="es. ridotto dopo visita del 12/10" style={styles.inputFull}
+                onChange={(e) => setEditing({ ...editing, note: e.target.value })} />
+            </Field>
+          </div>
+          {(() => {
+            const m = meds.find(x => x.id === editing.id);
+            const log = m ? versionLog(m) : [];
+            return log.length > 0 && (
+              <details style={{ marginTop: 8 }}>
+                <summary style={{ cursor: "pointer", fontSize: 13 }}>Storico prescrizioni ({log.length})</summary>
+                <div style={{ maxHeight: 200, overflowY: "auto", fontSize: 12, marginTop: 6 }}>
+                  {log.map(({ version: v, lines }) => (
+                    <div key={v.id} style={{ borderBottom: "1px solid #eee", padding: "4px 0" }}>
+                      <div style={{ color: "#888" }}>
+                        dal <b>{v.effective_from}</b>
+                        {v.prescriber ? ` · ${v.prescriber}` : ""}
+                        {v.author?.email ? ` · inserita da ${v.author.email}` : ""}
+                      </div>
+                      {lines.map((l, i) => <div key={i}>{l}</div>)}
+                      {v.note && <div style={{ color: "#555", fontStyle: "italic" }}>{v.note}</div>}
+                    </div>
+                  ))}
+                </div>
+              </details>
+            );
+          })()}
           <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
             <button style={{ ...styles.btn, flex: 1, background: "#2ecc71" }} onClick={saveMed}>Salva</button>
             <button style={{ ...styles.btn, flex: 1, background: "#e74c3c" }} onClick={() => setEditing(null)}>Annulla</button>
@@ -686,6 +1460,132 @@ async function markAllToday(checked: boolean) {
         </Modal>
       )}
 
+      {/* ---- Popup Relazione medico ---- */}
+      {reporting && profile.family_id && patient && (
+        <DoctorReport
+          familyId={profile.family_id} patientId={patient.id} patient={patient.name} author={profile.email}
+          meds={meds} slots={slots} stocks={stocks} forecasts={forecasts}
+          onClose={() => setReporting(false)}
+        />
+      )}
+
+      {/* ---- Popup Famiglia ---- */}
+      {familyOpen && (
+        <FamilySettings
+          profile={profile} familyName={familyName} calendar={calendar}
+          onRenamed={setFamilyName}
+          onCalendarChanged={applyCalendar}
+          onSelfChanged={() => { setFamilyOpen(false); onProfileChanged(); }}
+          onClose={() => setFamilyOpen(false)}
+        />
+      )}
+
+      {/* ---- Popup Scansiona confezione ---- */}
+      {scanning && <Scanner onPack={onScannedPack} onClose={() => setScanning(false)} />}
+
+      {/* ---- Popup Riempi portapillole ---- */}
+      {filling && (
+        <FillOrganizer
+          meds={meds} slots={slots} stocks={stocks} lots={lots} marks={intakes} patientName={patient?.name || ""}
+          onConfirm={fillBox} onClose={() => setFilling(false)}
+        />
+      )}
+
+      {/* ---- Popup Promemoria ---- */}
+      {remindersOpen && profile.family_id && (
+        <Reminders
+          familyId={profile.family_id} admin={can.manageFamily}
+          doses={plannedDosesForToday(familyMeds)} patients={patients}
+          onClose={() => setRemindersOpen(false)}
+        />
+      )}
+
+      {/* ---- Popup Importa / esporta ---- */}
+      {transferring && profile.family_id && patient && (
+        <ImportExport familyId={profile.family_id} patient={patient} meds={meds} canImport={can.manageMeds} onImported={loadMeds} onClose={() => setTransferring(false)} />
+      )}
+
+      {/* ---- Popup Fasce orarie ---- */}
+      {editingSlots && <SlotsEditor slots={slots} onSave={saveSlots} onClose={() => setEditingSlots(false)} />}
+
+      {/* ---- Popup Storico dose ---- */}
+      {doseLog && (
+        <IntakeHistory
+          med={doseLog.med} day={doseLog.day} time={doseLog.time}
+          onNoted={(note) => {
+            const k = `${doseLog.day}|${doseLog.time}|${doseLog.med.id}`;
+            setIntakes((all) => (all[k] ? { ...all, [k]: { ...all[k], note } } : all));
+          }}
+          onClose={() => setDoseLog(null)}
+        />
+      )}
+
+      {/* ---- Popup Acquisto da farmacia ---- */}
+      {purchasing && (
+        <Modal onClose={() => setPurchasing(null)}>
+          <h3 style={{ marginTop: 0 }}>Acquisto – {purchasing.med.name}</h3>
+          <p style={{ marginTop: 0, color: "#555", fontSize: 14 }}>
+            Con la scadenza, i travasi nel Box useranno prima le confezioni che scadono prima.
+          </p>
+          <Field label={`Quantità in Dispensa (${UNIT_LABELS[purchasing.med.unit].many})`}>
+            <input type="number" min={0} step="any" value={purchasing.qty} style={styles.inputFull}
+              onChange={(e) => setPurchasing({ ...purchasing, qty: Math.max(0, Number(e.target.value || 0)) })} />
+          </Field>
+          <Field label="Lotto (facoltativo)">
+            <input value={purchasing.lot} style={styles.inputFull} onChange={(e) => setPurchasing({ ...purchasing, lot: e.target.value })} />
+          </Field>
+          <Field label="Scadenza">
+            <input type="date" value={purchasing.expiresOn} style={styles.inputFull}
+              onChange={(e) => setPurchasing({ ...purchasing, expiresOn: e.target.value })} />
+          </Field>
+          <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+            <button
+              style={{ ...styles.btn, flex: 1 }}
+              onClick={async () => {
+                const p = purchasing;
+                setPurchasing(null);
+                await addPantry(p.med, p.qty, p.lot, p.expiresOn);
+              }}
+            >
+              Registra acquisto
+            </button>
+            <button style={{ ...styles.btn, flex: 1, background: "#666" }} onClick={() => setPurchasing(null)}>Annulla</button>
+          </div>
+        </Modal>
+      )}
+
+      {/* ---- Popup Storico movimenti ---- */}
+      {history && (
+        <Modal onClose={() => setHistory(null)}>
+          <h3 style={{ marginTop: 0 }}>Movimenti – {history.med.name}</h3>
+          {history.rows.length === 0 ? (
+            <p style={{ color: "#666" }}>Nessun movimento registrato.</p>
+          ) : (
+            <div style={{ maxHeight: 360, overflowY: "auto" }}>
+              <table style={{ ...styles.table, fontSize: 12 }}>
+                <thead>
+                  <tr><th>Quando</th><th>Tipo</th><th>Luogo</th><th>Qty</th><th>Chi / motivo</th></tr>
+                </thead>
+                <tbody>
+                  {history.rows.map(r => (
+                    <tr key={r.id}>
+                      <td>{formatInstant(r.created_at)}</td>
+                      <td>{MOVEMENT_LABELS[r.kind]}</td>
+                      <td>{r.location}</td>
+                      <td style={{ color: r.delta < 0 ? "#b30021" : "#0a7b35", fontWeight: 600 }}>{r.delta > 0 ? `+${r.delta}` : r.delta}</td>
+                      <td>
+                        {r.author?.email || "—"}
+                        {r.reason ? <div style={{ color: "#666" }}>{r.reason}</div> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Modal>
+      )}
+
       {/* ---- Popup Elimina/Archivia ---- */}
       {deleting && (
         <Modal onClose={() => setDeleting(null)}>
@@ -701,17 +1601,17 @@ async function markAllToday(checked: boolean) {
               checked={deleteKeepHistory === "archive"}
               onChange={() => setDeleteKeepHistory("archive")}
             />{" "}
-            <b>Archivia</b> – il farmaco non sarà più visibile, <u>lo storico di assunzione viene mantenuto</u>. Le scorte vengono rimosse.
+            <b>Archivia</b> – esce dal planner, <u>lo storico di assunzione viene mantenuto</u>. Le scorte vengono azzerate (resta traccia nei movimenti); si può ripristinare da "Archiviati".
           </label>
 
           <label style={{ display: "block", margin: "6px 0" }}>
             <input
               type="radio"
               name="delopt"
-              checked={deleteKeepHistory === "hard"}
-              onChange={() => setDeleteKeepHistory("hard")}
+              checked={deleteKeepHistory === "trash"}
+              onChange={() => setDeleteKeepHistory("trash")}
             />{" "}
-            <b>Elimina definitivamente</b> – cancella <u>scorte + storico assunzione</u> e il farmaco.
+            <b>Elimina</b> – va nel cestino: recuperabile per {TRASH_DAYS} giorni, poi farmaco, scorte e <u>storico assunzione</u> vengono cancellati.
           </label>
 
           <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
@@ -720,8 +1620,7 @@ async function markAllToday(checked: boolean) {
               onClick={async () => {
                 const m = deleting!;
                 setDeleting(null);
-                if (deleteKeepHistory === "archive") await archiveMed(m);
-                else await hardDeleteMed(m);
+                await removeMed(m, deleteKeepHistory);
               }}
             >
               Conferma
@@ -737,47 +1636,43 @@ async function markAllToday(checked: boolean) {
       {adding && (
         <Modal onClose={() => setAdding(false)}>
           <h3 style={{ marginTop: 0 }}>Aggiungi nuovo farmaco</h3>
+          {newMed.scanned && (
+            <p style={{ marginTop: 0, fontSize: 13, color: "#0a7b35" }}>
+              📷 {packLabel(newMed.scanned)} – la prossima scansione di questa confezione registrerà un acquisto.
+            </p>
+          )}
           <Field label="Nome">
             <input value={newMed.name} onChange={(e) => setNewMed({ ...newMed, name: e.target.value })} style={styles.inputFull} />
           </Field>
           <Field label="Dosaggio (es. 5mg)">
             <input value={newMed.dosage} onChange={(e) => setNewMed({ ...newMed, dosage: e.target.value })} style={styles.inputFull} />
           </Field>
-          <Field label="Pillole per dose">
-            <input type="number" min={1} value={newMed.per_dose}
-              onChange={(e) => setNewMed({ ...newMed, per_dose: Number(e.target.value || 1) })} style={styles.inputFull} />
-          </Field>
           <Field label="Soglia minima (alert)">
             <input type="number" min={0} value={newMed.threshold}
               onChange={(e) => setNewMed({ ...newMed, threshold: Number(e.target.value || 0) })} style={styles.inputFull} />
           </Field>
-          <div style={{ margin: "8px 0 4px" }}>Fasce orarie</div>
-          {TIMES.map((t) => (
-            <label key={t} style={{ display: "inline-flex", gap: 6, marginRight: 12 }}>
-              <input
-                type="checkbox"
-                checked={newMed.times.includes(t)}
-                onChange={(e) => {
-                  const on = e.target.checked;
-                  setNewMed({
-                    ...newMed,
-                    times: on ? [...newMed.times, t] : newMed.times.filter((x) => x !== t)
-                  });
-                }}
-              />
-              {t}
-            </label>
-          ))}
-
-          <div style={{ marginTop: 12, fontWeight: 600 }}>Quantità iniziali</div>
+          <UnitFields value={newMed} onChange={(patch) => setNewMed({ ...newMed, ...patch })} />
+          <DosesEditor doses={newMed.doses} unit={newMed.unit} slots={slots} onChange={(doses) => setNewMed({ ...newMed, doses })} />
+          <ScheduleEditor schedule={newMed.schedule} unit={newMed.unit} onChange={(schedule) => setNewMed({ ...newMed, schedule })} />
+
+          <div style={{ marginTop: 12, fontWeight: 600 }}>
+            Quantità iniziali{" "}
+            {newMed.pack_size ? (
+              <select value={newMed.initMode} style={{ ...styles.select, fontWeight: 400 }}
+                onChange={(e) => setNewMed({ ...newMed, initMode: e.target.value as QtyMode })}>
+                <option value="units">in {UNIT_LABELS[newMed.unit].many}</option>
+                <option value="packs">in confezioni da {newMed.pack_size}</option>
+              </select>
+            ) : null}
+          </div>
           <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
-            <Field label="Box (pillole)">
-              <input type="number" min={0} value={newMed.initBox}
+            <Field label="Box">
+              <input type="number" min={0} step="any" value={newMed.initBox}
                 onChange={(e) => setNewMed({ ...newMed, initBox: Number(e.target.value || 0) })}
                 style={styles.inputFull} />
             </Field>
-            <Field label="Dispensa (pillole)">
-              <input type="number" min={0} value={newMed.initDisp}
+            <Field label="Dispensa">
+              <input type="number" min={0} step="any" value={newMed.initDisp}
                 onChange={(e) => setNewMed({ ...newMed, initDisp: Number(e.target.value || 0) })}
                 style={styles.inputFull} />
             </Field>
@@ -793,99 +1688,207 @@ async function markAllToday(checked: boolean) {
   );
 }
 
-// ---------- UI helpers ----------
-function Wrap({ children }: { children: React.ReactNode }) {
-  return <div style={{ padding: "28px", fontFamily: "system-ui,-apple-system,Segoe UI,Roboto,sans-serif" }}>{children}</div>;
-}
-function Title() {
+/** Forma del farmaco e pezzi per confezione */
+function UnitFields({ value, onChange }: {
+  value: { unit: MedUnit; pack_size: number | null };
+  onChange: (patch: { unit?: MedUnit; pack_size?: number | null }) => void;
+}) {
   return (
-    <h1 style={{ display: "flex", alignItems: "center", gap: 10, fontSize: 36, marginTop: 0 }}>
-      <span role="img" aria-label="pill">💊</span> <span>Farmaci Giannina</span>
-    </h1>
-  );
-}
-function Section({ title, children }: { title: string; children: React.ReactNode }) {
-  return (
-    <div style={{ marginTop: 18 }}>
-      <h2 style={{ fontSize: 18, margin: "0 0 8px 0" }}>{title}</h2>
-      {children}
+    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+      <Field label="Forma">
+        <select value={value.unit} onChange={(e) => onChange({ unit: e.target.value as MedUnit })} style={{ ...styles.select, width: "100%" }}>
+          {UNITS.map(u => <option key={u} value={u}>{UNIT_LABELS[u].many}</option>)}
+        </select>
+      </Field>
+      <Field label={`${UNIT_LABELS[value.unit].many} per confezione`}>
+        <input type="number" min={1} value={value.pack_size ?? ""} placeholder="es. 28"
+          onChange={(e) => onChange({ pack_size: e.target.value ? Math.max(1, Number(e.target.value)) : null })}
+          style={styles.inputFull} />
+      </Field>
     </div>
   );
 }
-function Badge({ children, tone }: { children: React.ReactNode; tone: "green" | "amber" | "red" }) {
-  const color = tone === "green" ? "#0a7b35" : tone === "amber" ? "#8a5b00" : "#8a001a";
-  const bg = tone === "green" ? "#e8f6ee" : tone === "amber" ? "#fff5da" : "#ffe3ea";
-  return <span style={{ fontSize: 12, padding: "3px 8px", borderRadius: 999, background: bg, color }}>{children}</span>;
-}
-function Small({ children, onClick }: { children: React.ReactNode; onClick?: () => void }) {
-  return <button onClick={onClick} style={{ fontSize: 12, color: "#666", background: "transparent", border: "none", cursor: "pointer" }}>{children}</button>;
-}
-function Field({ label, children }: { label: string; children: React.ReactNode }) {
+/** Elenco orari esatti (es. h 8, h 21) con la quantità di ciascuno */
+function DosesEditor({ doses, unit, slots, onChange }: {
+  doses: DoseTime[]; unit: MedUnit; slots: SlotDef[]; onChange: (d: DoseTime[]) => void;
+}) {
+  const [time, setTime] = useState("08:00");
+  const [qty, setQty] = useState(1);
+  const add = () => {
+    const t = normalizeTime(time);
+    if (!t || qty <= 0) { alert("Orario o quantità non validi."); return; }
+    if (doses.some(d => d.time === t)) { alert(`L'orario ${timeLabel(t)} c'è già: modifica la sua quantità.`); return; }
+    onChange(sortDoses([...doses, { time: t, qty }]));
+  };
   return (
-    <label style={{ display: "block", marginTop: 8 }}>
-      <div style={{ fontSize: 12, color: "#555", marginBottom: 4 }}>{label}</div>
-      {children}
-    </label>
+    <div style={{ marginTop: 8 }}>
+      <div style={{ fontSize: 12, color: "#555", marginBottom: 4 }}>Orari di assunzione</div>
+      {sortDoses(doses).map((d, i) => (
+        <div key={`${d.time}-${i}`} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4, padding: "4px 8px", borderRadius: 8, background: slotFor(d.time, slots).color }}>
+          <b style={{ width: 60 }}>{timeLabel(d.time)}</b>
+          <span style={{ fontSize: 12, color: "#666", flex: 1 }}>{slotFor(d.time, slots).name}</span>
+          <input type="number" min={0.25} step={0.25} value={d.qty} style={{ ...styles.inputSmall, width: 70 }}
+            onChange={(e) => onChange(sortDoses(doses).map((x, j) => (j === i ? { ...x, qty: Number(e.target.value || 1) } : x)))} />
+          <span style={{ fontSize: 12 }}>{UNIT_LABELS[unit].short}</span>
+          <button style={{ ...styles.btnSmall, background: "#e74c3c" }}
+            onClick={() => onChange(sortDoses(doses).filter((_, j) => j !== i))}>×</button>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+        <input type="time" value={time} onChange={(e) => setTime(e.target.value)} style={styles.inputSmall} />
+        <input type="number" min={0.25} step={0.25} value={qty} onChange={(e) => setQty(Number(e.target.value || 1))} style={{ ...styles.inputSmall, width: 70 }} />
+        <button style={styles.btnSmall} onClick={add}>+ Orario</button>
+      </div>
+    </div>
   );
 }
-function Modal({ children, onClose }: { children: React.ReactNode; onClose: () => void }) {
+/** Ricorrenza: tutti i giorni / ogni N giorni / giorni della settimana, periodo e scalaggio */
+function ScheduleEditor({ schedule, unit, onChange }: { schedule: Schedule; unit: MedUnit; onChange: (s: Schedule) => void }) {
+  const r = schedule.recurrence;
+  const taper = schedule.taper || [];
+  const [stepFrom, setStepFrom] = useState(todayISO());
+  const [stepQty, setStepQty] = useState(1);
   return (
-    <div style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,.35)", display: "grid", placeItems: "center", zIndex: 1000 }}>
-      <div style={{ background: "#fff", padding: 16, borderRadius: 12, width: 420 }}>
-        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
-          <div />
-          <button onClick={onClose} style={{ background: "transparent", border: "none", fontSize: 20, lineHeight: 1, cursor: "pointer" }}>×</button>
+    <div style={{ marginTop: 8 }}>
+      <div style={{ fontSize: 12, color: "#555", marginBottom: 4 }}>Frequenza</div>
+      <select
+        value={r.kind}
+        style={styles.select}
+        onChange={(e) => {
+          const kind = e.target.value as Schedule["recurrence"]["kind"];
+          const recurrence: Schedule["recurrence"] =
+            kind === "every_n_days" ? { kind, every: 2 } : kind === "weekdays" ? { kind, days: [1] } : { kind: "daily" };
+          // "ogni N giorni" si conta dalla data di inizio
+          onChange({ ...schedule, recurrence, start: kind === "every_n_days" ? schedule.start || todayISO() : schedule.start });
+        }}
+      >
+        <option value="daily">Tutti i giorni</option>
+        <option value="every_n_days">Ogni N giorni</option>
+        <option value="weekdays">Giorni della settimana</option>
+      </select>
+      {r.kind === "every_n_days" && (
+        <span style={{ marginLeft: 8, fontSize: 14 }}>
+          ogni{" "}
+          <input type="number" min={2} value={r.every} style={{ ...styles.inputSmall, width: 60 }}
+            onChange={(e) => onChange({ ...schedule, recurrence: { kind: "every_n_days", every: Math.max(1, Number(e.target.value || 1)) } })} />
+          {" "}giorni
+        </span>
+      )}
+      {r.kind === "weekdays" && (
+        <div style={{ marginTop: 6 }}>
+          {WEEKDAY_LABELS.map((label, i) => (
+            <label key={label} style={{ display: "inline-flex", gap: 4, marginRight: 8, fontSize: 13 }}>
+              <input
+                type="checkbox"
+                checked={r.days.includes(i + 1)}
+                onChange={(e) => {
+                  const days = e.target.checked ? [...r.days, i + 1] : r.days.filter((d) => d !== i + 1);
+                  onChange({ ...schedule, recurrence: { kind: "weekdays", days: days.sort() } });
+                }}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        <Field label={r.kind === "every_n_days" ? "Dal (si conta da qui)" : "Dal (facoltativo)"}>
+          <input type="date" value={schedule.start || ""} style={styles.inputFull} required={r.kind === "every_n_days"}
+            onChange={(e) => onChange({ ...schedule, start: e.target.value || (r.kind === "every_n_days" ? schedule.start : null) })} />
+        </Field>
+        <Field label="Al (fine ciclo, facoltativo)">
+          <input type="date" value={schedule.end || ""} style={styles.inputFull}
+            onChange={(e) => onChange({ ...schedule, end: e.target.value || null })} />
+        </Field>
+      </div>
+      <div style={{ fontSize: 12, color: "#555", margin: "8px 0 4px" }}>A scalare (dose per assunzione da una data)</div>
+      {[...taper].sort((a, b) => a.from.localeCompare(b.from)).map((t) => (
+        <div key={t.from} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13, marginBottom: 4 }}>
+          <span style={{ flex: 1 }}>dal {t.from}: <b>{qtyLabel(t.qty, { unit })}</b></span>
+          <button style={{ ...styles.btnSmall, background: "#e74c3c" }}
+            onClick={() => onChange({ ...schedule, taper: taper.filter((x) => x.from !== t.from) })}>×</button>
         </div>
-        {children}
+      ))}
+      <div style={{ display: "flex", gap: 6 }}>
+        <input type="date" value={stepFrom} onChange={(e) => setStepFrom(e.target.value)} style={styles.inputSmall} />
+        <input type="number" min={0} step={0.5} value={stepQty} onChange={(e) => setStepQty(Number(e.target.value || 0))} style={{ ...styles.inputSmall, width: 70 }} />
+        <button
+          style={styles.btnSmall}
+          onClick={() => {
+            if (!stepFrom || stepQty < 0) return;
+            onChange({ ...schedule, taper: [...taper.filter((x) => x.from !== stepFrom), { from: stepFrom, qty: stepQty }] });
+          }}
+        >
+          + Step
+        </button>
       </div>
     </div>
   );
 }
-function EmptyHint({ onAdd }: { onAdd: () => void }) {
+/** Fasce orarie della famiglia: nome, inizio e colore */
+function SlotsEditor({ slots, onSave, onClose }: { slots: SlotDef[]; onSave: (s: SlotDef[]) => void; onClose: () => void }) {
+  const [draft, setDraft] = useState<SlotDef[]>(slots);
+  const update = (i: number, patch: Partial<SlotDef>) => setDraft(draft.map((s, j) => (j === i ? { ...s, ...patch } : s)));
   return (
-    <div style={{
-      border: "1px dashed #ccc",
-      borderRadius: 10,
-      padding: 14,
-      background: "#fcfcfc",
-      color: "#444",
-      display: "flex",
-      alignItems: "center",
-      justifyContent: "space-between",
-      gap: 12
-    }}>
-      <div>
-        <div style={{ fontWeight: 600, marginBottom: 4 }}>Nessun farmaco configurato</div>
-        <div style={{ fontSize: 13, color: "#666" }}>
-          Aggiungi almeno un farmaco per iniziare a usare planner e scorte.
+    <Modal onClose={onClose}>
+      <h3 style={{ marginTop: 0 }}>Fasce orarie</h3>
+      <p style={{ marginTop: 0, fontSize: 12, color: "#666" }}>
+        Ogni dose finisce nella fascia che inizia per ultima prima del suo orario.
+      </p>
+      {draft.map((s, i) => (
+        <div key={i} style={{ display: "flex", gap: 6, marginBottom: 6 }}>
+          <input value={s.name} onChange={(e) => update(i, { name: e.target.value })} style={{ ...styles.inputSmall, flex: 1 }} />
+          <input type="time" value={s.start} onChange={(e) => update(i, { start: e.target.value })} style={styles.inputSmall} />
+          <input type="color" value={s.color} onChange={(e) => update(i, { color: e.target.value })} />
+          <button style={{ ...styles.btnSmall, background: "#e74c3c" }} disabled={draft.length <= 1}
+            onClick={() => setDraft(draft.filter((_, j) => j !== i))}>×</button>
         </div>
+      ))}
+      <button style={styles.btnSmall} onClick={() => setDraft([...draft, { name: "Notte", start: "23:00", color: "#EEEEEE" }])}>+ Fascia</button>
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        <button style={{ ...styles.btn, flex: 1, background: "#2ecc71" }}
+          onClick={() => {
+            if (draft.some(s => !s.name.trim()) || new Set(draft.map(s => s.name)).size !== draft.length) {
+              alert("Ogni fascia deve avere un nome diverso."); return;
+            }
+            onSave(sortSlots(draft));
+          }}>Salva</button>
+        <button style={{ ...styles.btn, flex: 1, background: "#e74c3c" }} onClick={onClose}>Annulla</button>
       </div>
-      <button
-        onClick={onAdd}
-        style={{ padding: "8px 12px", background: "#0d6efd", color: "#fff", border: "none", borderRadius: 8, cursor: "pointer", whiteSpace: "nowrap" }}
-      >
-        + Aggiungi nuovo farmaco
-      </button>
-    </div>
+    </Modal>
+  );
+}
+/** Iniziali e ora di chi ha segnato la dose; tooltip al passaggio, storico al tocco */
+function IntakeBadge({ info, members, onOpen }: {
+  info: IntakeMark | undefined; members: Record<string, string>; onOpen: () => void;
+}) {
+  const email = info?.by ? members[info.by] : undefined;
+  const hm = info?.at ? timeOfInstant(info.at) : "";
+  const title = info
+    ? `${info.status === "skipped" ? `Saltata (${info.reason || "?"})` : "Data"} da ${email || "?"}${hm ? ` alle ${hm}` : ""}${info.note ? ` — ${info.note}` : ""}`
+    : "Storico e note della dose";
+  return (
+    <button onClick={onOpen} title={title}
+      style={{ marginLeft: 6, fontSize: 11, padding: "1px 6px", borderRadius: 999, border: "1px solid #ddd", background: "#fff", cursor: "pointer", color: "#555" }}>
+      {info ? `${initials(email)} ${hm}` : "…"}{info?.note ? " 📝" : ""}
+    </button>
   );
 }
-
-const styles = {
-  input: { padding: "8px", width: 280, marginRight: 8, border: "1px solid #ccc", borderRadius: 8 },
-  inputFull: { padding: "8px", width: "100%", border: "1px solid #ccc", borderRadius: 8 },
-  inputSmall: { padding: "6px", width: 110, border: "1px solid #ccc", borderRadius: 8 } as React.CSSProperties,
-  btn: { padding: "10px 14px", background: "#0d6efd", color: "#fff", border: "none", borderRadius: 8, cursor: "pointer" } as React.CSSProperties,
-  btnSmall: { padding: "6px 8px", background: "#0d6efd", color: "#fff", border: "none", borderRadius: 8, cursor: "pointer", fontSize: 12 } as React.CSSProperties,
-  nav: { padding: "4px 10px", borderRadius: 8, border: "1px solid #ddd", background: "#fff", cursor: "pointer" } as React.CSSProperties,
-  table: { width: "100%", borderCollapse: "collapse" } as React.CSSProperties,
-  card: { border: "2px solid #eee", borderRadius: 12, padding: 12, background: "#fff" } as React.CSSProperties,
-  subcard: { border: "1px solid #f0f0f0", borderRadius: 10, padding: 10, background: "#fafafa" } as React.CSSProperties,
-  label: { fontSize: 12, color: "#666" } as React.CSSProperties,
-  big: { fontSize: 22, fontWeight: 700 } as React.CSSProperties,
-  select: { padding: "6px 10px", borderRadius: 8, border: "1px solid #ccc" } as React.CSSProperties,
-};
 
 // utils
+/** Riga di intake_logs → stato nel planner (null se non registrata) */
+function toMark(r: Omit<IntakeRow, "family_id">): IntakeMark | null {
+  const status = r.status ?? (r.taken ? "taken" : null);
+  if (!status) return null;
+  return {
+    status, by: r.updated_by ?? null, at: r.taken_at || r.updated_at || null,
+    note: r.note ?? null, reason: r.skip_reason ?? null,
+  };
+}
+function coverageText(days: number | null, date: string | null) {
+  if (days === null || !date) return "oltre un anno";
+  return `${days} gg (fino al ${date})`;
+}
 function statusTone(s: string): "green" | "amber" | "red" {
   if (s === "OK") return "green";
   if (s.startsWith("Copertura")) return "amber";
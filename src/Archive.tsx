@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { loadArchived, purgeDay, purgeMed, restoreMed, trashMed, untrashMed, TRASH_DAYS, type ArchivedMed } from "./archive";
+import { dayOfInstant, formatInstant } from "./dates";
+import { versionLog } from "./adherence";
+import { scheduleLabel, timeLabel } from "./schedule";
+import { styles } from "./styles";
+import type { Med } from "./types";
+import { UNIT_LABELS, qtyLabel, stockLabel } from "./units";
+import { Field, Modal, Section } from "./ui";
+
+// ---------- Vista "Archiviati" ----------
+// Farmaci archiviati del paziente con terapia e storico, ripristino (con le
+// scorte da ricreare) e cestino: dopo TRASH_DAYS giorni il server li cancella.
+export function Archive({ familyId, patientId, canManage, onChanged, onMovements }: {
+  familyId: string; patientId: string; canManage: boolean;
+  /** un farmaco è tornato attivo: va ricaricato il planner */
+  onChanged: () => void;
+  onMovements: (m: Med) => void;
+}) {
+  const [meds, setMeds] = useState<ArchivedMed[] | null>(null);
+  const [restoring, setRestoring] = useState<null | { med: ArchivedMed; box: number; dispensa: number }>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reload = () => loadArchived(familyId).then(setMeds);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { reload(); }, [familyId]);
+
+  async function run(op: () => Promise<unknown>, failure: string, changed = false) {
+    setBusy(true);
+    const error = await op();
+    setBusy(false);
+    if (error) { alert(`${failure}: ${(error as { message?: string }).message || "errore"}`); return; }
+    await reload();
+    if (changed) onChanged();
+  }
+
+  const mine = (meds || []).filter(m => m.patient_id === patientId);
+  const archived = mine.filter(m => !m.deleted_at);
+  const trash = mine.filter(m => m.deleted_at);
+
+  const therapy = (m: Med) => [
+    scheduleLabel(m.schedule),
+    (m.doses || []).map(d => `${timeLabel(d.time)} ${qtyLabel(d.qty, m)}`).join(", "),
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <Section title="Farmaci archiviati">
+      {meds === null ? (
+        <p style={{ color: "#666" }}>Caricamento…</p>
+      ) : archived.length === 0 ? (
+        <p style={{ color: "#666" }}>Nessun farmaco archiviato.</p>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {archived.map(m => {
+            const log = versionLog(m);
+            return (
+              <div key={m.id} style={styles.card}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8, flexWrap: "wrap" }}>
+                  <div>
+                    <b>{m.name}</b> {m.dosage && <span style={{ color: "#666" }}>– {m.dosage}</span>}
+                    <div><span style={styles.label}>
+                      Dal {m.created_at ? dayOfInstant(m.created_at) : "?"} al {m.archived_at ? dayOfInstant(m.archived_at) : "?"}
+                      {" · "}{m.intakeCount} {m.intakeCount === 1 ? "dose registrata" : "dosi registrate"}
+                      {m.lastIntake && <> · ultima il {m.lastIntake}</>}
+                    </span></div>
+                    <div><span style={styles.label}>Terapia: {therapy(m) || "—"}</span></div>
+                  </div>
+                  <div style={{ display: "flex", gap: 6, alignItems: "flex-start" }}>
+                    <button style={styles.nav} onClick={() => onMovements(m)}>Movimenti</button>
+                    {canManage && (
+                      <>
+                        <button style={styles.btnSmall} disabled={busy}
+                          onClick={() => setRestoring({ med: m, box: Math.max(0, m.zeroed.box), dispensa: Math.max(0, m.zeroed.dispensa) })}>
+                          Ripristina
+                        </button>
+                        <button style={{ ...styles.btnSmall, background: "#b30021" }} disabled={busy}
+                          onClick={() => confirm(`Spostare “${m.name}” nel cestino? Verrà eliminato con tutto lo storico tra ${TRASH_DAYS} giorni.`)
+                            && run(() => trashMed(m), "Impossibile spostare nel cestino")}>
+                          Elimina
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {log.length > 1 && (
+                  <details style={{ marginTop: 6 }}>
+                    <summary style={{ cursor: "pointer", fontSize: 13 }}>Prescrizioni ({log.length})</summary>
+                    <ul style={{ margin: "6px 0 0", paddingLeft: 18, fontSize: 13 }}>
+                      {log.map(({ version: v, lines }) => (
+                        <li key={v.id}>dal {v.effective_from}: {lines.join("; ")}{v.prescriber && <span style={styles.label}> · {v.prescriber}</span>}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <h4 style={{ margin: "20px 0 8px" }}>🗑️ Cestino</h4>
+      {trash.length === 0 ? (
+        <p style={{ fontSize: 13, color: "#666", margin: 0 }}>Vuoto. I farmaci eliminati restano qui {TRASH_DAYS} giorni.</p>
+      ) : (
+        <table style={{ ...styles.table, fontSize: 13 }}>
+          <tbody>
+            {trash.map(m => (
+              <tr key={m.id}>
+                <td><b>{m.name}</b> {m.dosage && <span style={{ color: "#666" }}>– {m.dosage}</span>}</td>
+                <td><span style={styles.label}>eliminato il {formatInstant(m.deleted_at!)} · cancellazione definitiva il {purgeDay(m)}</span></td>
+                <td style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                  {canManage && (
+                    <>
+                      <button style={{ ...styles.btnSmall, background: "#6c757d" }} disabled={busy}
+                        onClick={() => run(() => untrashMed(m), "Impossibile recuperare il farmaco")}>
+                        Recupera
+                      </button>{" "}
+                      <button style={{ ...styles.btnSmall, background: "#b30021" }} disabled={busy}
+                        onClick={() => confirm(`Eliminare subito “${m.name}” con scorte e storico delle assunzioni? Non si può annullare.`)
+                          && run(() => purgeMed(m.id), "Eliminazione non riuscita")}>
+                        Elimina subito
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* ---- Popup Ripristina ---- */}
+      {restoring && (
+        <Modal onClose={() => setRestoring(null)}>
+          <h3 style={{ marginTop: 0 }}>Ripristina “{restoring.med.name}”</h3>
+          <p style={{ marginTop: 0, color: "#555", fontSize: 14 }}>
+            Torna nel planner con la terapia di prima. Indica le scorte da ricreare
+            ({UNIT_LABELS[restoring.med.unit].many}); all'archiviazione erano
+            Box {stockLabel(restoring.med.zeroed.box, restoring.med)} e Dispensa {stockLabel(restoring.med.zeroed.dispensa, restoring.med)}.
+          </p>
+          <Field label="Box">
+            <input type="number" min={0} value={restoring.box} style={styles.inputFull}
+              onChange={(e) => setRestoring({ ...restoring, box: Math.max(0, Number(e.target.value || 0)) })} />
+          </Field>
+          <Field label="Dispensa">
+            <input type="number" min={0} value={restoring.dispensa} style={styles.inputFull}
+              onChange={(e) => setRestoring({ ...restoring, dispensa: Math.max(0, Number(e.target.value || 0)) })} />
+          </Field>
+          <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+            <button style={{ ...styles.btn, flex: 1 }} disabled={busy}
+              onClick={async () => {
+                const r = restoring;
+                setRestoring(null);
+                await run(() => restoreMed(r.med, { box: r.box, dispensa: r.dispensa }), "Ripristino non riuscito", true);
+              }}>
+              Ripristina
+            </button>
+            <button style={{ ...styles.btn, flex: 1, background: "#666" }} onClick={() => setRestoring(null)}>Annulla</button>
+          </div>
+        </Modal>
+      )}
+    </Section>
+  );
+}
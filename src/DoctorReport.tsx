@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { computeAdherence, loadHistory } from "./adherence";
+import { addDaysISO, todayISO } from "./dates";
+import type { Forecast } from "./forecast";
+import { styles } from "./styles";
+import type { Med, SlotDef, StocksMap } from "./types";
+import { Field, Modal } from "./ui";
+
+// ---------- Popup "Relazione per il medico" ----------
+export function DoctorReport({ familyId, patientId, patient, author, meds, slots, stocks, forecasts, onClose }: {
+  familyId: string; patientId: string; patient: string; author: string;
+  meds: Med[]; slots: SlotDef[]; stocks: StocksMap; forecasts: Record<string, Forecast>;
+  onClose: () => void;
+}) {
+  const today = todayISO();
+  const [name, setName] = useState(patient);
+  const [from, setFrom] = useState(addDaysISO(today, -29));
+  const [to, setTo] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function download() {
+    if (from > to) { alert("Il periodo non è valido."); return; }
+    setBusy(true);
+    try {
+      const data = await loadHistory(familyId, patientId, slots, from, to);
+      const adherence = computeAdherence(data, slots, from, to, Date.now());
+      // jsPDF pesa: si carica solo quando serve
+      const { buildDoctorReport, reportFileName } = await import("./report");
+      const doc = buildDoctorReport({ patient: name.trim(), from, to, today, meds, adherence, stocks, forecasts, notes, author });
+      // download diretto (niente finestre: i browser mobili le bloccano)
+      doc.save(reportFileName(name, today));
+    } catch (e) {
+      console.error("relazione PDF", e);
+      alert("Impossibile generare la relazione.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal onClose={onClose}>
+      <h3 style={{ marginTop: 0 }}>Relazione per il medico</h3>
+      <Field label="Paziente">
+        <input value={name} onChange={(e) => setName(e.target.value)} style={styles.inputFull} />
+      </Field>
+      <div style={{ display: "flex", gap: 8 }}>
+        <Field label="Dal">
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value || from)} style={styles.inputSmall} />
+        </Field>
+        <Field label="Al">
+          <input type="date" value={to} min={from} max={today} onChange={(e) => setTo(e.target.value || to)} style={styles.inputSmall} />
+        </Field>
+        <Field label="Rapido">
+          <select style={styles.select} value="" onChange={(e) => { if (e.target.value) { setFrom(addDaysISO(today, -(Number(e.target.value) - 1))); setTo(today); } }}>
+            <option value="">—</option>
+            {[30, 90, 180].map(d => <option key={d} value={d}>Ultimi {d} giorni</option>)}
+          </select>
+        </Field>
+      </div>
+      <Field label="Note per il medico">
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={4}
+          placeholder="es. capogiri al mattino dopo il cambio di dose, pressione 130/80"
+          style={{ ...styles.inputFull, resize: "vertical" }} />
+      </Field>
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        <button style={{ ...styles.btn, flex: 1, background: "#2ecc71" }} onClick={download} disabled={busy}>
+          {busy ? "Preparazione…" : "Scarica PDF"}
+        </button>
+        <button style={{ ...styles.btn, flex: 1, background: "#6c757d" }} onClick={onClose}>Chiudi</button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { deviceTimeZone, type CalendarSettings } from "./dates";
+import {
+  cancelInvite, inviteMember, loadMembers, removeMember, renameFamily, saveCalendar, setMemberRole, ROLE_LABELS,
+  type FamilyInvite, type FamilyMember, type Role,
+} from "./family";
+import { styles } from "./styles";
+import type { Profile } from "./types";
+import { Field, Modal } from "./ui";
+
+// ---------- Popup "Famiglia" ----------
+// Nome, fuso e fine giornata, membri con ruolo e inviti in attesa. I membri
+// semplici vedono la lista e possono solo uscire dalla famiglia.
+
+/** fine giornata di cura: fino a quest'ora le dosi contano per la sera prima */
+const CUTOFFS = ["00:00", "00:30", "01:00", "01:30", "02:00", "03:00", "04:00", "05:00"];
+
+export function FamilySettings({ profile, familyName, calendar, onRenamed, onCalendarChanged, onSelfChanged, onClose }: {
+  profile: Profile; familyName: string; calendar: CalendarSettings;
+  onRenamed: (name: string) => void;
+  onCalendarChanged: (next: CalendarSettings) => void;
+  /** il proprio ruolo o la propria appartenenza è cambiata: va ricaricato il profilo */
+  onSelfChanged: () => void;
+  onClose: () => void;
+}) {
+  const familyId = profile.family_id!;
+  const admin = profile.role === "admin";
+  const [name, setName] = useState(familyName);
+  const [cal, setCal] = useState(calendar);
+  const [members, setMembers] = useState<FamilyMember[]>([]);
+  const [invites, setInvites] = useState<FamilyInvite[]>([]);
+  const [invite, setInvite] = useState<{ email: string; role: Role }>({ email: "", role: "member" });
+  const [busy, setBusy] = useState(false);
+
+  async function reload() {
+    const res = await loadMembers(familyId);
+    setMembers(res.members);
+    setInvites(res.invites);
+  }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { reload(); }, [familyId]);
+
+  async function run(op: () => Promise<unknown>, failure: string) {
+    setBusy(true);
+    const error = await op();
+    setBusy(false);
+    if (error) alert(`${failure}: ${(error as { message?: string }).message || "errore"}`);
+    return !error;
+  }
+
+  async function saveName() {
+    if (!name.trim() || name.trim() === familyName) return;
+    if (await run(() => renameFamily(familyId, name), "Impossibile rinominare la famiglia")) onRenamed(name.trim());
+  }
+
+  async function saveCal() {
+    const timeZone = cal.timeZone.trim();
+    try {
+      new Intl.DateTimeFormat("it-IT", { timeZone });
+    } catch {
+      alert(`Fuso orario non valido: ${timeZone}\nUsa un nome IANA, es. Europe/Rome.`);
+      return;
+    }
+    const next = { timeZone, cutoff: cal.cutoff };
+    if (await run(() => saveCalendar(familyId, next), "Impossibile salvare il calendario")) onCalendarChanged(next);
+  }
+
+  async function sendInvite() {
+    const email = invite.email.trim().toLowerCase();
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) { alert("Email non valida."); return; }
+    if (members.some(m => m.email.toLowerCase() === email)) { alert("Fa già parte della famiglia."); return; }
+    if (await run(() => inviteMember(familyId, email, invite.role), "Invito non riuscito")) {
+      setInvite({ email: "", role: "member" });
+      await reload();
+    }
+  }
+
+  async function changeRole(m: FamilyMember, role: Role) {
+    if (await run(() => setMemberRole(m.id, role), "Impossibile cambiare il ruolo")) {
+      if (m.id === profile.id) onSelfChanged();
+      else await reload();
+    }
+  }
+
+  async function remove(m: FamilyMember) {
+    const self = m.id === profile.id;
+    if (!confirm(self ? "Uscire dalla famiglia? Non vedrai più farmaci e scorte." : `Rimuovere ${m.email} dalla famiglia?`)) return;
+    if (await run(() => removeMember(m.id), self ? "Impossibile uscire" : "Impossibile rimuovere il membro")) {
+      if (self) onSelfChanged();
+      else await reload();
+    }
+  }
+
+  return (
+    <Modal onClose={onClose}>
+      <h3 style={{ marginTop: 0 }}>Famiglia</h3>
+      <Field label="Nome">
+        <div style={{ display: "flex", gap: 6 }}>
+          <input value={name} onChange={(e) => setName(e.target.value)} disabled={!admin} style={styles.inputFull} />
+          {admin && <button style={styles.btnSmall} onClick={saveName} disabled={busy}>Salva</button>}
+        </div>
+      </Field>
+
+      <Field label="Fuso orario">
+        <div style={{ display: "flex", gap: 6 }}>
+          <input value={cal.timeZone} disabled={!admin} style={styles.inputFull}
+            onChange={(e) => setCal(c => ({ ...c, timeZone: e.target.value }))} />
+          {admin && cal.timeZone !== deviceTimeZone() && (
+            <button style={{ ...styles.btnSmall, background: "#6c757d", whiteSpace: "nowrap" }}
+              onClick={() => setCal(c => ({ ...c, timeZone: deviceTimeZone() }))}>
+              Usa {deviceTimeZone()}
+            </button>
+          )}
+        </div>
+      </Field>
+      <Field label="La giornata finisce alle">
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <select value={cal.cutoff} disabled={!admin} style={styles.select} onChange={(e) => setCal(c => ({ ...c, cutoff: e.target.value }))}>
+            {CUTOFFS.map(t => <option key={t} value={t}>{t === "00:00" ? "mezzanotte" : t}</option>)}
+          </select>
+          {admin && (cal.timeZone !== calendar.timeZone || cal.cutoff !== calendar.cutoff) && (
+            <button style={styles.btnSmall} onClick={saveCal} disabled={busy}>Salva</button>
+          )}
+        </div>
+      </Field>
+      {cal.cutoff !== "00:00" && (
+        <p style={{ fontSize: 12, color: "#888", margin: "0 0 8px" }}>
+          Le dosi prima delle {cal.cutoff} contano per la sera precedente.
+        </p>
+      )}
+
+      <h4 style={{ margin: "16px 0 8px" }}>Membri</h4>
+      <table style={{ ...styles.table, fontSize: 13 }}>
+        <tbody>
+          {members.map(m => (
+            <tr key={m.id}>
+              <td>{m.email}{m.id === profile.id && <span style={{ color: "#888" }}> (tu)</span>}</td>
+              <td>
+                {admin ? (
+                  <select value={m.role} disabled={busy} style={styles.select} onChange={(e) => changeRole(m, e.target.value as Role)}>
+                    {(Object.keys(ROLE_LABELS) as Role[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                ) : ROLE_LABELS[m.role]}
+              </td>
+              <td style={{ textAlign: "right" }}>
+                {(admin || m.id === profile.id) && (
+                  <button style={{ ...styles.btnSmall, background: "#b30021" }} disabled={busy} onClick={() => remove(m)}>
+                    {m.id === profile.id ? "Esci" : "Rimuovi"}
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {admin && (
+        <>
+          <h4 style={{ margin: "16px 0 8px" }}>Inviti</h4>
+          {invites.length === 0 ? (
+            <p style={{ fontSize: 13, color: "#666", margin: 0 }}>Nessun invito in attesa.</p>
+          ) : (
+            <table style={{ ...styles.table, fontSize: 13 }}>
+              <tbody>
+                {invites.map(i => (
+                  <tr key={i.id}>
+                    <td>{i.email}</td>
+                    <td>{ROLE_LABELS[i.role]}</td>
+                    <td style={{ textAlign: "right" }}>
+                      <button style={{ ...styles.btnSmall, background: "#6c757d" }} disabled={busy}
+                        onClick={async () => { if (await run(() => cancelInvite(i.id), "Impossibile annullare l'invito")) await reload(); }}>
+                        Annulla
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+            <input type="email" placeholder="email@..." value={invite.email} style={styles.inputFull}
+              onChange={(e) => setInvite(v => ({ ...v, email: e.target.value }))} />
+            <select value={invite.role} style={styles.select} onChange={(e) => setInvite(v => ({ ...v, role: e.target.value as Role }))}>
+              {(Object.keys(ROLE_LABELS) as Role[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+            <button style={styles.btnSmall} disabled={busy} onClick={sendInvite}>Invita</button>
+          </div>
+          <p style={{ fontSize: 12, color: "#888", marginBottom: 0 }}>
+            L'invitato riceve il link di accesso ed entra in famiglia al primo login con questa email.
+          </p>
+        </>
+      )}
+
+      <button style={{ ...styles.btn, width: "100%", marginTop: 12, background: "#6c757d" }} onClick={onClose}>Chiudi</button>
+    </Modal>
+  );
+}
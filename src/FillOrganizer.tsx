@@ -0,0 +1,136 @@
+import { useMemo, useState } from "react";
+import type { IntakeMark } from "./intakes";
+import { ORGANIZER_UNITS, cellKey, dayHeader, nextOrganizerStart, organizerFill, organizerHtml } from "./organizer";
+import { printHtml } from "./print";
+import { styles } from "./styles";
+import type { LotsMap, Med, SlotDef, StocksMap } from "./types";
+import { qtyLabel } from "./units";
+import { Field, Modal } from "./ui";
+
+// ---------- Popup "Riempi portapillole" ----------
+// Griglia giorno × fascia per la settimana scelta; alla conferma passa dalla
+// Dispensa al Box, in un'unica operazione, quel che l'avanzo nel Box non copre.
+export function FillOrganizer({ meds, slots, stocks, lots, marks, patientName, onConfirm, onClose }: {
+  meds: Med[]; slots: SlotDef[]; stocks: StocksMap; lots: LotsMap; patientName: string;
+  /** spunte del planner: le dosi di oggi già date o saltate non pesano sul Box */
+  marks: Record<string, IntakeMark>;
+  /** travaso dei totali; false = non riuscito (il popup resta aperto) */
+  onConfirm: (items: { med: Med; qty: number }[], from: string) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const [from, setFrom] = useState(nextOrganizerStart);
+  const [excluded, setExcluded] = useState<Record<string, boolean>>(
+    () => Object.fromEntries(meds.map(m => [m.id, !ORGANIZER_UNITS.includes(m.unit)]))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const fill = useMemo(
+    () => organizerFill(meds.filter(m => !excluded[m.id]), slots, stocks, lots, marks, from),
+    [meds, excluded, slots, stocks, lots, marks, from]
+  );
+  const moving = fill.totals.filter(t => t.qty > 0);
+  const short = moving.filter(t => t.missing > 0);
+
+  async function confirmFill() {
+    let items = moving.map(t => ({ med: t.med, qty: t.qty }));
+    if (short.length > 0) {
+      // la Dispensa non va sotto zero: si travasa solo quel che c'è
+      if (!confirm(
+        `La Dispensa non basta per:\n${short.map(t => `• ${t.med.name}: mancano ${qtyLabel(t.missing, t.med)}`).join("\n")}\n\n` +
+        "Travasare solo quello che c'è in Dispensa?"
+      )) return;
+      items = moving.map(t => ({ med: t.med, qty: Math.min(t.qty, Math.max(0, t.dispensa)) })).filter(i => i.qty > 0);
+      if (items.length === 0) { alert("In Dispensa non c'è niente da travasare."); return; }
+    }
+    setSaving(true);
+    const ok = await onConfirm(items, from);
+    setSaving(false);
+    if (ok) onClose();
+  }
+
+  return (
+    <Modal onClose={onClose}>
+      <h3 style={{ marginTop: 0 }}>Riempi portapillole – {patientName}</h3>
+      <Field label="Settimana dal">
+        <input type="date" value={from} style={styles.select} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+      </Field>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 12px", marginTop: 10, fontSize: 13 }}>
+        {meds.map(m => (
+          <label key={m.id} style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            <input type="checkbox" checked={!excluded[m.id]} onChange={(e) => setExcluded(x => ({ ...x, [m.id]: !e.target.checked }))} />
+            {m.name}
+          </label>
+        ))}
+      </div>
+
+      {fill.totals.length === 0 ? (
+        <p style={{ color: "#666" }}>Nessuna dose da mettere nel portapillole in questa settimana.</p>
+      ) : (
+        <>
+          <div style={{ overflowX: "auto", marginTop: 12 }}>
+            <table style={{ ...styles.table, fontSize: 12 }}>
+              <thead>
+                <tr>
+                  <th></th>
+                  {fill.days.map(d => <th key={d} style={{ padding: 4, borderBottom: "1px solid #ddd" }}>{dayHeader(d)}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {fill.slots.map(slot => (
+                  <tr key={slot.name}>
+                    <th style={{ textAlign: "left", padding: 4, background: slot.color }}>{slot.name}</th>
+                    {fill.days.map(day => (
+                      <td key={day} style={{ padding: 4, border: "1px solid #eee", verticalAlign: "top" }}>
+                        {(fill.cells[cellKey(day, slot)] || []).map(c => (
+                          <div key={c.med.id}>{c.med.name} <b>{qtyLabel(c.qty, c.med)}</b></div>
+                        ))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <table style={{ ...styles.table, fontSize: 13, marginTop: 12 }}>
+            <thead>
+              <tr><th style={{ textAlign: "left" }}>Farmaco</th><th>Nel portapillole</th><th>Già nel Box</th><th>Da travasare</th><th>In Dispensa (non scaduti)</th></tr>
+            </thead>
+            <tbody>
+              {fill.totals.map(t => (
+                <tr key={t.med.id} style={{ background: t.missing > 0 ? "#ffe3ea" : undefined }}>
+                  <td>{t.med.name}</td>
+                  <td style={{ textAlign: "center" }}>{qtyLabel(t.need, t.med)}</td>
+                  <td style={{ textAlign: "center" }}>{t.box > 0 ? qtyLabel(t.box, t.med) : "–"}</td>
+                  <td style={{ textAlign: "center" }}><b>{qtyLabel(t.qty, t.med)}</b></td>
+                  <td style={{ textAlign: "center" }}>
+                    {qtyLabel(t.dispensa, t.med)}
+                    {t.missing > 0 && <span style={{ color: "#b30021" }}> · mancano {qtyLabel(t.missing, t.med)}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {moving.length === 0 && (
+            <p style={{ fontSize: 13, color: "#555" }}>L'avanzo nel Box copre già la settimana: niente da travasare.</p>
+          )}
+          {short.length > 0 && (
+            <p style={{ fontSize: 13, color: "#b30021" }}>⚠️ La Dispensa non copre il riempimento di {short.length} farmac{short.length === 1 ? "o" : "i"}.</p>
+          )}
+        </>
+      )}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 12, flexWrap: "wrap" }}>
+        <button style={{ ...styles.btn, flex: 1 }} disabled={saving || moving.length === 0} onClick={confirmFill}>
+          Riempito: sposta nel Box
+        </button>
+        <button style={{ ...styles.btn, background: "#6c757d" }} disabled={fill.totals.length === 0}
+          onClick={() => printHtml("Portapillole", organizerHtml(fill, patientName))}>
+          🖨️ Stampa griglia
+        </button>
+        <button style={{ ...styles.btn, background: "#666" }} onClick={onClose}>Annulla</button>
+      </div>
+    </Modal>
+  );
+}
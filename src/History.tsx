@@ -0,0 +1,189 @@
+import { useEffect, useMemo, useState } from "react";
+import { adherencePct, computeAdherence, loadHistory, therapyTimeline, type HistoryData, type Tally } from "./adherence";
+import { addDaysISO, daysBetweenISO, isoWeekday, todayISO } from "./dates";
+import { WEEKDAY_LABELS, timeLabel } from "./schedule";
+import { styles } from "./styles";
+import type { SlotDef } from "./types";
+import { Section } from "./ui";
+
+// ---------- Vista "Storico" ----------
+// Aderenza per farmaco e complessiva, calendario a colori, fasce più
+// dimenticate e cronologia delle modifiche di terapia (per le visite).
+
+const RANGES = [7, 30, 90] as const;
+
+function pctColor(p: number | null): string {
+  if (p === null) return "#eee";
+  if (p >= 100) return "#2ecc71";
+  if (p >= 80) return "#a8e6bf";
+  if (p >= 50) return "#ffd27a";
+  return "#ff8a9b";
+}
+
+const pctText = (t: Tally) => {
+  const p = adherencePct(t);
+  return p === null ? "—" : `${p}%`;
+};
+
+export function History({ familyId, patientId, slots }: { familyId: string; patientId: string; slots: SlotDef[] }) {
+  const today = todayISO();
+  const [range, setRange] = useState<number | "custom">(30);
+  const [custom, setCustom] = useState({ from: addDaysISO(today, -29), to: today });
+  const from = range === "custom" ? custom.from : addDaysISO(today, -(range - 1));
+  const to = range === "custom" ? custom.to : today;
+
+  const [data, setData] = useState<HistoryData | null>(null);
+  useEffect(() => {
+    let stale = false;
+    setData(null);
+    loadHistory(familyId, patientId, slots, from, to).then(d => { if (!stale) setData(d); });
+    return () => { stale = true; };
+  }, [familyId, patientId, slots, from, to]);
+
+  const report = useMemo(
+    () => (data && from <= to ? computeAdherence(data, slots, from, to, Date.now()) : null),
+    [data, slots, from, to]
+  );
+
+  // calendario: colonne = settimane (lun→dom), come il planner
+  const weeks = useMemo(() => {
+    const start = addDaysISO(from, -(isoWeekday(from) - 1));
+    const out: string[][] = [];
+    for (let d = start; d <= to; d = addDaysISO(d, 7)) out.push(Array.from({ length: 7 }, (_, i) => addDaysISO(d, i)));
+    return out;
+  }, [from, to]);
+
+  const timeline = useMemo(() => (data ? therapyTimeline(data, from, to) : []), [data, from, to]);
+
+  return (
+    <Section title="Storico e aderenza">
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 12, flexWrap: "wrap" }}>
+        <label style={{ fontSize: 14 }}>
+          Periodo{" "}
+          <select value={range} onChange={(e) => setRange(e.target.value === "custom" ? "custom" : Number(e.target.value))} style={styles.select}>
+            {RANGES.map(d => <option key={d} value={d}>Ultimi {d} giorni</option>)}
+            <option value="custom">Personalizzato</option>
+          </select>
+        </label>
+        {range === "custom" && (
+          <>
+            <input type="date" value={custom.from} max={custom.to} style={styles.inputSmall}
+              onChange={(e) => setCustom(c => ({ ...c, from: e.target.value || c.from }))} />
+            →
+            <input type="date" value={custom.to} min={custom.from} style={styles.inputSmall}
+              onChange={(e) => setCustom(c => ({ ...c, to: e.target.value || c.to }))} />
+          </>
+        )}
+      </div>
+
+      {!report ? (
+        <p style={{ color: "#666" }}>Caricamento…</p>
+      ) : (
+        <>
+          <div style={{ display: "flex", gap: 16, flexWrap: "wrap", marginBottom: 16 }}>
+            <Stat label="Aderenza" value={pctText(report.overall)} />
+            <Stat label="Date" value={`${report.overall.taken + report.overall.late}`} hint={report.overall.late ? `${report.overall.late} in ritardo` : undefined} />
+            <Stat label="Non date" value={`${report.overall.missed}`} />
+            <Stat label="Saltate" value={`${report.overall.skipped}`} />
+            <Stat label="Serie attuale" value={`${report.streak} gg`} hint={`record ${report.bestStreak} gg`} />
+          </div>
+
+          <h4 style={{ margin: "8px 0" }}>Calendario</h4>
+          <div style={{ display: "flex", gap: 3, overflowX: "auto", paddingBottom: 4 }}>
+            <div style={{ display: "grid", gridTemplateRows: "repeat(7, 16px)", gap: 3, fontSize: 10, color: "#888" }}>
+              {WEEKDAY_LABELS.map(l => <span key={l}>{l}</span>)}
+            </div>
+            {weeks.map(week => (
+              <div key={week[0]} style={{ display: "grid", gridTemplateRows: "repeat(7, 16px)", gap: 3 }}>
+                {week.map(day => {
+                  const t = report.byDay[day];
+                  const inRange = day >= from && day <= to;
+                  return (
+                    <div key={day}
+                      title={inRange && t ? `${day}: ${pctText(t)} (${t.taken + t.late} date, ${t.missed} non date, ${t.skipped} saltate)` : day}
+                      style={{ width: 16, height: 16, borderRadius: 3, background: inRange && t ? pctColor(adherencePct(t)) : "transparent" }} />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+
+          <h4 style={{ margin: "16px 0 8px" }}>Per farmaco</h4>
+          {report.byMed.length === 0 ? (
+            <p style={{ color: "#666" }}>Nessuna dose prevista nel periodo.</p>
+          ) : (
+            <table style={styles.table}>
+              <thead>
+                <tr><th style={{ textAlign: "left" }}>Farmaco</th><th>Aderenza</th><th>Date</th><th>In ritardo</th><th>Non date</th><th>Saltate</th></tr>
+              </thead>
+              <tbody>
+                {report.byMed.map(({ med, tally }) => (
+                  <tr key={med.id}>
+                    <td>
+                      {med.name}
+                      {med.archived && <span style={{ color: "#888", fontSize: 12 }}> (archiviato)</span>}
+                    </td>
+                    <td style={{ textAlign: "center", background: pctColor(adherencePct(tally)) }}>{pctText(tally)}</td>
+                    <td style={{ textAlign: "center" }}>{tally.taken + tally.late}</td>
+                    <td style={{ textAlign: "center" }}>{tally.late}</td>
+                    <td style={{ textAlign: "center" }}>{tally.missed}</td>
+                    <td style={{ textAlign: "center" }}>{tally.skipped}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <h4 style={{ margin: "16px 0 8px" }}>Orari più dimenticati</h4>
+          {report.bySlot.filter(s => s.tally.missed > 0).length === 0 ? (
+            <p style={{ color: "#666" }}>Nessuna dose dimenticata nel periodo. 👏</p>
+          ) : (
+            <ul style={{ margin: 0, paddingLeft: 18 }}>
+              {report.bySlot.filter(s => s.tally.missed > 0).slice(0, 5).map(s => (
+                <li key={`${s.slot}|${s.time}`}>
+                  <b>{s.slot}</b> · {timeLabel(s.time)}: {s.tally.missed} non date su {s.tally.taken + s.tally.late + s.tally.missed} ({pctText(s.tally)} di aderenza)
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h4 style={{ margin: "16px 0 8px" }}>Modifiche di terapia</h4>
+          {timeline.length === 0 ? (
+            <p style={{ color: "#666" }}>Nessuna modifica nel periodo.</p>
+          ) : (
+            <div style={{ borderLeft: "2px solid #ddd", paddingLeft: 12 }}>
+              {timeline.map(item => (
+                <div key={item.key} style={{ marginBottom: 10 }}>
+                  <div style={{ fontSize: 12, color: "#888" }}>
+                    {item.date}
+                    {item.prescriber ? ` · prescritto da ${item.prescriber}` : ""}
+                    {item.who ? ` · inserito da ${item.who}` : ""}
+                  </div>
+                  <b>{item.med.name}</b>
+                  <ul style={{ margin: "2px 0 0", paddingLeft: 18, fontSize: 13 }}>
+                    {item.lines.map((line, i) => <li key={i}>{line}</li>)}
+                  </ul>
+                  {item.note && <div style={{ fontSize: 12, color: "#555", fontStyle: "italic" }}>{item.note}</div>}
+                </div>
+              ))}
+            </div>
+          )}
+          <p style={{ fontSize: 12, color: "#888", marginTop: 12 }}>
+            Periodo {from} → {to} ({daysBetweenISO(from, to) + 1} giorni). Le dosi saltate di proposito non contano
+            nell'aderenza; ogni giorno usa la prescrizione in vigore allora.
+          </p>
+        </>
+      )}
+    </Section>
+  );
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div style={{ border: "1px solid #eee", borderRadius: 10, padding: "8px 14px", minWidth: 90 }}>
+      <div style={{ fontSize: 12, color: "#666" }}>{label}</div>
+      <div style={{ fontSize: 22, fontWeight: 700 }}>{value}</div>
+      {hint && <div style={{ fontSize: 11, color: "#888" }}>{hint}</div>}
+    </div>
+  );
+}
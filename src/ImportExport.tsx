@@ -0,0 +1,148 @@
+import { useMemo, useState } from "react";
+import {
+  downloadFile, importMeds, intakesCsv, loadFamilyExport, medsCsv, parseImport, stocksCsv, type FamilyExport,
+} from "./dataio";
+import { todayISO } from "./dates";
+import { scheduleLabel, timeLabel } from "./schedule";
+import { styles } from "./styles";
+import type { Med, Patient } from "./types";
+import { qtyLabel } from "./units";
+import { Field, Modal } from "./ui";
+
+// ---------- Popup "Importa / esporta" ----------
+const EXAMPLE = "Bisoprololo 1.25 mg 1 compressa h 8\nCardioaspirina 100 mg 1 cpr h 13\nLasix 25 mg ½ compressa h 8 e 20\nModuretic 5+50 mg 1 compressa h 8\nSlowmet 750 mg RP 1 compressa h 8 e 20";
+
+export function ImportExport({ familyId, patient, meds, canImport, onImported, onClose }: {
+  familyId: string; patient: Patient;
+  /** farmaci del paziente: l'import li usa per scartare i doppioni */
+  meds: Med[];
+  /** l'import crea farmaci: solo admin */
+  canImport: boolean;
+  onImported: () => void | Promise<void>;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [skip, setSkip] = useState<Record<number, boolean>>({});
+  const [busy, setBusy] = useState(false);
+
+  const rows = useMemo(() => parseImport(text, meds), [text, meds]);
+  const chosen = rows.filter(r => r.med && !r.duplicate && !skip[r.line]);
+
+  async function exportAs(kind: "json" | "meds" | "stocks" | "intakes") {
+    setBusy(true);
+    let x: FamilyExport;
+    try {
+      x = await loadFamilyExport(familyId);
+    } catch (e) {
+      console.error("export famiglia", e);
+      alert("Impossibile leggere i dati da esportare.");
+      setBusy(false);
+      return;
+    }
+    const day = todayISO();
+    if (kind === "json") downloadFile(`farmaci-${day}.json`, JSON.stringify(x, null, 2), "application/json");
+    if (kind === "meds") downloadFile(`farmaci-${day}.csv`, medsCsv(x), "text/csv;charset=utf-8");
+    if (kind === "stocks") downloadFile(`scorte-${day}.csv`, stocksCsv(x), "text/csv;charset=utf-8");
+    if (kind === "intakes") downloadFile(`assunzioni-${day}.csv`, intakesCsv(x), "text/csv;charset=utf-8");
+    setBusy(false);
+  }
+
+  async function readFile(f: File | undefined) {
+    if (!f) return;
+    setText(await f.text());
+    setSkip({});
+  }
+
+  async function runImport() {
+    if (chosen.length === 0) return;
+    setBusy(true);
+    const { created, error } = await importMeds(familyId, patient.id, chosen.map(r => r.med!));
+    setBusy(false);
+    if (error && created === 0) { alert("Importazione non riuscita."); return; }
+    if (error) alert(`Creati ${created} farmaci, ma le scorte iniziali non sono state salvate.`);
+    await onImported();
+    onClose();
+  }
+
+  return (
+    <Modal onClose={onClose}>
+      <h3 style={{ marginTop: 0 }}>Importa / esporta</h3>
+
+      <h4 style={{ margin: "8px 0" }}>Esporta (tutta la famiglia)</h4>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+        <button style={styles.nav} disabled={busy} onClick={() => exportAs("meds")}>Farmaci (CSV)</button>
+        <button style={styles.nav} disabled={busy} onClick={() => exportAs("stocks")}>Scorte (CSV)</button>
+        <button style={styles.nav} disabled={busy} onClick={() => exportAs("intakes")}>Assunzioni (CSV)</button>
+        <button style={styles.nav} disabled={busy} onClick={() => exportAs("json")}>Tutto (JSON)</button>
+      </div>
+
+      {canImport && (
+        <>
+          <h4 style={{ margin: "16px 0 8px" }}>Importa farmaci per {patient.name}</h4>
+          <Field label="Da file (CSV o JSON esportati da qui)">
+            <input type="file" accept=".csv,.json,.txt,text/csv,application/json,text/plain" onChange={(e) => readFile(e.target.files?.[0])} />
+          </Field>
+          <Field label="Oppure incolla un farmaco per riga">
+            <textarea value={text} onChange={(e) => { setText(e.target.value); setSkip({}); }} rows={5}
+              placeholder={EXAMPLE} style={{ ...styles.inputFull, resize: "vertical", fontFamily: "monospace" }} />
+          </Field>
+
+          {rows.length > 0 && (
+            <div style={{ maxHeight: 280, overflowY: "auto", marginTop: 8 }}>
+              <table style={styles.table}>
+                <thead>
+                  <tr><th></th><th style={{ textAlign: "left" }}>Farmaco</th><th style={{ textAlign: "left" }}>Orari</th><th style={{ textAlign: "left" }}>Esito</th></tr>
+                </thead>
+                <tbody>
+                  {rows.map(r => (
+                    <tr key={r.line} style={{ opacity: r.med && !r.duplicate ? 1 : 0.7 }}>
+                      <td>
+                        <input type="checkbox" disabled={!r.med || r.duplicate}
+                          checked={!!r.med && !r.duplicate && !skip[r.line]}
+                          onChange={(e) => setSkip(s => ({ ...s, [r.line]: !e.target.checked }))} />
+                      </td>
+                      {r.med ? (
+                        <>
+                          <td>
+                            <b>{r.med.name}</b>{r.med.dosage ? ` ${r.med.dosage}` : ""}
+                            {(r.med.box > 0 || r.med.dispensa > 0) && (
+                              <div style={{ fontSize: 12, color: "#666" }}>Box {r.med.box} · Dispensa {r.med.dispensa}</div>
+                            )}
+                          </td>
+                          <td style={{ fontSize: 13 }}>
+                            {r.med.doses.map(d => `${timeLabel(d.time)} ${qtyLabel(d.qty, r.med!)}`).join(", ")}
+                            <div style={{ fontSize: 12, color: "#666" }}>{scheduleLabel(r.med.schedule)}</div>
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={2} style={{ fontSize: 13, color: "#666" }}>Riga {r.line}: {r.source}</td>
+                      )}
+                      <td style={{ fontSize: 13 }}>
+                        {r.errors.length > 0 ? (
+                          <span style={{ color: "#c0392b" }}>{r.errors.join("; ")}</span>
+                        ) : r.duplicate ? (
+                          <span style={{ color: "#b8860b" }}>già presente</span>
+                        ) : (
+                          <span style={{ color: "#27ae60" }}>OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        {canImport && (
+          <button style={{ ...styles.btn, flex: 1, background: "#2ecc71" }} onClick={runImport} disabled={busy || chosen.length === 0}>
+            {busy ? "Attendere…" : `Importa ${chosen.length} farmac${chosen.length === 1 ? "o" : "i"}`}
+          </button>
+        )}
+        <button style={{ ...styles.btn, flex: 1, background: "#6c757d" }} onClick={onClose}>Chiudi</button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { formatInstant } from "./dates";
+import { INTAKE_ACTION_LABELS, loadIntakeEvents, noteIntake } from "./intakes";
+import { timeLabel } from "./schedule";
+import { styles } from "./styles";
+import type { IntakeEvent, Med } from "./types";
+import { Modal } from "./ui";
+
+// ---------- Popup storico di una dose ----------
+// Chi l'ha data, a che ora reale, annullamenti e note; da qui si aggiunge una
+// nota anche a dose già segnata.
+export function IntakeHistory({ med, day, time, onNoted, onClose }: {
+  med: Med; day: string; time: string;
+  onNoted: (note: string) => void;
+  onClose: () => void;
+}) {
+  const [rows, setRows] = useState<IntakeEvent[] | null>(null);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => { loadIntakeEvents(med.id, day, time).then(setRows); }, [med.id, day, time]);
+
+  async function saveNote() {
+    const text = note.trim();
+    if (!text) return;
+    setSaving(true);
+    const error = await noteIntake(med.id, day, time, text);
+    setSaving(false);
+    if (error) { alert(error.message); return; }
+    setNote("");
+    onNoted(text);
+    setRows(await loadIntakeEvents(med.id, day, time));
+  }
+
+
+  return (
+    <Modal onClose={onClose}>
+      <h3 style={{ marginTop: 0 }}>{med.name} – {day} {timeLabel(time)}</h3>
+      {rows === null ? (
+        <p style={{ color: "#666" }}>Caricamento…</p>
+      ) : rows.length === 0 ? (
+        <p style={{ color: "#666" }}>Nessuna registrazione per questa dose.</p>
+      ) : (
+        <div style={{ maxHeight: 300, overflowY: "auto" }}>
+          <table style={{ ...styles.table, fontSize: 12 }}>
+            <thead>
+              <tr><th>Ora reale</th><th>Cosa</th><th>Chi / nota</th></tr>
+            </thead>
+            <tbody>
+              {rows.map(r => (
+                <tr key={r.id}>
+                  <td>
+                    {formatInstant(r.at)}
+                    {Math.abs(new Date(r.created_at).getTime() - new Date(r.at).getTime()) > 60_000 && (
+                      <div style={{ color: "#888" }}>registrata {formatInstant(r.created_at)}</div>
+                    )}
+                  </td>
+                  <td style={{ color: r.action === "undone" ? "#b30021" : undefined }}>{INTAKE_ACTION_LABELS[r.action]}</td>
+                  <td>
+                    {r.author?.email || "—"}
+                    {r.note ? <div style={{ color: "#666" }}>{r.note}</div> : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        <input
+          value={note} onChange={(e) => setNote(e.target.value)}
+          placeholder="Nota (es. a stomaco pieno, vomitata e ridata)"
+          style={{ ...styles.input, flex: 1, width: "auto", marginRight: 0 }}
+          onKeyDown={(e) => { if (e.key === "Enter") saveNote(); }}
+        />
+        <button style={{ ...styles.btn, padding: "8px 12px" }} onClick={saveNote} disabled={saving || !note.trim()}>
+          {saving ? "…" : "Aggiungi"}
+        </button>
+      </div>
+    </Modal>
+  );
+}
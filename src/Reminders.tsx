@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import {
+  deviceReminders, disableReminders, enableReminders, loadReminderSettings, pushSupported,
+  saveReminderSettings, DEFAULT_REMINDERS, type ReminderSettings,
+} from "./reminders";
+import type { ScheduledDose } from "./schedule";
+import { styles } from "./styles";
+import type { Patient } from "./types";
+import { Field, Modal } from "./ui";
+
+// ---------- Popup "Promemoria" ----------
+// Attiva le notifiche su questo dispositivo. Gli admin scelgono dopo quanti
+// minuti una dose non data viene segnalata a tutta la famiglia e l'ora del
+// riepilogo email degli avvisi scorte.
+export function Reminders({ familyId, admin, doses, patients, onClose }: {
+  familyId: string; admin: boolean;
+  /** dosi di oggi di tutti i pazienti (anteprima degli avvisi) */
+  doses: ScheduledDose[];
+  patients: Patient[];
+  onClose: () => void;
+}) {
+  const [device, setDevice] = useState<{ escalationOnly: boolean } | null>(null);
+  const [escalationOnly, setEscalationOnly] = useState(false);
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDERS);
+  const [busy, setBusy] = useState(false);
+  const supported = pushSupported();
+
+  useEffect(() => {
+    deviceReminders().then(d => { setDevice(d); setEscalationOnly(d?.escalationOnly ?? false); });
+    loadReminderSettings(familyId).then(setSettings);
+  }, [familyId]);
+
+  async function enable() {
+    setBusy(true);
+    const error = await enableReminders(escalationOnly);
+    setBusy(false);
+    if (error) { alert(error); return; }
+    setDevice({ escalationOnly });
+  }
+
+  async function disable() {
+    setBusy(true);
+    const error = await disableReminders();
+    setBusy(false);
+    if (error) { alert(`Impossibile disattivare i promemoria: ${error}`); return; }
+    setDevice(null);
+  }
+
+  async function saveSettings() {
+    setBusy(true);
+    const error = await saveReminderSettings(familyId, settings);
+    setBusy(false);
+    if (error) alert(`Impostazioni non salvate: ${error.message}`);
+  }
+
+  const patientName = (id: string) => patients.find(p => p.id === id)?.name || "";
+  const times = [...new Set(doses.map(d => d.dose.time))].sort();
+
+  return (
+    <Modal onClose={onClose}>
+      <h3 style={{ marginTop: 0 }}>Promemoria dosi</h3>
+      {!supported ? (
+        <p style={{ fontSize: 13, color: "#b30021" }}>
+          Notifiche push non disponibili su questo browser (su iPhone: aggiungi l'app alla schermata Home).
+        </p>
+      ) : (
+        <>
+          <p style={{ fontSize: 13, color: "#444", marginTop: 0 }}>
+            {device ? "✅ Attivi su questo dispositivo." : "Non attivi su questo dispositivo."} Le notifiche arrivano anche
+            con l'app chiusa e hanno i pulsanti "Preso" e "Posticipa 15 min".
+            {admin && " Come amministratore ricevi anche gli avvisi di scorte in esaurimento."}
+          </p>
+          <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 14, marginBottom: 10 }}>
+            <input type="checkbox" checked={escalationOnly} onChange={(e) => setEscalationOnly(e.target.checked)} />
+            Avvisami solo se una dose non è stata data dopo {settings.escalateAfterMin} min
+          </label>
+          <div style={{ display: "flex", gap: 6 }}>
+            <button style={styles.btnSmall} disabled={busy} onClick={enable}>
+              {device ? "Aggiorna" : "Attiva su questo dispositivo"}
+            </button>
+            {device && (
+              <button style={{ ...styles.btnSmall, background: "#b30021" }} disabled={busy} onClick={disable}>Disattiva</button>
+            )}
+          </div>
+        </>
+      )}
+
+      {admin && (
+        <>
+          <h4 style={{ margin: "16px 0 8px" }}>Famiglia</h4>
+          <Field label="Avvisa tutti se la dose non è data dopo (minuti)">
+            <input type="number" min={5} max={240} step={5} value={settings.escalateAfterMin} style={styles.input}
+              onChange={(e) => setSettings(s => ({ ...s, escalateAfterMin: Math.min(240, Math.max(5, Number(e.target.value) || 30)) }))} />
+          </Field>
+          <Field label="Riepilogo email avvisi scorte (ora)">
+            <select value={settings.digestHour} style={styles.select}
+              onChange={(e) => setSettings(s => ({ ...s, digestHour: Number(e.target.value) }))}>
+              {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{String(h).padStart(2, "0")}:00</option>)}
+            </select>
+          </Field>
+          <button style={styles.btnSmall} disabled={busy} onClick={saveSettings}>Salva</button>
+        </>
+      )}
+
+      <h4 style={{ margin: "16px 0 8px" }}>Oggi</h4>
+      {times.length === 0 ? (
+        <p style={{ fontSize: 13, color: "#666", margin: 0 }}>Nessuna dose prevista.</p>
+      ) : (
+        <table style={{ ...styles.table, fontSize: 13 }}>
+          <tbody>
+            {times.map(t => (
+              <tr key={t}>
+                <td style={{ width: 60 }}><b>{t}</b></td>
+                <td>
+                  {doses.filter(d => d.dose.time === t)
+                    .map(d => `${d.med.name}${patients.length > 1 ? ` (${patientName(d.med.patient_id)})` : ""}`)
+                    .join(", ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <button style={{ ...styles.btn, width: "100%", marginTop: 12, background: "#6c757d" }} onClick={onClose}>Chiudi</button>
+    </Modal>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+import { parsePack, readCodes, type ScannedPack } from "./barcode";
+import { styles } from "./styles";
+import { Modal } from "./ui";
+
+/** Lato lungo massimo del fotogramma analizzato (più grande = più lento) */
+const MAX_SIDE = 1280;
+
+function drawScaled(canvas: HTMLCanvasElement, source: CanvasImageSource, width: number, height: number) {
+  const k = Math.min(1, MAX_SIDE / Math.max(width, height));
+  canvas.width = Math.round(width * k);
+  canvas.height = Math.round(height * k);
+  canvas.getContext("2d", { willReadFrequently: true })!.drawImage(source, 0, 0, canvas.width, canvas.height);
+}
+
+// ---------- Popup "Scansiona confezione" ----------
+// Fotocamera posteriore finché non si legge un codice della confezione
+// (bollino AIC o DataMatrix); in alternativa una foto caricata a mano.
+export function Scanner({ onPack, onClose }: { onPack: (pack: ScannedPack) => void; onClose: () => void }) {
+  const video = useRef<HTMLVideoElement>(null);
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const scan = async () => {
+      const v = video.current;
+      if (stopped || !v || !canvas.current) return;
+      if (v.readyState >= 2 && v.videoWidth > 0) {
+        drawScaled(canvas.current, v, v.videoWidth, v.videoHeight);
+        const pack = parsePack(await readCodes(canvas.current));
+        if (pack && !stopped) { onPack(pack); return; }
+      }
+      timer = setTimeout(scan, 300);
+    };
+
+    (async () => {
+      if (!navigator.mediaDevices?.getUserMedia) { setCameraError("Fotocamera non disponibile su questo browser."); return; }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+      } catch (e) {
+        console.error("getUserMedia", e);
+        setCameraError("Impossibile usare la fotocamera (permesso negato o nessuna fotocamera).");
+        return;
+      }
+      if (stopped) { stream.getTracks().forEach(t => t.stop()); return; }
+      video.current!.srcObject = stream;
+      await video.current!.play().catch(() => {});
+      scan();
+    })();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+    // la fotocamera si apre una volta sola: onPack chiude il popup
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function scanFile(file: File) {
+    setBusy(true);
+    try {
+      const img = await createImageBitmap(file);
+      drawScaled(canvas.current!, img, img.width, img.height);
+      const pack = parsePack(await readCodes(canvas.current!));
+      if (pack) onPack(pack);
+      else alert("Nessun codice AIC o DataMatrix riconosciuto nella foto.");
+    } catch (e) {
+      console.error("scansione foto", e);
+      alert("Impossibile leggere l'immagine.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal onClose={onClose}>
+      <h3 style={{ marginTop: 0 }}>Scansiona confezione</h3>
+      <p style={{ marginTop: 0, color: "#555", fontSize: 14 }}>
+        Inquadra il bollino con il codice AIC oppure il DataMatrix (il quadratino: contiene anche lotto e scadenza).
+      </p>
+      {cameraError ? (
+        <p style={{ fontSize: 13, color: "#b30021" }}>{cameraError}</p>
+      ) : (
+        <video ref={video} muted playsInline style={{ width: "100%", borderRadius: 8, background: "#000" }} />
+      )}
+      <canvas ref={canvas} style={{ display: "none" }} />
+      <label style={{ display: "block", marginTop: 10, fontSize: 13 }}>
+        Oppure carica una foto:{" "}
+        <input type="file" accept="image/*" disabled={busy}
+          onChange={(e) => { const f = e.target.files?.[0]; if (f) scanFile(f); e.target.value = ""; }} />
+      </label>
+      <button style={{ ...styles.btn, width: "100%", marginTop: 12, background: "#6c757d" }} onClick={onClose}>Chiudi</button>
+    </Modal>
+  );
+}
@@ -0,0 +1,131 @@
+import { useMemo, useState } from "react";
+import { todayISO } from "./dates";
+import { escapeHtml, printHtml } from "./print";
+import { shoppingQtyText, shoppingText, suggestPurchase, withPacks, type ShoppingRow } from "./shopping";
+import { styles } from "./styles";
+import type { Med, StocksMap } from "./types";
+import { UNIT_LABELS, qtyLabel } from "./units";
+import { Section } from "./ui";
+
+// ---------- Vista "Lista farmacia" ----------
+export function ShoppingList({ meds, stocks, rates, onPackSize, onPurchase }: {
+  meds: Med[];
+  stocks: StocksMap;
+  /** consumo reale / previsto per farmaco (vedi forecast.ts) */
+  rates: Record<string, number>;
+  /** assente per chi non può modificare i farmaci: il pezzo/confezione è solo in lettura */
+  onPackSize?: (m: Med, size: number | null) => Promise<void>;
+  onPurchase: (rows: ShoppingRow[]) => Promise<boolean>;
+}) {
+  const [horizon, setHorizon] = useState(30);
+  // modifiche manuali: confezioni/pezzi e righe escluse
+  const [edits, setEdits] = useState<Record<string, { packs?: number; units?: number; off?: boolean }>>({});
+  const [saving, setSaving] = useState(false);
+  const today = todayISO();
+
+  const rows = useMemo(() => meds.map(m => {
+    const base = suggestPurchase(m, stocks[m.id] || { box: 0, dispensa: 0 }, rates[m.id] ?? 1, today, horizon);
+    const e = edits[m.id];
+    if (e?.packs !== undefined) return withPacks(base, e.packs);
+    if (e?.units !== undefined) return { ...base, units: e.units };
+    return base;
+  }), [meds, stocks, rates, today, horizon, edits]);
+
+  const included = (r: ShoppingRow) => !edits[r.med.id]?.off && r.units > 0;
+  const list = rows.filter(included);
+
+  function printList() {
+    const body = `<p>Copertura ${horizon} giorni · ${escapeHtml(today)}</p>
+      <table>
+        <thead><tr><th>Farmaco</th><th>Da comprare</th><th>In casa</th><th>✓</th></tr></thead>
+        <tbody>${list.map(r => `<tr>
+          <td>${escapeHtml(r.med.name)}${r.med.dosage ? " – " + escapeHtml(r.med.dosage) : ""}</td>
+          <td>${escapeHtml(shoppingQtyText(r))}</td>
+          <td style="text-align:center">${escapeHtml(qtyLabel(r.stock, r.med))}</td>
+          <td></td>
+        </tr>`).join("")}</tbody>
+      </table>`;
+    printHtml("Lista farmacia", body);
+  }
+
+  async function shareList() {
+    const text = shoppingText(list, horizon, today);
+    if (navigator.share) {
+      try { await navigator.share({ title: "Lista farmacia", text }); return; } catch { /* annullato → copia */ }
+    }
+    await navigator.clipboard.writeText(text);
+    alert("Lista copiata: incollala in WhatsApp o SMS.");
+  }
+
+  async function registerPurchase() {
+    if (list.length === 0) return;
+    if (!confirm(`Aggiungere in Dispensa i pezzi di ${list.length} farmaci?`)) return;
+    setSaving(true);
+    const ok = await onPurchase(list);
+    setSaving(false);
+    if (ok) setEdits({});
+  }
+
+  return (
+    <Section title="Lista farmacia">
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 8, flexWrap: "wrap" }}>
+        <label style={{ fontSize: 14 }}>
+          Copertura{" "}
+          <select value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} style={styles.select}>
+            {[14, 30, 60, 90].map(d => <option key={d} value={d}>{d} giorni</option>)}
+          </select>
+        </label>
+        <button style={{ ...styles.btn, padding: "8px 12px" }} onClick={printList} disabled={list.length === 0}>Stampa</button>
+        <button style={{ ...styles.btn, padding: "8px 12px" }} onClick={shareList} disabled={list.length === 0}>Condividi testo</button>
+        <button style={{ ...styles.btn, padding: "8px 12px", background: "#2ecc71" }} onClick={registerPurchase} disabled={list.length === 0 || saving}>
+          {saving ? "Registrazione…" : "Registra acquisto"}
+        </button>
+      </div>
+
+      <div style={{ overflowX: "auto" }}>
+        <table style={styles.table}>
+          <thead>
+            <tr><th></th><th style={{ textAlign: "left" }}>Farmaco</th><th>Fabbisogno</th><th>In casa</th><th>Per conf.</th><th>Da comprare</th></tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.med.id} style={{ opacity: included(r) ? 1 : 0.5 }}>
+                <td>
+                  <input type="checkbox" checked={included(r)} disabled={r.units <= 0}
+                    onChange={(e) => setEdits(s => ({ ...s, [r.med.id]: { ...s[r.med.id], off: !e.target.checked } }))} />
+                </td>
+                <td>{r.med.name} {r.med.dosage ? <span style={{ color: "#666" }}>– {r.med.dosage}</span> : null}</td>
+                <td style={{ textAlign: "center" }}>{qtyLabel(Math.ceil(r.need), r.med)}</td>
+                <td style={{ textAlign: "center" }}>{qtyLabel(r.stock, r.med)}</td>
+                <td style={{ textAlign: "center" }}>
+                  {onPackSize ? (
+                    <input type="number" min={1} placeholder="?" defaultValue={r.med.pack_size ?? ""} style={{ ...styles.inputSmall, width: 60 }}
+                      onBlur={(e) => {
+                        const size = e.target.value ? Math.max(1, Number(e.target.value)) : null;
+                        if (size !== r.med.pack_size) onPackSize(r.med, size);
+                      }} />
+                  ) : (r.med.pack_size ?? "?")}
+                </td>
+                <td style={{ textAlign: "center" }}>
+                  {r.med.pack_size ? (
+                    <>
+                      <input type="number" min={0} value={r.packs} style={{ ...styles.inputSmall, width: 60 }}
+                        onChange={(e) => setEdits(s => ({ ...s, [r.med.id]: { ...s[r.med.id], packs: Math.max(0, Number(e.target.value || 0)) } }))} />
+                      {" "}conf. <span style={{ color: "#666", fontSize: 12 }}>({qtyLabel(r.units, r.med)})</span>
+                    </>
+                  ) : (
+                    <>
+                      <input type="number" min={0} value={r.units} style={{ ...styles.inputSmall, width: 60 }}
+                        onChange={(e) => setEdits(s => ({ ...s, [r.med.id]: { ...s[r.med.id], units: Math.max(0, Number(e.target.value || 0)) } }))} />
+                      {" "}{UNIT_LABELS[r.med.unit].short}
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Section>
+  );
+}
@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { formatInstant } from "./dates";
+import { discardEntry, onQueueChange, queueEntries, type QueueEntry } from "./offline";
+import { styles } from "./styles";
+import { Modal } from "./ui";
+
+// ---------- Indicatore di sincronizzazione ----------
+// Verde: online e coda vuota · giallo: offline o operazioni in attesa ·
+// rosso: operazioni rifiutate dal server (da riprovare o scartare).
+export function SyncStatus({ onRetry }: { onRetry: () => void }) {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => { queueEntries().then(setEntries).catch(() => setEntries([])); };
+    const up = () => setOnline(true);
+    const down = () => setOnline(false);
+    refresh();
+    const unsub = onQueueChange(refresh);
+    window.addEventListener("online", up);
+    window.addEventListener("offline", down);
+    return () => { unsub(); window.removeEventListener("online", up); window.removeEventListener("offline", down); };
+  }, []);
+
+  const pending = entries.filter(e => e.status === "pending").length;
+  const failed = entries.filter(e => e.status === "failed").length;
+  const [bg, color, text] =
+    failed > 0 ? ["#ffe3ea", "#8a001a", `⚠️ ${failed} non sincronizzate`] :
+    !online ? ["#fff5da", "#8a5b00", `Offline${pending ? ` · ${pending} in coda` : ""}`] :
+    pending > 0 ? ["#fff5da", "#8a5b00", `Sincronizzazione… ${pending}`] :
+    ["#e8f6ee", "#0a7b35", "● Sincronizzato"];
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        title="Stato sincronizzazione"
+        style={{ fontSize: 12, padding: "3px 10px", borderRadius: 999, border: "none", background: bg, color, cursor: "pointer" }}
+      >
+        {text}
+      </button>
+      {open && (
+        <Modal onClose={() => setOpen(false)}>
+          <h3 style={{ marginTop: 0 }}>Sincronizzazione</h3>
+          <p style={{ marginTop: 0, fontSize: 13, color: "#555" }}>
+            {online ? "Connesso." : "Nessuna connessione: le operazioni restano in coda su questo dispositivo."}
+          </p>
+          {entries.length === 0 ? (
+            <p style={{ color: "#666" }}>Nessuna operazione in attesa.</p>
+          ) : (
+            <div style={{ maxHeight: 300, overflowY: "auto", fontSize: 13 }}>
+              {entries.map(e => (
+                <div key={e.id} style={{ display: "flex", gap: 8, alignItems: "center", padding: "4px 0", borderBottom: "1px solid #eee" }}>
+                  <div style={{ flex: 1 }}>
+                    {e.label}
+                    <div style={{ fontSize: 11, color: e.status === "failed" ? "#b30021" : "#888" }}>
+                      {e.status === "failed" ? `Rifiutata: ${e.error}` : `In coda dal ${formatInstant(e.created_at)}`}
+                    </div>
+                  </div>
+                  {e.status === "failed" && (
+                    <button style={{ ...styles.btnSmall, background: "#666" }} onClick={() => discardEntry(e.id!)}>Scarta</button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          <button style={{ ...styles.btn, marginTop: 12, width: "100%" }} disabled={!online} onClick={onRetry}>
+            Sincronizza ora
+          </button>
+        </Modal>
+      )}
+    </>
+  );
+}
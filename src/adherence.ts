@@ -0,0 +1,187 @@
+import { sb } from "./supabase";
+import { addDaysISO, dayOfInstant, daysBetweenISO } from "./dates";
+import { doseStatus, type IntakeMark } from "./intakes";
+import { MED_SELECT } from "./meds";
+import { isDueOn, medOn, resolveLoggedTime, scheduleLabel, slotFor, timeLabel } from "./schedule";
+import type { Med, MedChange, MedVersion, SlotDef } from "./types";
+import { qtyLabel } from "./units";
+
+// ---------- Aderenza e storico ----------
+// Dosi previste in un periodo (con la prescrizione in vigore giorno per
+// giorno, farmaci archiviati compresi) confrontate con quanto registrato. Le dosi
+// saltate di proposito non contano né a favore né contro; quelle ancora da
+// dare (oggi, prima dell'orario) vengono ignorate.
+
+export type HistoryData = { meds: Med[]; marks: Record<string, IntakeMark>; changes: MedChange[] };
+
+/** Tutti i farmaci del paziente (anche archiviati), log del periodo e modifiche di terapia */
+export async function loadHistory(familyId: string, patientId: string, slots: SlotDef[], from: string, to: string): Promise<HistoryData> {
+  const [medsRes, logsRes, changesRes] = await Promise.all([
+    sb!.from("meds")
+      .select(MED_SELECT)
+      .eq("family_id", familyId)
+      .eq("patient_id", patientId)
+      .order("name"),
+    sb!.from("intake_logs")
+      .select("day,time_slot,med_id,taken,status,skip_reason,taken_at,updated_at,updated_by,note")
+      .eq("family_id", familyId)
+      .gte("day", from).lte("day", to),
+    sb!.from("med_changes")
+      .select("id,med_id,before,after,changed_at,changed_by,author:profiles(email)")
+      .eq("family_id", familyId)
+      .order("changed_at"),
+  ]);
+  if (medsRes.error) console.error("select meds (storico)", medsRes.error);
+  if (logsRes.error) console.error("select intake_logs (storico)", logsRes.error);
+  if (changesRes.error) console.error("select med_changes", changesRes.error);
+
+  const meds = (medsRes.data || []) as unknown as Med[];
+  const marks: Record<string, IntakeMark> = {};
+  // log e modifiche sono di famiglia: restano solo quelli dei farmaci del paziente
+  const mine = new Set(meds.map(m => m.id));
+  (logsRes.data || []).filter((r: { med_id: string }) => mine.has(r.med_id)).forEach((r: {
+    day: string; time_slot: string; med_id: string; taken: boolean; status: "taken" | "skipped" | null;
+    skip_reason: string | null; taken_at: string | null; updated_at: string | null; updated_by: string | null; note: string | null;
+  }) => {
+    const status = r.status ?? (r.taken ? "taken" : null);
+    if (!status) return;
+    const time = resolveLoggedTime(r.time_slot, meds.find(m => m.id === r.med_id), slots);
+    marks[`${r.day}|${time}|${r.med_id}`] = {
+      status, by: r.updated_by, at: r.taken_at || r.updated_at, note: r.note, reason: r.skip_reason,
+    };
+  });
+  const changes = ((changesRes.data || []) as unknown as MedChange[]).filter(c => mine.has(c.med_id));
+  return { meds, marks, changes };
+}
+
+/** Il farmaco esisteva (e non era archiviato) quel giorno? */
+function activeOn(m: Med, day: string): boolean {
+  if (m.created_at && day < dayOfInstant(m.created_at)) return false;
+  if (m.archived_at && day >= dayOfInstant(m.archived_at)) return false;
+  return true;
+}
+
+export type Tally = { taken: number; late: number; skipped: number; missed: number };
+const emptyTally = (): Tally => ({ taken: 0, late: 0, skipped: 0, missed: 0 });
+
+/** % di dosi date (anche in ritardo) su quelle dovute; null se non c'era nulla da dare */
+export function adherencePct(t: Tally): number | null {
+  const due = t.taken + t.late + t.missed;
+  return due ? Math.round((100 * (t.taken + t.late)) / due) : null;
+}
+
+export type AdherenceReport = {
+  overall: Tally;
+  byMed: { med: Med; tally: Tally }[];
+  byDay: Record<string, Tally>;
+  /** fasce/orari con più dosi non date, dal peggiore */
+  bySlot: { slot: string; time: string; tally: Tally }[];
+  /** giorni consecutivi senza dosi mancate, fino a `to` */
+  streak: number;
+  bestStreak: number;
+  /** singole dosi non date / saltate, in ordine di giorno e orario */
+  missedDoses: { day: string; time: string; med: Med }[];
+  skippedDoses: { day: string; time: string; med: Med; reason: string | null }[];
+};
+
+export function computeAdherence(data: HistoryData, slots: SlotDef[], from: string, to: string, now: number): AdherenceReport {
+  const overall = emptyTally();
+  const byMed = new Map<string, Tally>();
+  const byDay: Record<string, Tally> = {};
+  const bySlot = new Map<string, { slot: string; time: string; tally: Tally }>();
+  const missedDoses: AdherenceReport["missedDoses"] = [];
+  const skippedDoses: AdherenceReport["skippedDoses"] = [];
+
+  for (let i = 0, n = daysBetweenISO(from, to); i <= n; i++) {
+    const day = addDaysISO(from, i);
+    const dayTally = (byDay[day] = emptyTally());
+    data.meds.forEach(base => {
+      if (!activeOn(base, day)) return;
+      const m = medOn(base, day);
+      if (!isDueOn(m, day)) return;
+      (m.doses || []).forEach(dose => {
+        const mark = data.marks[`${day}|${dose.time}|${m.id}`];
+        const status = doseStatus(mark, day, dose.time, now);
+        if (status === "pending") return;
+        if (status === "missed") missedDoses.push({ day, time: dose.time, med: base });
+        if (status === "skipped") skippedDoses.push({ day, time: dose.time, med: base, reason: mark?.reason ?? null });
+        const slot = slotFor(dose.time, slots).name;
+        const slotKey = `${slot}|${dose.time}`;
+        if (!bySlot.has(slotKey)) bySlot.set(slotKey, { slot, time: dose.time, tally: emptyTally() });
+        if (!byMed.has(m.id)) byMed.set(m.id, emptyTally());
+        [overall, dayTally, byMed.get(m.id)!, bySlot.get(slotKey)!.tally].forEach(t => { t[status]++; });
+      });
+    });
+  }
+
+  // serie: i giorni senza nulla di dovuto non la interrompono
+  let streak = 0, run = 0, bestStreak = 0, open = true;
+  for (let i = daysBetweenISO(from, to); i >= 0; i--) {
+    const t = byDay[addDaysISO(from, i)];
+    if (adherencePct(t) === null) continue;
+    if (t.missed === 0) { run++; if (open) streak = run; }
+    else { open = false; run = 0; }
+    bestStreak = Math.max(bestStreak, run);
+  }
+
+  return {
+    overall,
+    byMed: data.meds.filter(m => byMed.has(m.id)).map(med => ({ med, tally: byMed.get(med.id)! })),
+    byDay,
+    bySlot: [...bySlot.values()].sort((a, b) => b.tally.missed - a.tally.missed || a.time.localeCompare(b.time)),
+    streak,
+    bestStreak,
+    missedDoses: missedDoses.sort((a, b) => a.day.localeCompare(b.day) || a.time.localeCompare(b.time)),
+    skippedDoses: skippedDoses.sort((a, b) => a.day.localeCompare(b.day) || a.time.localeCompare(b.time)),
+  };
+}
+
+type Therapy = Pick<Med, "dosage" | "doses" | "schedule">;
+
+/** Differenze di terapia in righe leggibili ("Orari: h 8 1 cpr → h 8 ½ cpr") */
+export function describeTherapy(b: Therapy | null, a: Therapy, unit: Pick<Med, "unit">): string[] {
+  const doses = (t: Therapy) => (t.doses || []).map(d => `${timeLabel(d.time)} ${qtyLabel(d.qty, unit)}`).join(", ") || "—";
+  if (!b) return [`${a.dosage ? `${a.dosage} · ` : ""}${doses(a)} · ${scheduleLabel(a.schedule)}`];
+  const out: string[] = [];
+  if ((b.dosage || "") !== (a.dosage || "")) out.push(`Dosaggio: ${b.dosage || "—"} → ${a.dosage || "—"}`);
+  if (doses(b) !== doses(a)) out.push(`Orari: ${doses(b)} → ${doses(a)}`);
+  if (scheduleLabel(b.schedule) !== scheduleLabel(a.schedule)) out.push(`Ricorrenza: ${scheduleLabel(b.schedule)} → ${scheduleLabel(a.schedule)}`);
+  else if (JSON.stringify(b.schedule) !== JSON.stringify(a.schedule)) out.push("Ricorrenza/scalaggio modificati");
+  return out;
+}
+
+/** Versioni di un farmaco dalla più recente, ognuna con cosa cambia rispetto alla precedente */
+export function versionLog(m: Med): { version: MedVersion; lines: string[] }[] {
+  const sorted = [...(m.versions || [])].sort((a, b) =>
+    a.effective_from.localeCompare(b.effective_from) || a.created_at.localeCompare(b.created_at));
+  return sorted.map((v, i) => {
+    const lines = describeTherapy(sorted[i - 1] ?? null, v, m);
+    return { version: v, lines: lines.length ? lines : ["Terapia confermata"] };
+  }).reverse();
+}
+
+export type TimelineItem = {
+  key: string; date: string; med: Med; lines: string[];
+  prescriber: string | null; note: string | null; who: string | null;
+};
+
+/** Cronologia del periodo: nuove prescrizioni, archiviazioni e cambi di nome, dalla più recente */
+export function therapyTimeline(data: HistoryData, from: string, to: string): TimelineItem[] {
+  const inRange = (d: string) => d >= from && d <= to;
+  const items: TimelineItem[] = data.meds.flatMap(med => versionLog(med)
+    .filter(({ version }) => inRange(version.effective_from))
+    .map(({ version: v, lines }) => ({
+      key: v.id, date: v.effective_from, med, lines,
+      prescriber: v.prescriber, note: v.note, who: v.author?.email ?? null,
+    })));
+  data.changes.forEach(c => {
+    const med = data.meds.find(m => m.id === c.med_id);
+    const date = dayOfInstant(c.changed_at);
+    if (!med || !c.before || !inRange(date)) return;
+    const lines: string[] = [];
+    if (c.before.archived !== c.after.archived) lines.push(c.after.archived ? "Archiviato" : "Ripristinato");
+    if (c.before.name !== c.after.name) lines.push(`Nome: ${c.before.name} → ${c.after.name}`);
+    if (lines.length) items.push({ key: c.id, date, med, lines, prescriber: null, note: null, who: c.author?.email ?? null });
+  });
+  return items.sort((a, b) => b.date.localeCompare(a.date));
+}
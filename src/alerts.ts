@@ -0,0 +1,49 @@
+import { sb } from "./supabase";
+
+// ---------- Avvisi scorte ----------
+// Il server (refresh_stock_alerts) decide quali avvisi sono aperti: sotto
+// soglia ('low') o copertura sotto N giorni ('runout'). Push e riepilogo
+// email li manda la funzione edge stock-alerts; qui si leggono e si segnano
+// come visti o posticipati, così non si ripresentano a ogni caricamento.
+
+export type AlertKind = "low" | "runout";
+export type StockAlert = {
+  med_id: string; kind: AlertKind; total: number; days_left: number | null;
+  opened_at: string; acked_at: string | null; snoozed_until: string | null;
+};
+
+export const ALERT_LABELS: Record<AlertKind, string> = { low: "sotto soglia", runout: "in esaurimento" };
+export const SNOOZE_OPTIONS = [
+  { hours: 24, label: "1 giorno" },
+  { hours: 24 * 3, label: "3 giorni" },
+  { hours: 24 * 7, label: "1 settimana" },
+];
+
+/**
+ * Ricalcola gli avvisi dei farmaci indicati (null = tutti, [] = nessuno) e
+ * restituisce quelli aperti della famiglia. Il ricalcolo completo lo fa ogni
+ * ora la funzione edge: dal client solo i farmaci cambiati.
+ */
+export async function refreshStockAlerts(familyId: string, medIds: string[] | null): Promise<StockAlert[]> {
+  const { data, error } = await sb!.rpc("refresh_stock_alerts", { p_family: familyId, p_med_ids: medIds });
+  if (error) console.error("rpc refresh_stock_alerts", error);
+  return (data || []) as StockAlert[];
+}
+
+/** Avvisi da mostrare: non ancora visti e non posticipati */
+export const pendingAlerts = (alerts: StockAlert[], now = Date.now()) =>
+  alerts.filter(a => !a.acked_at && !(a.snoozed_until && Date.parse(a.snoozed_until) > now));
+
+/** "Visto": non si ripresenta finché la scorta non torna sopra e poi riscende */
+export async function ackStockAlert(a: Pick<StockAlert, "med_id" | "kind">) {
+  const { error } = await sb!.rpc("ack_stock_alert", { p_med_id: a.med_id, p_kind: a.kind });
+  if (error) console.error("rpc ack_stock_alert", error);
+  return error;
+}
+
+export async function snoozeStockAlert(a: Pick<StockAlert, "med_id" | "kind">, hours: number) {
+  const until = new Date(Date.now() + hours * 3600_000).toISOString();
+  const { error } = await sb!.rpc("ack_stock_alert", { p_med_id: a.med_id, p_kind: a.kind, p_snooze_until: until });
+  if (error) console.error("rpc ack_stock_alert (posticipa)", error);
+  return error;
+}
@@ -0,0 +1,91 @@
+import { sb } from "./supabase";
+import { addDaysISO, dayOfInstant } from "./dates";
+import { MED_SELECT } from "./meds";
+import type { Med } from "./types";
+
+// ---------- Archiviati e cestino ----------
+// Archiviare toglie il farmaco dal planner e azzera le scorte con una
+// correzione; ripristinare le ricrea (di default le quantità tolte allora).
+// "Elimina" sposta nel cestino: dopo TRASH_DAYS il server (purge_expired_meds)
+// cancella farmaco e storico.
+
+export const TRASH_DAYS = 30;
+/** motivo delle correzioni scritte da archive_med (stesso testo sul server) */
+const ARCHIVE_REASON = "Archiviazione farmaco";
+
+export type ArchivedMed = Med & {
+  /** quantità azzerate all'archiviazione (proposte al ripristino) */
+  zeroed: { box: number; dispensa: number };
+  lastIntake: string | null; intakeCount: number;
+};
+
+/** Farmaci archiviati della famiglia (cestino compreso), dal più recente */
+export async function loadArchived(familyId: string): Promise<ArchivedMed[]> {
+  const { data, error } = await sb!.from("meds")
+    .select(MED_SELECT)
+    .eq("family_id", familyId)
+    .eq("archived", true)
+    .order("archived_at", { ascending: false });
+  if (error) console.error("select meds (archiviati)", error);
+  const meds = (data || []) as unknown as Med[];
+  if (meds.length === 0) return [];
+  const ids = meds.map(m => m.id);
+
+  const [movesRes, logsRes] = await Promise.all([
+    sb!.from("stock_movements").select("med_id,location,delta,created_at").in("med_id", ids).eq("reason", ARCHIVE_REASON),
+    sb!.from("intake_logs").select("med_id,day").in("med_id", ids).eq("status", "taken"),
+  ]);
+  if (movesRes.error) console.error("select stock_movements (archiviazione)", movesRes.error);
+  if (logsRes.error) console.error("select intake_logs (archiviati)", logsRes.error);
+
+  return meds.map(m => {
+    // solo le correzioni dell'ultima archiviazione (un minuto di margine)
+    const since = m.archived_at ? new Date(m.archived_at).getTime() - 60_000 : 0;
+    const zeroed = { box: 0, dispensa: 0 };
+    (movesRes.data || []).forEach((r: { med_id: string; location: string; delta: number; created_at: string }) => {
+      if (r.med_id !== m.id || new Date(r.created_at).getTime() < since) return;
+      if (r.location === "Box") zeroed.box -= Number(r.delta);
+      if (r.location === "Dispensa") zeroed.dispensa -= Number(r.delta);
+    });
+    const days = (logsRes.data || []).filter((r: { med_id: string }) => r.med_id === m.id).map((r: { day: string }) => r.day).sort();
+    return { ...m, zeroed, lastIntake: days[days.length - 1] ?? null, intakeCount: days.length };
+  });
+}
+
+/** Giorno in cui il cestino cancellerà il farmaco */
+export const purgeDay = (m: Pick<Med, "deleted_at">) => (m.deleted_at ? addDaysISO(dayOfInstant(m.deleted_at), TRASH_DAYS) : null);
+
+/** Archivia: fuori dal planner, scorte azzerate (resta traccia nei movimenti); un'unica transazione */
+export async function archiveMed(m: Med) {
+  const { error } = await sb!.rpc("archive_med", { p_med_id: m.id });
+  if (error) console.error("rpc archive_med", error);
+  return error;
+}
+
+/** Nel cestino: se era attivo viene prima archiviato */
+export async function trashMed(m: Med) {
+  const { error } = await sb!.rpc("archive_med", { p_med_id: m.id, p_trash: true });
+  if (error) console.error("rpc archive_med (cestino)", error);
+  return error;
+}
+
+/** Dal cestino torna tra gli archiviati */
+export async function untrashMed(m: Med) {
+  const { error } = await sb!.from("meds").update({ deleted_at: null }).eq("id", m.id);
+  if (error) console.error("update meds (recupera dal cestino)", error);
+  return error;
+}
+
+/** Torna attivo con le scorte indicate (correzioni "Ripristino farmaco"), in un'unica transazione */
+export async function restoreMed(m: Med, stock: { box: number; dispensa: number }) {
+  const { error } = await sb!.rpc("restore_med", { p_med_id: m.id, p_box: stock.box, p_dispensa: stock.dispensa });
+  if (error) console.error("rpc restore_med", error);
+  return error;
+}
+
+/** Cancellazione definitiva (solo dal cestino, solo admin) */
+export async function purgeMed(medId: string) {
+  const { error } = await sb!.rpc("purge_med", { p_med_id: medId });
+  if (error) console.error("rpc purge_med", error);
+  return error;
+}
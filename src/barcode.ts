@@ -0,0 +1,173 @@
+import { sb } from "./supabase";
+
+// ---------- Scansione confezioni (AIC / GS1) ----------
+// Le confezioni italiane hanno il bollino con il codice AIC (Code 39 in
+// formato "Code 32") e spesso un DataMatrix GS1 con GTIN, lotto e scadenza.
+// Si legge con il BarcodeDetector del browser; dove manca (Firefox, Safari)
+// con zxing, caricato solo al bisogno.
+
+/** Codice letto: format nei nomi del BarcodeDetector ("code_39", "data_matrix"…) */
+export type RawCode = { format: string; text: string };
+
+export type ScannedPack = {
+  /** chiavi per med_codes ("AIC:012345678", "GTIN:08012345678901") */
+  codes: string[];
+  aic?: string; gtin?: string; lot?: string; expiresOn?: string;
+};
+
+const FORMATS = ["data_matrix", "code_39", "code_128", "ean_13", "qr_code"];
+
+type Detector = { detect(source: ImageBitmapSource): Promise<{ format: string; rawValue: string }[]> };
+type DetectorClass = { new (opts: { formats: string[] }): Detector; getSupportedFormats(): Promise<string[]> };
+
+let detector: Promise<Detector | null> | null = null;
+/** BarcodeDetector nativo, se legge almeno il bollino AIC */
+function nativeDetector() {
+  detector ||= (async () => {
+    const Native = (window as unknown as { BarcodeDetector?: DetectorClass }).BarcodeDetector;
+    if (!Native) return null;
+    const supported = await Native.getSupportedFormats().catch(() => [] as string[]);
+    const formats = FORMATS.filter(f => supported.includes(f));
+    return formats.includes("code_39") ? new Native({ formats }) : null;
+  })();
+  return detector;
+}
+
+async function zxingRead(canvas: HTMLCanvasElement): Promise<RawCode[]> {
+  const zx = await import("@zxing/library");
+  const { data, width, height } = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+
+  const hints = new Map<import("@zxing/library").DecodeHintType, unknown>([
+    [zx.DecodeHintType.POSSIBLE_FORMATS, [zx.BarcodeFormat.DATA_MATRIX, zx.BarcodeFormat.CODE_39, zx.BarcodeFormat.CODE_128, zx.BarcodeFormat.EAN_13, zx.BarcodeFormat.QR_CODE]],
+    [zx.DecodeHintType.TRY_HARDER, true],
+  ]);
+  try {
+    const bitmap = new zx.BinaryBitmap(new zx.HybridBinarizer(new zx.RGBLuminanceSource(gray, width, height)));
+    const r = new zx.MultiFormatReader().decode(bitmap, hints);
+    return [{ format: zx.BarcodeFormat[r.getBarcodeFormat()].toLowerCase(), text: r.getText() }];
+  } catch {
+    return []; // nessun codice in questo fotogramma
+  }
+}
+
+/** Codici presenti nell'immagine (fotogramma della fotocamera o foto caricata) */
+export async function readCodes(canvas: HTMLCanvasElement): Promise<RawCode[]> {
+  const native = await nativeDetector();
+  if (!native) return zxingRead(canvas);
+  const found = await native.detect(canvas).catch(e => { console.error("BarcodeDetector", e); return []; });
+  return found.map(c => ({ format: c.format, text: c.rawValue }));
+}
+
+// --- interpretazione ---
+
+const CODE32 = "0123456789BCDFGHJKLMNPQRSTUVWXYZ";
+
+/** AIC valido: 9 cifre, l'ultima è il controllo (cifre pari raddoppiate) */
+function validAic(aic: string) {
+  if (!/^\d{9}$/.test(aic)) return false;
+  let sum = 0;
+  for (let i = 0; i < 8; i++) {
+    const d = Number(aic[i]) * (i % 2 === 1 ? 2 : 1);
+    sum += d > 9 ? d - 9 : d;
+  }
+  return sum % 10 === Number(aic[8]);
+}
+
+/** Bollino: 6 caratteri in base 32 (Code 32), oppure già "A" + 9 cifre */
+export function aicFromCode39(text: string): string | null {
+  const t = text.trim().toUpperCase();
+  const plain = t.match(/^A?(\d{9})$/)?.[1];
+  if (plain) return validAic(plain) ? plain : null;
+  if (!/^[0-9B-DF-HJ-NP-TV-Z]{6}$/.test(t)) return null;
+  const n = [...t].reduce((acc, c) => acc * 32 + CODE32.indexOf(c), 0);
+  const aic = String(n).padStart(9, "0");
+  return validAic(aic) ? aic : null;
+}
+
+/** separatore dei campi a lunghezza variabile (FNC1) */
+const GS = "\u001d";
+/** AI GS1 a lunghezza fissa; gli altri arrivano fino al separatore (GS) */
+const GS1_FIXED: Record<string, number> = { "01": 14, "11": 6, "15": 6, "17": 6 };
+const GS1_VARIABLE = ["10", "21", "240", "710", "711", "712", "713", "714", "715"];
+
+/** "AAMMGG" GS1 → ISO; giorno 00 = fine mese */
+function gs1Date(yymmdd: string) {
+  const y = 2000 + Number(yymmdd.slice(0, 2));
+  const m = Number(yymmdd.slice(2, 4));
+  const d = Number(yymmdd.slice(4, 6)) || new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/** Campi GS1 (AI → valore) da DataMatrix/GS1-128, anche nella forma "(01)…(17)…" */
+export function parseGs1(raw: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  let text = raw.replace(/^\](d2|C1|Q3)/, "");
+  if (text.startsWith(GS)) text = text.slice(1);
+  if (text.startsWith("(")) {
+    for (const [, ai, value] of text.matchAll(/\((\d{2,4})\)([^(]*)/g)) out[ai] = value.trim();
+    return out;
+  }
+  let i = 0;
+  while (i < text.length) {
+    const ai = [text.slice(i, i + 2), text.slice(i, i + 3)].find(a => a in GS1_FIXED || GS1_VARIABLE.includes(a));
+    if (!ai) break; // AI non gestito: il resto non è interpretabile
+    i += ai.length;
+    if (ai in GS1_FIXED) {
+      out[ai] = text.slice(i, i + GS1_FIXED[ai]);
+      i += GS1_FIXED[ai];
+    } else {
+      const end = text.indexOf(GS, i);
+      out[ai] = text.slice(i, end < 0 ? undefined : end);
+      i = end < 0 ? text.length : end + 1;
+    }
+  }
+  return out;
+}
+
+/** Riunisce i codici letti sulla stessa confezione; null se nessuno la identifica */
+export function parsePack(found: RawCode[]): ScannedPack | null {
+  const pack: ScannedPack = { codes: [] };
+  for (const { format, text } of found) {
+    if (format === "code_39" || /^A\d{9}$/.test(text.trim())) {
+      pack.aic ||= aicFromCode39(text) ?? undefined;
+    } else if (format === "ean_13" && /^\d{13}$/.test(text)) {
+      pack.gtin ||= `0${text}`;
+    } else {
+      const gs1 = parseGs1(text);
+      if (gs1["01"]) pack.gtin ||= gs1["01"];
+      if (gs1["10"]) pack.lot ||= gs1["10"];
+      if (gs1["17"] && /^\d{6}$/.test(gs1["17"])) pack.expiresOn ||= gs1Date(gs1["17"]);
+      // AI 714: AIC nel DataMatrix delle confezioni italiane
+      const aic = gs1["714"]?.replace(/^A/, "");
+      if (aic && validAic(aic)) pack.aic ||= aic;
+    }
+  }
+  if (pack.aic) pack.codes.push(`AIC:${pack.aic}`);
+  if (pack.gtin) pack.codes.push(`GTIN:${pack.gtin}`);
+  return pack.codes.length > 0 ? pack : null;
+}
+
+export const packLabel = (p: ScannedPack) =>
+  [p.aic && `AIC ${p.aic}`, !p.aic && p.gtin && `GTIN ${p.gtin}`, p.lot && `lotto ${p.lot}`, p.expiresOn && `scad. ${p.expiresOn}`]
+    .filter(Boolean).join(" · ");
+
+// --- collegamento ai farmaci ---
+
+/** Farmaci della famiglia collegati a uno dei codici (con error la ricerca non è riuscita, es. offline) */
+export async function medIdsForCodes(familyId: string, codes: string[]) {
+  if (codes.length === 0) return { ids: [] as string[], error: null };
+  const { data, error } = await sb!.from("med_codes").select("med_id").eq("family_id", familyId).in("code", codes);
+  if (error) console.error("select med_codes", error);
+  return { ids: [...new Set((data || []).map((r: { med_id: string }) => r.med_id))], error };
+}
+
+/** Collega i codici al farmaco (quelli già collegati si ignorano) */
+export async function linkMedCodes(familyId: string, medId: string, codes: string[]) {
+  if (codes.length === 0) return null;
+  const { error } = await sb!.from("med_codes")
+    .upsert(codes.map(code => ({ family_id: familyId, med_id: medId, code })), { onConflict: "med_id,code", ignoreDuplicates: true });
+  if (error) console.error("upsert med_codes", error);
+  return error;
+}
@@ -0,0 +1,310 @@
+import { sb } from "./supabase";
+import { stampOfInstant } from "./dates";
+import { MED_SELECT } from "./meds";
+import { DAILY, LEGACY_SLOT_TIMES, mergeDoses, normalizeTime, scheduleError, sortDoses } from "./schedule";
+import { loadStocks, recordMovements } from "./stock";
+import type { DoseTime, Med, MedUnit, Patient, Schedule, StocksMap } from "./types";
+import { UNITS } from "./units";
+
+// ---------- Import / export dati ----------
+// Export di famiglia (farmaci, scorte, assunzioni) in JSON per backup e in
+// CSV per i fogli di calcolo (";" e BOM: Excel italiano li apre già divisi).
+// Import: file JSON/CSV dell'export oppure testo libero, una riga per farmaco
+// ("Bisoprololo 1.25 mg 1 compressa h 8"), con anteprima ed errori per riga.
+
+// ---------- CSV ----------
+const SEP = ";";
+
+function csvCell(v: unknown): string {
+  const s = v === null || v === undefined ? "" : String(v);
+  return /[";\n\r,]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return "\uFEFF" + [header, ...rows].map(r => r.map(csvCell).join(SEP)).join("\r\n");
+}
+
+/** CSV con ";" o "," (si guarda la prima riga), campi tra virgolette compresi */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const first = src.split(/\r?\n/, 1)[0];
+  const sep = (first.match(/;/g) || []).length >= (first.match(/,/g) || []).length ? ";" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [], cell = "", quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === sep) { row.push(cell); cell = ""; }
+    else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell); rows.push(row); row = []; cell = "";
+    } else cell += c;
+  }
+  if (cell || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+/** Scarica un file generato nel browser */
+export function downloadFile(name: string, content: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ---------- Export ----------
+export type IntakeExportRow = {
+  day: string; time_slot: string; med_id: string; status: string | null; taken: boolean;
+  skip_reason: string | null; taken_at: string | null; note: string | null;
+};
+export type FamilyExport = {
+  exported_at: string; patients: Patient[]; meds: Med[]; stocks: StocksMap; intake_logs: IntakeExportRow[];
+};
+
+export async function loadFamilyExport(familyId: string): Promise<FamilyExport> {
+  const [patientsRes, medsRes, logsRes] = await Promise.all([
+    sb!.from("patients").select("id,family_id,name,created_at").eq("family_id", familyId).order("name"),
+    sb!.from("meds").select(MED_SELECT).eq("family_id", familyId).order("name"),
+    sb!.from("intake_logs")
+      .select("day,time_slot,med_id,status,taken,skip_reason,taken_at,note")
+      .eq("family_id", familyId)
+      .order("day").order("time_slot"),
+  ]);
+  if (patientsRes.error) throw patientsRes.error;
+  if (medsRes.error) throw medsRes.error;
+  if (logsRes.error) throw logsRes.error;
+  const meds = (medsRes.data || []) as unknown as Med[];
+  return {
+    exported_at: new Date().toISOString(),
+    patients: (patientsRes.data || []) as Patient[],
+    meds,
+    stocks: await loadStocks(meds.map(m => m.id)),
+    intake_logs: (logsRes.data || []) as IntakeExportRow[],
+  };
+}
+
+/** "08:00=1|21:00=0.5" */
+const dosesText = (doses: DoseTime[]) => (doses || []).map(d => `${d.time}=${d.qty}`).join("|");
+
+export const MED_CSV_HEADER = ["paziente", "nome", "dosaggio", "unita", "orari", "ricorrenza", "soglia", "pezzi_confezione", "box", "dispensa", "archiviato"];
+
+const patientNames = (x: FamilyExport) => Object.fromEntries(x.patients.map(p => [p.id, p.name]));
+
+export function medsCsv(x: FamilyExport): string {
+  const who = patientNames(x);
+  return toCsv(MED_CSV_HEADER, x.meds.map(m => [
+    who[m.patient_id] || "", m.name, m.dosage, m.unit, dosesText(m.doses), m.schedule ? JSON.stringify(m.schedule) : "",
+    m.threshold, m.pack_size, x.stocks[m.id]?.box ?? 0, x.stocks[m.id]?.dispensa ?? 0, m.archived ? "si" : "no",
+  ]));
+}
+
+export function stocksCsv(x: FamilyExport): string {
+  const who = patientNames(x);
+  return toCsv(["paziente", "farmaco", "dosaggio", "unita", "box", "dispensa"], x.meds.map(m => [
+    who[m.patient_id] || "", m.name, m.dosage, m.unit, x.stocks[m.id]?.box ?? 0, x.stocks[m.id]?.dispensa ?? 0,
+  ]));
+}
+
+export function intakesCsv(x: FamilyExport): string {
+  const who = patientNames(x);
+  const byId = Object.fromEntries(x.meds.map(m => [m.id, m]));
+  return toCsv(["giorno", "orario", "paziente", "farmaco", "stato", "ora_reale", "motivo_salto", "nota"], x.intake_logs.map(r => [
+    r.day, r.time_slot, who[byId[r.med_id]?.patient_id] || "", byId[r.med_id]?.name || r.med_id, r.status ?? (r.taken ? "taken" : ""), r.taken_at ? stampOfInstant(r.taken_at) : "", r.skip_reason, r.note,
+  ]));
+}
+
+// ---------- Import ----------
+export type ParsedMed = {
+  name: string; dosage: string | null; unit: MedUnit; doses: DoseTime[]; schedule: Schedule;
+  threshold: number; pack_size: number | null; box: number; dispensa: number;
+};
+export type ImportRow = {
+  line: number; source: string; med: ParsedMed | null; errors: string[];
+  /** già presente tra i farmaci della famiglia o ripetuto più sopra nel file */
+  duplicate: boolean;
+};
+
+const UNIT_WORDS: [RegExp, MedUnit][] = [
+  [/^(compress[ae]|cpr|cp)$/i, "tablet"],
+  [/^(capsul[ae]|cps)$/i, "capsule"],
+  [/^(gocci[ae]|gocce|gtt)$/i, "drops"],
+  [/^ml$/i, "ml"],
+  [/^(bustin[ae]|bust\.?)$/i, "sachet"],
+  [/^(iniezion[ei]|fial[ae]|puntur[ae])$/i, "injection"],
+];
+function unitFrom(word: string): MedUnit | null {
+  const w = word.trim();
+  if ((UNITS as string[]).includes(w)) return w as MedUnit;
+  return UNIT_WORDS.find(([re]) => re.test(w))?.[1] ?? null;
+}
+
+const WORD_QTY: Record<string, number> = { mezza: 0.5, mezzo: 0.5, "½": 0.5, "¼": 0.25, "¾": 0.75, un: 1, una: 1, uno: 1, "1/2": 0.5, "1/4": 0.25, "3/4": 0.75 };
+const num = (s: string) => WORD_QTY[s.toLowerCase()] ?? Number(s.replace(",", "."));
+
+const QTY_RE = /(\d+(?:[.,]\d+)?|½|¼|¾|1\/2|1\/4|3\/4|mezza|mezzo|una|uno|un)\s*(compress[ae]|cpr|cp|capsul[ae]|cps|gocci[ae]|gocce|gtt|ml|bustin[ae]|bust\.?|iniezion[ei]|fial[ae]|puntur[ae])(?![a-z])/i;
+/** dosaggio, anche delle associazioni ("5+50 mg") */
+const DOSAGE_RE = /(\d+(?:[.,]\d+)?(?:\s*\+\s*\d+(?:[.,]\d+)?)*)\s*(mg\/ml|mg|mcg|µg|g|ui|u\.i\.|%)(?![a-z])/i;
+/** formulazione scritta dopo il dosaggio ("750 mg RP"): fa parte del nome */
+const FORM_RE = /^\s*(rp|retard|lp|sr|xr|cr|er|rm|mite|forte)(?![a-z])/i;
+const TIMES_RE = /\b(?:h|ore|alle)\s*(\d{1,2}(?:[:.]\d{2})?(?:\s*(?:,|e|\/|-|\+)\s*\d{1,2}(?:[:.]\d{2})?)*)/gi;
+const WORD_TIMES: Record<string, string> = {
+  mattina: LEGACY_SLOT_TIMES.Mattina, pranzo: LEGACY_SLOT_TIMES.Mezzogiorno,
+  mezzogiorno: LEGACY_SLOT_TIMES.Mezzogiorno, sera: LEGACY_SLOT_TIMES.Sera,
+};
+
+/** "Bisoprololo 1.25 mg 1 compressa h 8 e 20" → farmaco; errori leggibili se manca qualcosa */
+export function parseMedLine(text: string): { med: ParsedMed | null; errors: string[] } {
+  const src = text.trim().replace(/^([-•*]|\d+[.)])\s+/, "");
+  const errors: string[] = [];
+  const cuts: number[] = [];
+
+  const times: string[] = [];
+  for (const m of src.matchAll(TIMES_RE)) {
+    cuts.push(m.index!);
+    m[1].split(/\s*(?:,|e|\/|-|\+)\s*/).forEach(raw => {
+      const t = normalizeTime(raw);
+      if (t) times.push(t); else errors.push(`orario non valido: "${raw}"`);
+    });
+  }
+  for (const [word, t] of Object.entries(WORD_TIMES)) {
+    const m = new RegExp(`\\b${word}\\b`, "i").exec(src);
+    if (m) { cuts.push(m.index); times.push(t); }
+  }
+
+  const q = QTY_RE.exec(src);
+  let qty = 1;
+  let unit: MedUnit = "tablet";
+  if (q) {
+    cuts.push(q.index);
+    qty = num(q[1]);
+    unit = unitFrom(q[2]) || "tablet";
+    if (!(qty > 0)) errors.push(`quantità non valida: "${q[1]}"`);
+  }
+
+  const d = DOSAGE_RE.exec(src);
+  if (d) cuts.push(d.index);
+  const dosage = d ? `${d[1].replace(/,/g, ".").replace(/\s+/g, "")} ${d[2].toLowerCase()}` : null;
+  const form = d ? FORM_RE.exec(src.slice(d.index + d[0].length))?.[1] : undefined;
+
+  const name = [src.slice(0, cuts.length ? Math.min(...cuts) : src.length).replace(/[\s,;:–-]+$/, "").trim(), form]
+    .filter(Boolean).join(" ");
+  if (!name) errors.push("manca il nome del farmaco");
+  if (times.length === 0) errors.push("manca l'orario (es. h 8)");
+
+  const uniq = [...new Set(times)];
+  if (errors.length) return { med: null, errors };
+  return {
+    med: {
+      name, dosage, unit, doses: sortDoses(uniq.map(time => ({ time, qty }))), schedule: DAILY,
+      threshold: 10, pack_size: null, box: 0, dispensa: 0,
+    },
+    errors,
+  };
+}
+
+/** Riga CSV dell'export (o compatibile) → farmaco */
+function parseCsvMed(cols: Record<string, string>): { med: ParsedMed | null; errors: string[] } {
+  const errors: string[] = [];
+  const name = (cols.nome || cols.name || "").trim();
+  if (!name) errors.push("manca il nome del farmaco");
+  const unit = unitFrom(cols.unita || cols.unit || "tablet");
+  if (!unit) errors.push(`unità sconosciuta: "${cols.unita || cols.unit}"`);
+  const doses: DoseTime[] = [];
+  (cols.orari || cols.doses || "").split("|").filter(s => s.trim()).forEach(part => {
+    const [rawTime, rawQty] = part.split("=");
+    const time = normalizeTime(rawTime || "");
+    const qty = rawQty === undefined ? 1 : num(rawQty.trim());
+    if (!time) errors.push(`orario non valido: "${rawTime}"`);
+    else if (!(qty > 0)) errors.push(`quantità non valida: "${rawQty}"`);
+    else doses.push({ time, qty });
+  });
+  if (doses.length === 0 && !errors.some(e => e.startsWith("orario"))) errors.push("manca l'orario (colonna orari, es. 08:00=1|21:00=0.5)");
+  let schedule: Schedule = DAILY;
+  if (cols.ricorrenza?.trim()) {
+    try { schedule = JSON.parse(cols.ricorrenza) as Schedule; } catch { errors.push("ricorrenza non leggibile"); }
+    const scheduleErr = scheduleError(schedule);
+    if (scheduleErr) errors.push(scheduleErr);
+  }
+  const n = (v: string | undefined, def: number) => (v && v.trim() !== "" && !Number.isNaN(num(v)) ? num(v) : def);
+  if (errors.length) return { med: null, errors };
+  return {
+    med: {
+      name, dosage: (cols.dosaggio || cols.dosage || "").trim() || null, unit: unit!, doses: mergeDoses(doses), schedule,
+      threshold: n(cols.soglia, 10), pack_size: cols.pezzi_confezione?.trim() ? n(cols.pezzi_confezione, 0) || null : null,
+      box: n(cols.box, 0), dispensa: n(cols.dispensa, 0),
+    },
+    errors,
+  };
+}
+
+/** Chiave per riconoscere lo stesso farmaco: nome + dosaggio, senza maiuscole/spazi */
+export const medKey = (name: string, dosage: string | null) =>
+  `${name.toLowerCase().replace(/\s+/g, " ").trim()}|${(dosage || "").toLowerCase().replace(/\s+/g, "").replace(",", ".")}`;
+
+/** Riconosce JSON dell'export, CSV con intestazione o testo libero */
+export function parseImport(text: string, existing: Med[]): ImportRow[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  let rows: { source: string; parsed: { med: ParsedMed | null; errors: string[] } }[];
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let json: unknown;
+    try { json = JSON.parse(trimmed); } catch { return [{ line: 1, source: trimmed.slice(0, 60), med: null, errors: ["JSON non valido"], duplicate: false }]; }
+    const exp = json as Partial<FamilyExport>;
+    const meds = (Array.isArray(json) ? json : exp.meds || []) as Partial<Med>[];
+    rows = meds.filter(m => !m.archived).map(m => ({
+      source: m.name || "?",
+      parsed: parseCsvMed({
+        nome: m.name || "", dosaggio: m.dosage || "", unita: m.unit || "tablet", orari: dosesText(m.doses || []),
+        ricorrenza: m.schedule ? JSON.stringify(m.schedule) : "", soglia: String(m.threshold ?? 10),
+        pezzi_confezione: m.pack_size ? String(m.pack_size) : "",
+        box: String(m.id && exp.stocks?.[m.id]?.box || 0), dispensa: String(m.id && exp.stocks?.[m.id]?.dispensa || 0),
+      }),
+    }));
+  } else {
+    const table = parseCsv(trimmed);
+    const header = table[0]?.map(h => h.trim().toLowerCase());
+    if (header && (header.includes("nome") || header.includes("name")) && (header.includes("orari") || header.includes("doses"))) {
+      rows = table.slice(1)
+        .map(r => Object.fromEntries(header.map((h, i) => [h, r[i] ?? ""])))
+        .filter(cols => (cols.archiviato || "").toLowerCase() !== "si")
+        .map(cols => ({ source: Object.values(cols).join("; "), parsed: parseCsvMed(cols) }));
+    } else {
+      rows = trimmed.split(/\r?\n/).filter(l => l.trim()).map(l => ({ source: l.trim(), parsed: parseMedLine(l) }));
+    }
+  }
+
+  const seen = new Set(existing.map(m => medKey(m.name, m.dosage)));
+  return rows.map(({ source, parsed }, i) => {
+    const key = parsed.med ? medKey(parsed.med.name, parsed.med.dosage) : null;
+    const duplicate = !!key && seen.has(key);
+    if (key) seen.add(key);
+    return { line: i + 1, source, med: parsed.med, errors: parsed.errors, duplicate };
+  });
+}
+
+/** Crea i farmaci scelti per il paziente (una insert) e le scorte iniziali; ritorna quanti ne ha creati */
+export async function importMeds(familyId: string, patientId: string, meds: ParsedMed[]) {
+  if (meds.length === 0) return { created: 0, error: null };
+  const { data, error } = await sb!.from("meds")
+    .insert(meds.map(m => ({
+      family_id: familyId, patient_id: patientId, name: m.name, dosage: m.dosage, doses: m.doses, schedule: m.schedule,
+      unit: m.unit, pack_size: m.pack_size, threshold: m.threshold, archived: false,
+    })))
+    .select("id");
+  if (error) { console.error("insert meds (import)", error); return { created: 0, error }; }
+  const ids = (data || []) as { id: string }[];
+  const movError = await recordMovements(familyId, ids.flatMap(({ id }, i) => [
+    { med_id: id, location: "Box" as const, delta: meds[i].box, kind: "correction" as const, reason: "Importazione" },
+    { med_id: id, location: "Dispensa" as const, delta: meds[i].dispensa, kind: "correction" as const, reason: "Importazione" },
+  ]));
+  return { created: ids.length, error: movError };
+}
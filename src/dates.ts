@@ -0,0 +1,87 @@
+// ---------- Date (stringhe ISO "YYYY-MM-DD") ----------
+// I giorni sono giorni di calendario nel fuso della famiglia (families.timezone),
+// non in UTC: con toISOString() tra mezzanotte e l'1/le 2 in Italia "oggi"
+// era ancora ieri. La "giornata di cura" può finire dopo mezzanotte
+// (families.day_cutoff): con cutoff 03:00 una dose delle 00:30 appartiene
+// alla sera prima, e fino alle 03:00 "oggi" resta il giorno prima.
+// L'aritmetica sui giorni lavora su date pure (UTC a mezzanotte), quindi non
+// risente dei cambi d'ora.
+
+export type CalendarSettings = { timeZone: string; cutoff: string };
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "Europe/Rome";
+let calendar: CalendarSettings = { timeZone: deviceTimeZone(), cutoff: "00:00" };
+
+/** Imposta fuso e fine giornata della famiglia (finché non si caricano vale il fuso del dispositivo) */
+export function setCalendar(next: Partial<CalendarSettings>) {
+  calendar = { timeZone: next.timeZone || calendar.timeZone, cutoff: next.cutoff || calendar.cutoff };
+}
+export const calendarSettings = () => calendar;
+
+const toMin = (hm: string) => Number(hm.slice(0, 2)) * 60 + Number(hm.slice(3, 5) || 0);
+const pad = (n: number) => String(n).padStart(2, "0");
+const utcDay = (iso: string) => Date.UTC(Number(iso.slice(0, 4)), Number(iso.slice(5, 7)) - 1, Number(iso.slice(8, 10)));
+const isoOfUtc = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+const partsFmt = new Map<string, Intl.DateTimeFormat>();
+/** Giorno di calendario e minuti dalla mezzanotte di un istante, nel fuso indicato */
+function wallClock(at: number, timeZone = calendar.timeZone) {
+  let fmt = partsFmt.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-CA", {
+      timeZone, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit", hourCycle: "h23",
+    });
+    partsFmt.set(timeZone, fmt);
+  }
+  const p = Object.fromEntries(fmt.formatToParts(new Date(at)).map(x => [x.type, x.value]));
+  return { day: `${p.year}-${p.month}-${p.day}`, minutes: Number(p.hour) * 60 + Number(p.minute), seconds: Number(p.second) };
+}
+
+/** Giornata di cura a cui appartiene un istante (timestamp ISO, ms o Date) */
+export function dayOfInstant(at: string | number | Date): string {
+  const w = wallClock(new Date(at).getTime());
+  return w.minutes < toMin(calendar.cutoff) ? addDaysISO(w.day, -1) : w.day;
+}
+
+export const todayISO = () => dayOfInstant(Date.now());
+
+/** Istante (ms) dell'orario `time` della giornata di cura `day`, nel fuso della famiglia */
+export function instantOf(day: string, time: string): number {
+  const min = toMin(time);
+  const calDay = min < toMin(calendar.cutoff) ? addDaysISO(day, 1) : day;
+  const wall = utcDay(calDay) + min * 60_000;
+  // scarto del fuso calcolato due volte: regge anche a cavallo del cambio d'ora
+  let at = wall;
+  for (let i = 0; i < 2; i++) {
+    const w = wallClock(at);
+    at = wall - (utcDay(w.day) + w.minutes * 60_000 + w.seconds * 1000 - at);
+  }
+  return at;
+}
+
+/** Chiave d'ordinamento di un orario nella giornata di cura (prima del cutoff = in fondo) */
+export const careTimeKey = (time: string) => toMin(time) + (toMin(time) < toMin(calendar.cutoff) ? 1440 : 0);
+
+/** Ora "HH:MM" di un istante nel fuso della famiglia */
+export const timeOfInstant = (at: string | number | Date) => {
+  const m = wallClock(new Date(at).getTime()).minutes;
+  return `${pad(Math.floor(m / 60))}:${pad(m % 60)}`;
+};
+
+/** "YYYY-MM-DD HH:MM" di un istante nel fuso della famiglia (giorno di calendario, per esportazioni) */
+export const stampOfInstant = (at: string | number | Date) => `${wallClock(new Date(at).getTime()).day} ${timeOfInstant(at)}`;
+
+/** Data e ora brevi in italiano, nel fuso della famiglia */
+export const formatInstant = (at: string | number | Date) =>
+  new Date(at).toLocaleString("it-IT", { dateStyle: "short", timeStyle: "short", timeZone: calendar.timeZone });
+
+export const addDaysISO = (iso: string, n: number) => isoOfUtc(utcDay(iso) + n * 86400000);
+
+/** Lunedì della settimana di `iso` (di default: della giornata di oggi) */
+export const startOfWeekISO = (iso = todayISO()) => addDaysISO(iso, 1 - isoWeekday(iso));
+
+/** Giorni da `from` a `to` (negativo se `to` è prima) */
+export const daysBetweenISO = (from: string, to: string) => Math.round((utcDay(to) - utcDay(from)) / 86400000);
+
+/** Giorno della settimana ISO: 1 = lunedì … 7 = domenica */
+export const isoWeekday = (iso: string) => ((new Date(utcDay(iso)).getUTCDay() + 6) % 7) + 1;
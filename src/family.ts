@@ -0,0 +1,90 @@
+import { sb } from "./supabase";
+import type { CalendarSettings } from "./dates";
+import type { Profile } from "./types";
+
+// ---------- Famiglia: membri, inviti e ruoli ----------
+// Le modifiche a famiglia/ruolo passano dalle RPC (il server rifiuta gli
+// update diretti del profilo). I membri danno le dosi e muovono le scorte;
+// solo gli admin gestiscono farmaci, correzioni assolute e membri.
+
+export type Role = Profile["role"];
+export const ROLE_LABELS: Record<Role, string> = { admin: "Amministratore", member: "Membro" };
+
+export type FamilyMember = { id: string; email: string; role: Role };
+export type FamilyInvite = { id: string; email: string; role: Role; created_at: string };
+
+/** Cosa può fare il profilo (stesse regole delle policy sul server) */
+export function permissions(p: Pick<Profile, "role">) {
+  const admin = p.role === "admin";
+  return { manageMeds: admin, correctStock: admin, manageFamily: admin };
+}
+export type Permissions = ReturnType<typeof permissions>;
+
+export async function loadMembers(familyId: string): Promise<{ members: FamilyMember[]; invites: FamilyInvite[] }> {
+  const [membersRes, invitesRes] = await Promise.all([
+    sb!.from("profiles").select("id,email,role").eq("family_id", familyId).order("email"),
+    sb!.from("family_invites").select("id,email,role,created_at").eq("family_id", familyId).order("created_at"),
+  ]);
+  if (membersRes.error) console.error("select profiles (membri)", membersRes.error);
+  if (invitesRes.error) console.error("select family_invites", invitesRes.error);
+  return { members: (membersRes.data || []) as FamilyMember[], invites: (invitesRes.data || []) as FamilyInvite[] };
+}
+
+/**
+ * Invito per email: chi accede con quell'indirizzo entra in famiglia al primo
+ * login. Oltre all'invito si spedisce subito il link di accesso.
+ */
+export async function inviteMember(familyId: string, email: string, role: Role) {
+  const clean = email.trim().toLowerCase();
+  const { error } = await sb!.from("family_invites").insert({ family_id: familyId, email: clean, role });
+  if (error) { console.error("insert family_invites", error); return error; }
+  const { error: mailError } = await sb!.auth.signInWithOtp({ email: clean, options: { emailRedirectTo: location.origin } });
+  if (mailError) console.error("invio link invito", mailError);
+  return null;
+}
+
+export async function cancelInvite(inviteId: string) {
+  const { error } = await sb!.from("family_invites").delete().eq("id", inviteId);
+  if (error) console.error("delete family_invites", error);
+  return error;
+}
+
+export async function setMemberRole(userId: string, role: Role) {
+  const { error } = await sb!.rpc("set_member_role", { p_user: userId, p_role: role });
+  if (error) console.error("rpc set_member_role", error);
+  return error;
+}
+
+/** Rimuove un membro (o esce dalla famiglia, se è il proprio id) */
+export async function removeMember(userId: string) {
+  const { error } = await sb!.rpc("remove_member", { p_user: userId });
+  if (error) console.error("rpc remove_member", error);
+  return error;
+}
+
+export async function renameFamily(familyId: string, name: string) {
+  const { error } = await sb!.from("families").update({ name: name.trim() }).eq("id", familyId);
+  if (error) console.error("update families (nome)", error);
+  return error;
+}
+
+/** Fuso orario e ora in cui finisce la giornata di cura */
+export async function saveCalendar(familyId: string, next: CalendarSettings) {
+  const { error } = await sb!.from("families").update({ timezone: next.timeZone, day_cutoff: next.cutoff }).eq("id", familyId);
+  if (error) console.error("update families (calendario)", error);
+  return error;
+}
+
+/** Nuova famiglia con la prima persona assistita; chi la crea ne è admin */
+export async function createFamily(name: string, patient: string) {
+  const { error } = await sb!.rpc("create_family", { p_name: name.trim(), p_patient: patient.trim() });
+  if (error) console.error("rpc create_family", error);
+  return error;
+}
+
+/** Entra nella famiglia che ha invitato la mia email; null se non ci sono inviti */
+export async function acceptInvite(): Promise<string | null> {
+  const { data, error } = await sb!.rpc("accept_invite");
+  if (error) console.error("rpc accept_invite", error);
+  return (data as string | null) ?? null;
+}
@@ -0,0 +1,88 @@
+import { sb } from "./supabase";
+import { addDaysISO, daysBetweenISO } from "./dates";
+import { doseQtyOn, medOn, qtyOn, resolveLoggedTime } from "./schedule";
+import type { Med, SlotDef } from "./types";
+
+// ---------- Previsione esaurimento scorte ----------
+// Si simula giorno per giorno il consumo previsto dalla ricorrenza reale,
+// corretto con l'aderenza effettiva degli ultimi N giorni di intake_logs.
+
+/** alertDays: sotto questa copertura scatta l'avviso "in esaurimento" (families.alert_coverage_days) */
+export type ForecastSettings = { leadDays: number; historyDays: number; alertDays: number };
+export const DEFAULT_FORECAST: ForecastSettings = { leadDays: 3, historyDays: 14, alertDays: 7 };
+
+export type Forecast = {
+  /** consumo reale / previsto negli ultimi N giorni (1 = tutto preso) */
+  rate: number;
+  /** giorni coperti (null = oltre l'orizzonte o nessun consumo previsto) */
+  boxDays: number | null; totalDays: number | null;
+  boxRunOut: string | null; totalRunOut: string | null;
+  /** data entro cui comprare, tenendo conto dei giorni di attesa in farmacia */
+  buyBy: string | null;
+};
+
+const HORIZON = 365;
+
+/**
+ * Quantità effettivamente presa per farmaco negli ultimi `days` giorni (oggi
+ * escluso) e quella già presa oggi.
+ */
+export async function loadRecentUsage(meds: Med[], slots: SlotDef[], familyId: string, today: string, days: number) {
+  const from = addDaysISO(today, -days);
+  const { data, error } = await sb!.from("intake_logs")
+    .select("day,time_slot,med_id")
+    .eq("family_id", familyId)
+    .eq("taken", true)
+    .gte("day", from).lte("day", today);
+  if (error) console.error("select intake_logs (forecast)", error);
+  const used: Record<string, number> = {};
+  const takenToday: Record<string, number> = {};
+  (data || []).forEach((r: { day: string; time_slot: string; med_id: string }) => {
+    const med = meds.find(x => x.id === r.med_id);
+    if (!med) return;
+    const m = medOn(med, r.day);
+    const time = resolveLoggedTime(r.time_slot, m, slots);
+    const dose = (m.doses || []).find(d => d.time === time);
+    const qty = dose ? doseQtyOn(m, dose, r.day) : 0;
+    const bucket = r.day === today ? takenToday : used;
+    bucket[m.id] = (bucket[m.id] || 0) + qty;
+  });
+  return { used, takenToday };
+}
+
+/** Rapporto consumo reale / previsto (1 se non c'è storico utile, es. nessuna spunta) */
+export function usageRate(m: Med, used: number, today: string, days: number): number {
+  let planned = 0;
+  for (let i = 1; i <= days; i++) planned += qtyOn(m, addDaysISO(today, -i));
+  if (planned <= 0 || used <= 0) return 1;
+  return Math.min(1, used / planned);
+}
+
+/**
+ * Previsione per un farmaco. `takenToday` è quanto già scalato oggi, così il
+ * consumo di oggi conta solo per le dosi ancora da prendere.
+ */
+export function forecastMed(
+  m: Med, stock: { box: number; dispensa: number }, rate: number,
+  today: string, takenToday: number, settings: ForecastSettings
+): Forecast {
+  const runOut = (start: number) => {
+    let left = start;
+    for (let i = 0; i < HORIZON; i++) {
+      const day = addDaysISO(today, i);
+      const need = (i === 0 ? Math.max(0, qtyOn(m, day) - takenToday) : qtyOn(m, day)) * rate;
+      if (need > left + 1e-9) return { days: i, date: day };
+      left -= need;
+    }
+    return null;
+  };
+  const box = runOut(stock.box);
+  const total = runOut(stock.box + stock.dispensa);
+  const buyBy = total ? addDaysISO(total.date, -settings.leadDays) : null;
+  return {
+    rate,
+    boxDays: box ? box.days : null, totalDays: total ? total.days : null,
+    boxRunOut: box ? box.date : null, totalRunOut: total ? total.date : null,
+    buyBy: buyBy && daysBetweenISO(today, buyBy) < 0 ? today : buyBy,
+  };
+}
@@ -0,0 +1,70 @@
+import { sb } from "./supabase";
+import { instantOf } from "./dates";
+import type { IntakeAction, IntakeEvent } from "./types";
+
+// ---------- Registro assunzioni ----------
+// Chi ha dato la dose, a che ora e con quale nota. Gli eventi sono
+// append-only (spunta, salto, annullamento, nota); intake_logs tiene solo lo
+// stato corrente, che il planner mostra con iniziali e orario.
+
+export const INTAKE_ACTION_LABELS: Record<IntakeAction, string> = {
+  taken: "Data",
+  skipped: "Saltata",
+  undone: "Annullata",
+  note: "Nota",
+};
+
+/** Quello che si registra sul server ("pending" = annulla) */
+export type MarkStatus = "taken" | "skipped";
+/** Quello che vede il planner: gli altri stati dipendono dall'orario */
+export type DoseStatus = "pending" | "taken" | "late" | "skipped" | "missed";
+
+/** Stato corrente di una dose nel planner (chiave day|time|med) */
+export type IntakeMark = {
+  status: MarkStatus; by: string | null; at: string | null; note: string | null; reason: string | null;
+};
+
+/** Oltre quanti minuti dall'orario la dose è "in ritardo" (o "non data") */
+export const LATE_AFTER_MIN = 60;
+
+export const STATUS_LOOK: Record<DoseStatus, { label: string; color: string; text: string }> = {
+  pending: { label: "Da dare", color: "transparent", text: "#555" },
+  taken: { label: "Presa", color: "#d4f5df", text: "#0a7b35" },
+  late: { label: "In ritardo", color: "#fff0c2", text: "#8a5b00" },
+  skipped: { label: "Saltata", color: "#e3e8f5", text: "#3b4a7a" },
+  missed: { label: "Non data", color: "#ffd9df", text: "#b30021" },
+};
+
+export const SKIP_REASONS = ["Su indicazione del medico", "Rifiutata", "Vomito", "Digiuno per esami"];
+
+/** Stato mostrato per una dose pianificata il giorno `day` all'orario `time` */
+export function doseStatus(mark: IntakeMark | undefined, day: string, time: string, now: number): DoseStatus {
+  const due = instantOf(day, time) + LATE_AFTER_MIN * 60_000;
+  if (mark?.status === "skipped") return "skipped";
+  if (mark?.status === "taken") return mark.at && new Date(mark.at).getTime() > due ? "late" : "taken";
+  return now > due ? "missed" : "pending";
+}
+
+/** Storico di una singola dose, dal più recente */
+export async function loadIntakeEvents(medId: string, day: string, time: string): Promise<IntakeEvent[]> {
+  const { data, error } = await sb!.from("intake_events")
+    .select("id,med_id,day,time_slot,action,at,note,created_at,created_by,author:profiles(email)")
+    .eq("med_id", medId).eq("day", day).eq("time_slot", time)
+    .order("created_at", { ascending: false });
+  if (error) console.error("select intake_events", error);
+  return (data || []) as unknown as IntakeEvent[];
+}
+
+/** Aggiunge una nota a una dose già segnata (resta nello storico) */
+export async function noteIntake(medId: string, day: string, time: string, note: string) {
+  const { error } = await sb!.rpc("note_intake", { p_med_id: medId, p_day: day, p_time_slot: time, p_note: note });
+  if (error) console.error("rpc note_intake", error);
+  return error;
+}
+
+/** Iniziali dall'email ("mario.rossi@…" → "MR") */
+export function initials(email: string | null | undefined): string {
+  if (!email) return "?";
+  const parts = email.split("@")[0].split(/[._-]+/).filter(Boolean);
+  return (parts.length > 1 ? parts[0][0] + parts[1][0] : parts[0]?.slice(0, 2) || "?").toUpperCase();
+}
@@ -0,0 +1,32 @@
+import { sb } from "./supabase";
+import type { DoseTime, MedUnit, Schedule } from "./types";
+
+// ---------- Farmaci e versioni della prescrizione ----------
+// Dosaggio, orari e ricorrenza non si sovrascrivono: ogni modifica è una
+// versione con data di entrata in vigore, prescrittore e nota. meds tiene la
+// copia della versione di oggi; i giorni passati usano medOn (schedule.ts).
+
+/** Colonne di meds con le versioni annesse (per medOn) */
+export const MED_SELECT =
+  "id,family_id,patient_id,name,dosage,doses,schedule,threshold,archived,unit,pack_size,created_at,archived_at,deleted_at," +
+  "versions:med_versions(id,effective_from,dosage,doses,schedule,prescriber,note,created_at,created_by,author:profiles(email))";
+
+export type NewVersion = {
+  effective_from: string; dosage: string | null; doses: DoseTime[]; schedule: Schedule | null;
+  prescriber: string | null; note: string | null;
+};
+
+/**
+ * Salva nome, forma e confezione e, se cambia la terapia, la nuova versione
+ * della prescrizione, in un'unica transazione; il server riallinea meds
+ * alla versione di oggi.
+ */
+export async function updateMed(
+  medId: string, fields: { name: string; unit: MedUnit; pack_size: number | null }, version: NewVersion | null
+) {
+  const { error } = await sb!.rpc("save_med", {
+    p_med_id: medId, p_name: fields.name, p_unit: fields.unit, p_pack_size: fields.pack_size, p_version: version,
+  });
+  if (error) console.error("rpc save_med", error);
+  return error;
+}
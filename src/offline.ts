@@ -0,0 +1,150 @@
+import { correctStock, disposeLot, fillOrganizer, purchaseStock, recordMovements, setIntake, transferStock, type NewMovement } from "./stock";
+import type { StockLocation } from "./types";
+
+// ---------- Offline: cache locale + coda scritture ----------
+// Farmaci, scorte e assunzioni della settimana restano in IndexedDB; spunte e
+// movimenti fatti senza rete vanno in coda e vengono reinviati in ordine.
+// Le RPC sono idempotenti (stato richiesto / op_id), quindi il replay contro
+// lo stato attuale del server non raddoppia mai un delta.
+
+export type QueuedOp =
+  | {
+      kind: "intake"; medId: string; day: string; time: string;
+      status?: "taken" | "skipped" | "pending"; taken?: boolean; // taken: voci in coda prima degli stati
+      reason?: string | null; at?: string; note?: string | null;
+    }
+  | { kind: "transfer"; medId: string; qty: number; opId: string }
+  | { kind: "purchase"; medId: string; qty: number; lot: string | null; expiresOn: string | null; opId: string }
+  | { kind: "dispose"; lotId: string; reason: string; opId: string }
+  | { kind: "fill"; items: { medId: string; qty: number }[]; reason: string; opId: string }
+  | { kind: "movements"; familyId: string; rows: NewMovement[]; opId: string }
+  | { kind: "correction"; familyId: string; medId: string; location: StockLocation; qty: number; reason: string | null; opId: string };
+
+export type QueueEntry = {
+  id?: number; op: QueuedOp; label: string; created_at: string;
+  status: "pending" | "failed"; error?: string;
+};
+
+const DB_NAME = "farmaci-giannina";
+const CACHE = "cache";
+const QUEUE = "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+function db(): Promise<IDBDatabase> {
+  dbPromise ||= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(CACHE);
+      req.result.createObjectStore(QUEUE, { keyPath: "id", autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+}
+
+async function tx<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const d = await db();
+  return new Promise((resolve, reject) => {
+    const req = fn(d.transaction(store, mode).objectStore(store));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// --- cache ---
+export async function cacheSet(key: string, value: unknown) {
+  try { await tx(CACHE, "readwrite", s => s.put(value, key)); } catch (e) { console.error("cache put", e); }
+}
+export async function cacheGet<T>(key: string): Promise<T | undefined> {
+  try { return (await tx(CACHE, "readonly", s => s.get(key))) as T | undefined; } catch { return undefined; }
+}
+
+// --- coda ---
+const listeners = new Set<() => void>();
+/** Notifica i cambi della coda (per l'indicatore di sync); ritorna l'unsubscribe */
+export function onQueueChange(cb: () => void) {
+  listeners.add(cb);
+  return () => { listeners.delete(cb); };
+}
+const notify = () => listeners.forEach(cb => cb());
+
+export const queueEntries = () => tx<QueueEntry[]>(QUEUE, "readonly", s => s.getAll() as IDBRequest<QueueEntry[]>);
+
+async function enqueue(op: QueuedOp, label: string) {
+  await tx(QUEUE, "readwrite", s => s.add({ op, label, created_at: new Date().toISOString(), status: "pending" } as QueueEntry));
+  notify();
+}
+export async function discardEntry(id: number) {
+  await tx(QUEUE, "readwrite", s => s.delete(id));
+  notify();
+}
+
+/** Errore di rete (nessuna risposta dal server) vs errore applicativo */
+export const isNetworkError = (error: { message?: string } | null | undefined) =>
+  !!error && (!navigator.onLine || /fetch|network|load failed/i.test(error.message || ""));
+
+function runOp(op: QueuedOp) {
+  switch (op.kind) {
+    case "intake":
+      return setIntake(op.medId, op.day, op.time, op.status ?? (op.taken ? "taken" : "pending"), { reason: op.reason, at: op.at, note: op.note });
+    case "transfer": return transferStock(op.medId, op.qty, op.opId);
+    case "purchase": return purchaseStock(op.medId, op.qty, op.lot, op.expiresOn, op.opId);
+    case "dispose": return disposeLot(op.lotId, op.reason, op.opId);
+    case "fill": return fillOrganizer(op.items, op.reason, op.opId);
+    case "correction": return correctStock(op.familyId, op.medId, op.location, op.qty, op.reason, op.opId);
+    case "movements": return recordMovements(op.familyId, op.rows, op.opId).then(error => ({ balance: null, error }));
+  }
+}
+
+const hasBacklog = async () => (await queueEntries().catch(() => [])).some(e => e.status === "pending");
+
+/**
+ * Esegue subito se possibile; senza rete mette in coda.
+ * `queued: true` → l'UI resta ottimistica, il replay allineerà i dati.
+ * Con la coda non vuota prima la si svuota: se resta qualcosa si accoda,
+ * per non scavalcare l'ordine.
+ */
+export async function submit(op: QueuedOp, label: string) {
+  let backlog = await hasBacklog();
+  if (backlog && navigator.onLine) {
+    await replayQueue();
+    backlog = await hasBacklog();
+  }
+  if (!backlog && navigator.onLine) {
+    const res = await runOp(op);
+    if (!isNetworkError(res.error)) return { ...res, queued: false };
+  }
+  await enqueue(op, label);
+  return { balance: null, error: null, queued: true };
+}
+
+let replaying = false;
+/**
+ * Reinvia la coda in ordine; si ferma al primo errore di rete. Con
+ * `retryFailed` riprova anche quelle già rifiutate. Ritorna quante operazioni
+ * sono andate a buon fine.
+ */
+export async function replayQueue(retryFailed = false): Promise<number> {
+  if (replaying || !navigator.onLine) return 0;
+  replaying = true;
+  let done = 0;
+  try {
+    const entries = (await queueEntries()).filter(e => retryFailed || e.status === "pending");
+    for (const entry of entries) {
+      const { error } = await runOp(entry.op);
+      if (isNetworkError(error)) break;
+      if (error) {
+        // conflitto/errore del server: resta visibile come "fallita" finché qualcuno non la scarta
+        await tx(QUEUE, "readwrite", s => s.put({ ...entry, status: "failed", error: error.message }));
+      } else {
+        await tx(QUEUE, "readwrite", s => s.delete(entry.id!));
+        done++;
+      }
+      notify();
+    }
+  } finally {
+    replaying = false;
+  }
+  return done;
+}
@@ -0,0 +1,104 @@
+import { addDaysISO, daysBetweenISO, isoWeekday, todayISO } from "./dates";
+import { escapeHtml } from "./print";
+import type { IntakeMark } from "./intakes";
+import { WEEKDAY_LABELS, doseQtyOn, dosesOn, isDueOn, medOn, needBetween, sortSlots } from "./schedule";
+import { expiryStatus } from "./stock";
+import type { LotsMap, Med, MedUnit, SlotDef, StocksMap } from "./types";
+import { qtyLabel } from "./units";
+
+// ---------- Portapillole settimanale ----------
+// Il Box è il portapillole: una casella per giorno e fascia. Il riempimento
+// conta, dalla ricorrenza e dalle versioni della prescrizione, quanto va in
+// ogni casella per i 7 giorni da `from` e quanto travasare dalla Dispensa:
+// il fabbisogno della settimana meno quel che resta nel Box (le compresse
+// avanzate vanno nel portapillole, non si contano due volte).
+
+/** Solo le forme che stanno in una casella (gocce, sciroppi, iniezioni no) */
+export const ORGANIZER_UNITS: MedUnit[] = ["tablet", "capsule"];
+
+/**
+ * need: dosi della settimana; box: quanto si prende dall'avanzo nel Box
+ * (oltre alle dosi previste prima di `from`); qty: da travasare dalla
+ * Dispensa; dispensa: quanto c'è in Dispensa esclusi i lotti scaduti;
+ * missing: quanto manca per travasare qty.
+ */
+export type OrganizerTotal = { med: Med; need: number; box: number; qty: number; dispensa: number; missing: number };
+export type OrganizerFill = {
+  days: string[];
+  slots: SlotDef[];
+  /** chiave `${day}|${slot.name}` → farmaci della casella */
+  cells: Record<string, { med: Med; qty: number }[]>;
+  totals: OrganizerTotal[];
+};
+
+export const cellKey = (day: string, slot: SlotDef) => `${day}|${slot.name}`;
+
+/** Giorno d'inizio proposto: oggi se è lunedì, altrimenti il prossimo lunedì */
+export function nextOrganizerStart(today = todayISO()) {
+  return isoWeekday(today) === 1 ? today : addDaysISO(today, 8 - isoWeekday(today));
+}
+
+export const dayHeader = (day: string) => `${WEEKDAY_LABELS[isoWeekday(day) - 1]} ${day.slice(8, 10)}/${day.slice(5, 7)}`;
+
+/** Dosi di oggi ancora da dare (quelle date sono già uscite dal Box, quelle saltate non servono) */
+function stillDueToday(med: Med, marks: Record<string, IntakeMark>, today: string) {
+  const rx = medOn(med, today);
+  if (!isDueOn(rx, today)) return 0;
+  return (rx.doses || []).filter(d => !marks[`${today}|${d.time}|${med.id}`]).reduce((sum, d) => sum + doseQtyOn(rx, d, today), 0);
+}
+
+/** marks: spunte del planner (chiave day|time|med), servono quelle di oggi */
+export function organizerFill(
+  meds: Med[], slots: SlotDef[], stocks: StocksMap, lots: LotsMap, marks: Record<string, IntakeMark>, from: string, today = todayISO()
+): OrganizerFill {
+  const days = Array.from({ length: 7 }, (_, i) => addDaysISO(from, i));
+  const cells: OrganizerFill["cells"] = {};
+  const need: Record<string, number> = {};
+  days.forEach(day => dosesOn(meds, slots, day).forEach(({ slot, doses }) => {
+    const cell = (cells[cellKey(day, slot)] ||= []);
+    doses.forEach(({ med, dose }) => {
+      if (dose.qty <= 0) return;
+      // due orari nella stessa fascia finiscono nella stessa casella
+      const same = cell.find(c => c.med.id === med.id);
+      if (same) same.qty += dose.qty;
+      else cell.push({ med, qty: dose.qty });
+      need[med.id] = (need[med.id] || 0) + dose.qty;
+    });
+  }));
+  const totals = meds
+    .filter(m => need[m.id] > 0)
+    .map(med => {
+      // i lotti scaduti non si travasano (restano in Dispensa da smaltire)
+      const expired = (lots[med.id] || []).filter(l => expiryStatus(l, today) === "expired").reduce((a, l) => a + l.qty, 0);
+      const dispensa = (stocks[med.id]?.dispensa || 0) - expired;
+      // il Box serve ancora per i giorni fino all'inizio del portapillole
+      const gap = Math.max(0, daysBetweenISO(today, from));
+      const before = gap > 0 ? stillDueToday(med, marks, today) + needBetween(med, addDaysISO(today, 1), gap - 1) : 0;
+      const box = Math.min(need[med.id], Math.max(0, (stocks[med.id]?.box || 0) - before));
+      const qty = need[med.id] - box;
+      return { med, need: need[med.id], box, qty, dispensa, missing: Math.max(0, qty - dispensa) };
+    });
+  const used = sortSlots(slots).filter(s => days.some(d => cells[cellKey(d, s)]?.length));
+  return { days, slots: used, cells, totals };
+}
+
+/** Griglia da stampare e tenere accanto al portapillole */
+export function organizerHtml(fill: OrganizerFill, patient: string) {
+  const head = fill.days.map(d => `<th>${escapeHtml(dayHeader(d))}</th>`).join("");
+  const rows = fill.slots.map(slot => `<tr>
+    <th>${escapeHtml(slot.name)}</th>
+    ${fill.days.map(day => `<td>${(fill.cells[cellKey(day, slot)] || [])
+      .map(c => `${escapeHtml(c.med.name)} <b>${escapeHtml(qtyLabel(c.qty, c.med))}</b>`).join("<br>")}</td>`).join("")}
+  </tr>`).join("");
+  const totals = fill.totals.map(t => `<tr>
+    <td>${escapeHtml(t.med.name)}${t.med.dosage ? " – " + escapeHtml(t.med.dosage) : ""}</td>
+    <td>${escapeHtml(qtyLabel(t.need, t.med))}</td>
+    <td>${t.box > 0 ? escapeHtml(qtyLabel(t.box, t.med)) : ""}</td>
+    <td>${escapeHtml(qtyLabel(t.qty, t.med))}</td>
+    <td></td>
+  </tr>`).join("");
+  return `<p>${escapeHtml(patient)} · dal ${escapeHtml(fill.days[0])} al ${escapeHtml(fill.days[6])}</p>
+    <table><thead><tr><th></th>${head}</tr></thead><tbody>${rows}</tbody></table>
+    <h2 style="font-size:14px;margin-top:16px">Da mettere nel portapillole</h2>
+    <table><thead><tr><th>Farmaco</th><th>Settimana</th><th>Dal Box</th><th>Dalla Dispensa</th><th>✓</th></tr></thead><tbody>${totals}</tbody></table>`;
+}
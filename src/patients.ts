@@ -0,0 +1,35 @@
+import { sb } from "./supabase";
+import { cacheGet, cacheSet, isNetworkError } from "./offline";
+import type { Patient } from "./types";
+
+// ---------- Pazienti ----------
+// Una famiglia può seguire più persone. Il paziente scelto resta nella cache
+// locale del dispositivo: chi apre l'app ritrova l'ultimo che seguiva.
+
+/** Pazienti della famiglia in ordine di nome; senza rete usa la copia locale */
+export async function loadPatients(familyId: string): Promise<Patient[]> {
+  const { data, error } = await sb!.from("patients")
+    .select("id,family_id,name,created_at")
+    .eq("family_id", familyId)
+    .order("name");
+  if (isNetworkError(error)) return (await cacheGet<Patient[]>(`patients:${familyId}`)) || [];
+  if (error) console.error("select patients", error);
+  const list = (data || []) as Patient[];
+  if (!error) cacheSet(`patients:${familyId}`, list);
+  return list;
+}
+
+export async function createPatient(familyId: string, name: string) {
+  const { data, error } = await sb!.from("patients").insert({ family_id: familyId, name: name.trim() }).select("id").single();
+  if (error) console.error("insert patients", error);
+  return { id: (data as { id: string } | null)?.id ?? null, error };
+}
+
+export async function renamePatient(patientId: string, name: string) {
+  const { error } = await sb!.from("patients").update({ name: name.trim() }).eq("id", patientId);
+  if (error) console.error("update patients", error);
+  return error;
+}
+
+export const savedPatientId = (familyId: string) => cacheGet<string>(`patient:${familyId}`);
+export const savePatientId = (familyId: string, id: string) => cacheSet(`patient:${familyId}`, id);
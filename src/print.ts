@@ -0,0 +1,28 @@
+// ---------- Stampa (finestra del browser) ----------
+
+/** Escape per testo interpolato in HTML */
+export const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const PRINT_CSS = `
+  body{font-family:system-ui,-apple-system,Segoe UI,Roboto,sans-serif;padding:24px}
+  h1{font-size:18px;margin:0 0 10px}
+  table{width:100%;border-collapse:collapse}
+  th,td{border:1px solid #ddd;padding:6px;font-size:12px}
+  th{background:#fafafa;text-align:left}
+  tr{-webkit-print-color-adjust:exact;print-color-adjust:exact}
+`;
+
+/** Apre una finestra con `bodyHtml` (già con escape) e lancia la stampa */
+export function printHtml(title: string, bodyHtml: string) {
+  const html = `<!doctype html><html><head><meta charset="utf-8">
+    <title>${escapeHtml(title)}</title>
+    <style>${PRINT_CSS}</style></head><body>
+    <h1>${escapeHtml(title)}</h1>
+    ${bodyHtml}
+    <script>window.onload=()=>{window.print();}</script>
+  </body></html>`;
+  const w = window.open("", "_blank");
+  if (w) { w.document.write(html); w.document.close(); }
+  else alert("Il browser ha bloccato la finestra di stampa: consenti i popup per questo sito.");
+}
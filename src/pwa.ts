@@ -0,0 +1,19 @@
+// ---------- App installabile (PWA) ----------
+// manifest.webmanifest apre l'app su /?view=today: la checklist "Solo oggi"
+// a tutto schermo, con spunte grandi. Il service worker (public/sw.js) tiene
+// in cache la shell; in sviluppo non si registra per non servire file vecchi.
+
+export type LaunchView = "today" | "stocks";
+
+/** Vista richiesta dall'indirizzo (icona sulla Home, scorciatoie, notifiche) */
+export function launchView(): LaunchView | null {
+  const v = new URLSearchParams(location.search).get("view");
+  return v === "today" || v === "stocks" ? v : null;
+}
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch(e => console.error("registrazione service worker", e));
+  });
+}
@@ -0,0 +1,43 @@
+import { sb } from "./supabase";
+
+// ---------- Realtime (Supabase) ----------
+// Un canale per famiglia: spunte, movimenti di scorta, farmaci e pazienti
+// modificati da altri caregiver arrivano subito alla Dashboard.
+
+export type IntakeRow = {
+  family_id: string; day: string; time_slot: string; med_id: string; taken: boolean;
+  updated_by?: string | null; updated_at?: string | null; taken_at?: string | null; note?: string | null;
+  status?: "taken" | "skipped" | null; skip_reason?: string | null;
+};
+
+export type FamilyHandlers = {
+  onIntake: (row: IntakeRow, deleted: boolean) => void;
+  onStockMovement: (medId: string) => void;
+  onMedChange: () => void;
+  onPatientChange: () => void;
+};
+
+/** Si iscrive ai cambi della famiglia; ritorna la funzione per disiscriversi */
+export function subscribeFamily(familyId: string, h: FamilyHandlers) {
+  const filter = `family_id=eq.${familyId}`;
+  const channel = sb!.channel(`family:${familyId}`)
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "intake_logs", filter }, (p) => {
+      h.onIntake(p.new as IntakeRow, false);
+    })
+    .on("postgres_changes", { event: "UPDATE", schema: "public", table: "intake_logs", filter }, (p) => {
+      h.onIntake(p.new as IntakeRow, false);
+    })
+    // i DELETE non accettano filtri: si controlla la famiglia qui (old è completo grazie a replica identity full)
+    .on("postgres_changes", { event: "DELETE", schema: "public", table: "intake_logs" }, (p) => {
+      const old = p.old as IntakeRow;
+      if (old.family_id === familyId) h.onIntake(old, true);
+    })
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "stock_movements", filter }, (p) => {
+      h.onStockMovement((p.new as { med_id: string }).med_id);
+    })
+    .on("postgres_changes", { event: "*", schema: "public", table: "meds", filter }, () => h.onMedChange())
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "med_versions", filter }, () => h.onMedChange())
+    .on("postgres_changes", { event: "*", schema: "public", table: "patients", filter }, () => h.onPatientChange())
+    .subscribe();
+  return () => { sb!.removeChannel(channel); };
+}
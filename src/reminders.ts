@@ -0,0 +1,96 @@
+import { sb } from "./supabase";
+
+// ---------- Promemoria dosi (web push) ----------
+// Il dispositivo si iscrive ai push tramite il service worker (public/sw.js)
+// e salva l'iscrizione in push_subscriptions. Gli avvisi li manda la funzione
+// edge dose-reminders, quindi arrivano anche con la scheda chiusa.
+
+const VAPID_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+/** digestHour: ora del riepilogo email degli avvisi scorte agli admin */
+export type ReminderSettings = { escalateAfterMin: number; digestHour: number };
+export const DEFAULT_REMINDERS: ReminderSettings = { escalateAfterMin: 30, digestHour: 8 };
+
+/** Il browser supporta notifiche push ed è configurata la chiave VAPID */
+export const pushSupported = () =>
+  !!VAPID_KEY && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+function vapidBytes(key: string) {
+  const b64 = (key + "=".repeat((4 - (key.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+}
+
+async function currentSubscription() {
+  const reg = await navigator.serviceWorker.getRegistration("/sw.js");
+  return (await reg?.pushManager.getSubscription()) ?? null;
+}
+
+/** Stato su questo dispositivo: null = promemoria non attivi */
+export async function deviceReminders(): Promise<{ escalationOnly: boolean } | null> {
+  if (!pushSupported() || Notification.permission !== "granted") return null;
+  const sub = await currentSubscription();
+  if (!sub) return null;
+  const { data, error } = await sb!.from("push_subscriptions").select("escalation_only").eq("endpoint", sub.endpoint).maybeSingle();
+  if (error) console.error("select push_subscriptions", error);
+  return data ? { escalationOnly: (data as { escalation_only: boolean }).escalation_only } : null;
+}
+
+/**
+ * Attiva (o aggiorna) i promemoria su questo dispositivo.
+ * escalationOnly: solo le dosi ancora non date dopo il ritardo impostato.
+ */
+export async function enableReminders(escalationOnly: boolean): Promise<string | null> {
+  if (!pushSupported()) return "Questo browser non supporta le notifiche push.";
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return "Notifiche non consentite: abilitale nelle impostazioni del browser.";
+
+  const reg = await navigator.serviceWorker.register("/sw.js");
+  await navigator.serviceWorker.ready;
+  let sub = await reg.pushManager.getSubscription();
+  if (!sub) {
+    try {
+      sub = await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: vapidBytes(VAPID_KEY!) });
+    } catch (e) {
+      console.error("pushManager.subscribe", e);
+      return "Iscrizione alle notifiche non riuscita.";
+    }
+  }
+  const json = sub.toJSON();
+  // RPC: l'endpoint può essere ancora intestato a un altro account di questo browser
+  const { error } = await sb!.rpc("register_push_subscription", {
+    p_endpoint: sub.endpoint,
+    p_p256dh: json.keys?.p256dh,
+    p_auth: json.keys?.auth,
+    p_escalation_only: escalationOnly,
+    p_user_agent: navigator.userAgent,
+  });
+  if (error) { console.error("rpc register_push_subscription", error); return error.message; }
+  return null;
+}
+
+export async function disableReminders(): Promise<string | null> {
+  const sub = pushSupported() ? await currentSubscription() : null;
+  if (!sub) return null;
+  const { error } = await sb!.from("push_subscriptions").delete().eq("endpoint", sub.endpoint);
+  if (error) { console.error("delete push_subscriptions", error); return error.message; }
+  await sub.unsubscribe();
+  return null;
+}
+
+export async function loadReminderSettings(familyId: string): Promise<ReminderSettings> {
+  const { data, error } = await sb!.from("families").select("escalate_after_min,alert_digest_hour").eq("id", familyId).single();
+  if (error) console.error("select families (promemoria)", error);
+  const fam = data as { escalate_after_min: number | null; alert_digest_hour: number | null } | null;
+  return {
+    escalateAfterMin: fam?.escalate_after_min ?? DEFAULT_REMINDERS.escalateAfterMin,
+    digestHour: fam?.alert_digest_hour ?? DEFAULT_REMINDERS.digestHour,
+  };
+}
+
+export async function saveReminderSettings(familyId: string, next: ReminderSettings) {
+  const { error } = await sb!.from("families")
+    .update({ escalate_after_min: next.escalateAfterMin, alert_digest_hour: next.digestHour })
+    .eq("id", familyId);
+  if (error) console.error("update families (promemoria)", error);
+  return error;
+}
@@ -0,0 +1,154 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { adherencePct, versionLog, type AdherenceReport, type Tally } from "./adherence";
+import type { Forecast } from "./forecast";
+import { medOn, scheduleLabel, timeLabel } from "./schedule";
+import type { Med, StocksMap } from "./types";
+import { qtyLabel, stockLabel } from "./units";
+
+// ---------- Relazione per il medico (PDF) ----------
+// File PDF vero (jsPDF), scaricato senza finestre popup: intestazione
+// paziente, terapia in corso, aderenza del periodo, dosi non date o saltate,
+// scorte e note libere del caregiver.
+
+export type ReportInput = {
+  patient: string;
+  from: string; to: string; today: string;
+  meds: Med[];
+  adherence: AdherenceReport;
+  stocks: StocksMap;
+  forecasts: Record<string, Forecast>;
+  notes: string;
+  author: string;
+};
+
+const pct = (t: Tally) => {
+  const p = adherencePct(t);
+  return p === null ? "-" : `${p}%`;
+};
+
+/** Data ISO → gg/mm/aaaa */
+const it = (iso: string) => `${iso.slice(8, 10)}/${iso.slice(5, 7)}/${iso.slice(0, 4)}`;
+
+export function buildDoctorReport(r: ReportInput): jsPDF {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const left = 14;
+  let y = 16;
+  const lastY = () => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  const heading = (text: string) => {
+    if (y > 260) { doc.addPage(); y = 16; }
+    doc.setFont("helvetica", "bold").setFontSize(12).text(text, left, y);
+    y += 3;
+  };
+  const table = (head: string[], body: (string | number)[][]) => {
+    autoTable(doc, {
+      startY: y, head: [head], body, theme: "grid",
+      styles: { fontSize: 9, cellPadding: 1.5 },
+      headStyles: { fillColor: [240, 240, 240], textColor: 20 },
+      margin: { left, right: left },
+    });
+    y = lastY() + 8;
+  };
+
+  // intestazione paziente
+  doc.setFont("helvetica", "bold").setFontSize(16).text("Relazione terapia farmacologica", left, y);
+  y += 8;
+  doc.setFont("helvetica", "normal").setFontSize(11);
+  doc.text(`Paziente: ${r.patient || "-"}`, left, y);
+  doc.text(`Generata il ${it(r.today)}`, 196, y, { align: "right" });
+  y += 6;
+  doc.text(`Periodo analizzato: ${it(r.from)} - ${it(r.to)}`, left, y);
+  doc.text(`A cura di: ${r.author}`, 196, y, { align: "right" });
+  y += 10;
+
+  // terapia in corso
+  heading("Terapia in corso");
+  table(
+    ["Farmaco", "Dosaggio", "Orari e dosi", "Ricorrenza", "Dal", "Prescrittore"],
+    r.meds.map(m => {
+      const rx = medOn(m, r.today);
+      const current = versionLog(m).find(({ version }) => version.effective_from <= r.today)?.version;
+      return [
+        m.name,
+        rx.dosage || "-",
+        (rx.doses || []).map(d => `${timeLabel(d.time)}: ${qtyLabel(d.qty, m)}`).join("\n") || "-",
+        scheduleLabel(rx.schedule),
+        current ? it(current.effective_from) : "-",
+        current?.prescriber || "-",
+      ];
+    })
+  );
+
+  // aderenza
+  const a = r.adherence;
+  heading("Aderenza");
+  doc.setFont("helvetica", "normal").setFontSize(10);
+  y += 3;
+  doc.text(
+    `Complessiva ${pct(a.overall)} - date ${a.overall.taken + a.overall.late} (di cui ${a.overall.late} in ritardo), ` +
+    `non date ${a.overall.missed}, saltate ${a.overall.skipped}.`,
+    left, y
+  );
+  y += 4;
+  table(
+    ["Farmaco", "Aderenza", "Date", "In ritardo", "Non date", "Saltate"],
+    a.byMed.map(({ med, tally }) => [
+      med.name + (med.archived ? " (sospeso)" : ""), pct(tally), tally.taken + tally.late, tally.late, tally.missed, tally.skipped,
+    ])
+  );
+
+  // dosi non date / saltate
+  heading(`Dosi non date (${a.missedDoses.length})`);
+  if (a.missedDoses.length === 0) {
+    doc.setFont("helvetica", "normal").setFontSize(10).text("Nessuna.", left, (y += 3));
+    y += 8;
+  } else {
+    table(["Giorno", "Orario", "Farmaco"], a.missedDoses.map(d => [it(d.day), timeLabel(d.time), d.med.name]));
+  }
+  if (a.skippedDoses.length > 0) {
+    heading(`Dosi saltate di proposito (${a.skippedDoses.length})`);
+    table(["Giorno", "Orario", "Farmaco", "Motivo"], a.skippedDoses.map(d => [it(d.day), timeLabel(d.time), d.med.name, d.reason || "-"]));
+  }
+
+  // scorte
+  heading("Scorte");
+  table(
+    ["Farmaco", "Box", "Dispensa", "Copertura", "Da ricomprare entro"],
+    r.meds.map(m => {
+      const st = r.stocks[m.id] || { box: 0, dispensa: 0 };
+      const f = r.forecasts[m.id];
+      return [
+        m.name, stockLabel(st.box, m), stockLabel(st.dispensa, m),
+        f?.totalDays == null ? "oltre un anno" : `${f.totalDays} gg`,
+        f?.buyBy ? it(f.buyBy) : "-",
+      ];
+    })
+  );
+
+  // note
+  if (r.notes.trim()) {
+    heading("Note del caregiver");
+    doc.setFont("helvetica", "normal").setFontSize(10);
+    const lines = doc.splitTextToSize(r.notes.trim(), 182) as string[];
+    y += 3;
+    lines.forEach(line => {
+      if (y > 282) { doc.addPage(); y = 16; }
+      doc.text(line, left, y);
+      y += 5;
+    });
+  }
+
+  // piè di pagina
+  const pages = doc.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFont("helvetica", "normal").setFontSize(8).setTextColor(120);
+    doc.text(`${r.patient} - relazione del ${it(r.today)} - pagina ${i} di ${pages}`, 105, 290, { align: "center" });
+    doc.setTextColor(0);
+  }
+  return doc;
+}
+
+/** Nome file senza caratteri strani ("relazione-mario-rossi-2026-10-19.pdf") */
+export const reportFileName = (patient: string, today: string) =>
+  `relazione-${patient.toLowerCase().normalize("NFD").replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "paziente"}-${today}.pdf`;
@@ -0,0 +1,172 @@
+import { addDaysISO, careTimeKey, dayOfInstant, daysBetweenISO, isoWeekday } from "./dates";
+import type { DoseTime, Med, MedVersion, Schedule, SlotDef } from "./types";
+
+// ---------- Orari e fasce ----------
+// Ogni farmaco ha una lista di orari esatti ("08:00", "21:00") con la propria
+// quantità; le fasce (Mattina, Mezzogiorno, Sera…) sono della famiglia e
+// servono solo a raggruppare e colorare.
+
+export const DEFAULT_SLOTS: SlotDef[] = [
+  { name: "Mattina", start: "05:00", color: "#E8F4FF" },      // azzurrino
+  { name: "Mezzogiorno", start: "11:00", color: "#FFF6E5" },  // arancione chiaro
+  { name: "Sera", start: "17:00", color: "#F3E8FF" },         // lilla chiaro
+];
+
+// orario di riferimento per i vecchi valori di intake_logs.time_slot / meds.times
+export const LEGACY_SLOT_TIMES: Record<string, string> = {
+  Mattina: "08:00",
+  Mezzogiorno: "12:00",
+  Sera: "21:00",
+};
+
+const TIME_RE = /^([01]?\d|2[0-3])[:.]?([0-5]\d)?$/;
+
+/** "8", "8:30", "08.30", "h 21" → "08:00" / "08:30" / "21:00"; null se non valido */
+export function normalizeTime(raw: string): string | null {
+  const m = raw.trim().replace(/^h\s*/i, "").match(TIME_RE);
+  if (!m) return null;
+  return `${m[1].padStart(2, "0")}:${m[2] || "00"}`;
+}
+
+/** Etichetta breve stile ricetta: "h 8", "h 12:30" */
+export const timeLabel = (t: string) => {
+  const [h, mm] = t.split(":");
+  return `h ${Number(h)}${mm && mm !== "00" ? `:${mm}` : ""}`;
+};
+
+export const sortSlots = (slots: SlotDef[]) => [...slots].sort((a, b) => a.start.localeCompare(b.start));
+
+/** Fascia di un orario: l'ultima che inizia prima o alle `time` (prima dell'alba → ultima fascia) */
+export function slotFor(time: string, slots: SlotDef[]): SlotDef {
+  const sorted = sortSlots(slots.length ? slots : DEFAULT_SLOTS);
+  let found = sorted[sorted.length - 1];
+  for (const s of sorted) if (s.start <= time) found = s;
+  return found;
+}
+
+export const sortDoses = (doses: DoseTime[]) => [...doses].sort((a, b) => a.time.localeCompare(b.time));
+
+/** Un orario compare una volta sola (la spunta è per giorno|orario|farmaco): i doppioni si sommano */
+export function mergeDoses(doses: DoseTime[]): DoseTime[] {
+  const byTime = new Map<string, number>();
+  doses.forEach(d => byTime.set(d.time, (byTime.get(d.time) || 0) + d.qty));
+  return sortDoses([...byTime].map(([time, qty]) => ({ time, qty })));
+}
+
+/** Quantità giornaliera totale di un farmaco */
+export const dailyQty = (m: Med) => (m.doses || []).reduce((sum, d) => sum + d.qty, 0);
+
+export type ScheduledDose = { med: Med; dose: DoseTime; slot: SlotDef };
+
+/** Tutte le dosi dei farmaci, raggruppate per fascia (in ordine) e poi per orario e nome */
+export function dosesBySlot(meds: Med[], slots: SlotDef[]): { slot: SlotDef; doses: ScheduledDose[] }[] {
+  const groups = sortSlots(slots.length ? slots : DEFAULT_SLOTS).map(slot => ({ slot, doses: [] as ScheduledDose[] }));
+  meds.forEach(med => (med.doses || []).forEach(dose => {
+    const slot = slotFor(dose.time, slots);
+    groups.find(g => g.slot.name === slot.name)!.doses.push({ med, dose, slot });
+  }));
+  groups.forEach(g => g.doses.sort((a, b) => careTimeKey(a.dose.time) - careTimeKey(b.dose.time) || a.med.name.localeCompare(b.med.name)));
+  return groups.filter(g => g.doses.length > 0);
+}
+
+// ---------- Ricorrenza ----------
+// schedule = null equivale a "tutti i giorni, senza inizio né fine".
+
+export const DAILY: Schedule = { recurrence: { kind: "daily" }, start: null, end: null, taper: [] };
+export const WEEKDAY_LABELS = ["Lun", "Mar", "Mer", "Gio", "Ven", "Sab", "Dom"];
+
+/** Ricorrenza non salvabile? (messaggio per l'utente) */
+export function scheduleError(s: Schedule | null): string | null {
+  if (s?.recurrence.kind === "every_n_days" && !s.start) return "Per \"ogni N giorni\" indica il giorno da cui si conta (Dal).";
+  return null;
+}
+
+/** Il farmaco va preso in quel giorno? */
+export function isDueOn(m: Med, day: string): boolean {
+  const s = m.schedule || DAILY;
+  if (s.start && day < s.start) return false;
+  if (s.end && day > s.end) return false;
+  const r = s.recurrence;
+  if (r.kind === "every_n_days") {
+    const n = Math.max(1, r.every);
+    // senza inizio (dati vecchi) si conta dalla creazione del farmaco, mai dal giorno stesso
+    const start = s.start || (m.created_at ? dayOfInstant(m.created_at) : "1970-01-01");
+    return daysBetweenISO(start, day) % n === 0;
+  }
+  if (r.kind === "weekdays") return r.days.includes(isoWeekday(day));
+  return true;
+}
+
+/** Quantità di una dose in quel giorno (lo scalaggio in vigore prevale su quella dell'orario) */
+export function doseQtyOn(m: Med, dose: DoseTime, day: string): number {
+  const step = [...(m.schedule?.taper || [])]
+    .filter(t => t.from <= day)
+    .sort((a, b) => b.from.localeCompare(a.from))[0];
+  return step ? step.qty : dose.qty;
+}
+
+/**
+ * Il farmaco con la prescrizione in vigore il giorno `day`: l'ultima versione
+ * con effective_from ≤ day (prima della prima versione vale la prima).
+ * Senza versioni caricate resta com'è.
+ */
+export function medOn(m: Med, day: string): Med {
+  const vs = m.versions;
+  if (!vs?.length) return m;
+  const later = (a: MedVersion, b: MedVersion) =>
+    a.effective_from > b.effective_from || (a.effective_from === b.effective_from && a.created_at > b.created_at);
+  let inForce: MedVersion | null = null;
+  let first = vs[0];
+  for (const v of vs) {
+    if (v.effective_from <= day && (!inForce || later(v, inForce))) inForce = v;
+    if (later(first, v)) first = v;
+  }
+  const v = inForce || first;
+  return { ...m, dosage: v.dosage, doses: v.doses || [], schedule: v.schedule };
+}
+
+/** Come dosesBySlot, ma solo per i farmaci dovuti quel giorno e con la quantità del giorno */
+export function dosesOn(meds: Med[], slots: SlotDef[], day: string) {
+  const due = meds
+    .map(m => medOn(m, day))
+    .filter(m => isDueOn(m, day))
+    .map(m => ({ ...m, doses: (m.doses || []).map(d => ({ ...d, qty: doseQtyOn(m, d, day) })) }));
+  return dosesBySlot(due, slots);
+}
+
+/** Quantità totale prevista in un giorno (prescrizione in vigore quel giorno) */
+export function qtyOn(med: Med, day: string): number {
+  const m = medOn(med, day);
+  return isDueOn(m, day) ? (m.doses || []).reduce((sum, d) => sum + doseQtyOn(m, d, day), 0) : 0;
+}
+
+/** Fabbisogno nei `days` giorni a partire da `from` (incluso) */
+export function needBetween(m: Med, from: string, days: number): number {
+  let total = 0;
+  for (let i = 0; i < days; i++) total += qtyOn(m, addDaysISO(from, i));
+  return total;
+}
+
+/** Descrizione breve: "Ogni 2 giorni · dal 2026-10-01 al 2026-10-10" */
+export function scheduleLabel(s: Schedule | null): string {
+  const sc = s || DAILY;
+  const r = sc.recurrence;
+  const parts = [
+    r.kind === "every_n_days" ? `Ogni ${r.every} giorni`
+      : r.kind === "weekdays" ? [...r.days].sort().map(d => WEEKDAY_LABELS[d - 1]).join(", ")
+      : "Tutti i giorni",
+  ];
+  if (sc.start || sc.end) parts.push([sc.start && `dal ${sc.start}`, sc.end && `al ${sc.end}`].filter(Boolean).join(" "));
+  if (sc.taper?.length) parts.push(`a scalare (${sc.taper.length} step)`);
+  return parts.join(" · ");
+}
+
+/**
+ * Vecchi log con time_slot = nome fascia ("Mattina") → orario della dose del
+ * farmaco che cade in quella fascia (la prima), così restano spuntati.
+ */
+export function resolveLoggedTime(timeSlot: string, med: Med | undefined, slots: SlotDef[]): string {
+  if (normalizeTime(timeSlot) === timeSlot) return timeSlot;
+  const inSlot = sortDoses(med?.doses || []).find(d => slotFor(d.time, slots).name === timeSlot);
+  return inSlot?.time || LEGACY_SLOT_TIMES[timeSlot] || timeSlot;
+}
@@ -0,0 +1,39 @@
+import { needBetween } from "./schedule";
+import type { Med } from "./types";
+import { qtyLabel } from "./units";
+
+// ---------- Lista farmacia ----------
+// Quanto comprare per coprire `horizon` giorni: fabbisogno previsto (ricorrenza
+// × consumo reale) meno Box+Dispensa, arrotondato a confezioni intere.
+
+export type ShoppingRow = {
+  med: Med;
+  need: number;     // fabbisogno nell'orizzonte
+  stock: number;    // Box + Dispensa
+  missing: number;  // quanto manca (≥ 0)
+  packs: number;    // confezioni da comprare (0 se pack_size non noto)
+  units: number;    // unità (cpr, ml…) che entreranno in Dispensa
+};
+
+export function suggestPurchase(
+  m: Med, stock: { box: number; dispensa: number }, rate: number, today: string, horizon: number
+): ShoppingRow {
+  const need = needBetween(m, today, horizon) * rate;
+  const total = stock.box + stock.dispensa;
+  const missing = Math.max(0, Math.ceil(need - total));
+  const packs = m.pack_size ? Math.ceil(missing / m.pack_size) : 0;
+  return { med: m, need, stock: total, missing, packs, units: m.pack_size ? packs * m.pack_size : missing };
+}
+
+/** Ricalcola i pezzi quando l'utente cambia le confezioni a mano */
+export const withPacks = (r: ShoppingRow, packs: number): ShoppingRow =>
+  ({ ...r, packs, units: r.med.pack_size ? packs * r.med.pack_size : r.units });
+
+export const shoppingQtyText = (r: ShoppingRow) =>
+  r.med.pack_size ? `${r.packs} conf. da ${r.med.pack_size} (${qtyLabel(r.units, r.med)})` : qtyLabel(r.units, r.med);
+
+/** Testo semplice per WhatsApp/SMS */
+export function shoppingText(rows: ShoppingRow[], horizon: number, today: string): string {
+  const lines = rows.map(r => `• ${r.med.name}${r.med.dosage ? ` ${r.med.dosage}` : ""} — ${shoppingQtyText(r)}`);
+  return [`🛒 Lista farmacia (${today}, copertura ${horizon} giorni)`, ...lines].join("\n");
+}
@@ -0,0 +1,171 @@
+import { sb } from "./supabase";
+import { addDaysISO, todayISO } from "./dates";
+import type { LotsMap, MovementKind, StockLocation, StockMovement, StocksMap, StockLot } from "./types";
+
+// ---------- Registro movimenti scorte ----------
+// Le quantità non si scrivono mai in assoluto: si aggiunge un movimento
+// (delta con segno) e il saldo lo calcola la vista stock_balances.
+
+export type NewMovement = {
+  med_id: string; location: StockLocation; delta: number; kind: MovementKind; reason?: string | null;
+};
+
+export const MOVEMENT_LABELS: Record<MovementKind, string> = {
+  dose: "Dose",
+  transfer: "Travaso",
+  purchase: "Acquisto",
+  correction: "Correzione",
+  disposal: "Smaltimento",
+};
+
+/** Saldi Box/Dispensa per i farmaci indicati */
+export async function loadStocks(medIds: string[]): Promise<StocksMap> {
+  const map: StocksMap = {};
+  if (medIds.length === 0) return map;
+  const { data, error } = await sb!.from("stock_balances").select("med_id,location,qty").in("med_id", medIds);
+  if (error) console.error("select stock_balances", error);
+  (data || []).forEach((r: { med_id: string; location: StockLocation; qty: number }) => {
+    map[r.med_id] ||= { box: 0, dispensa: 0 };
+    if (r.location === "Box") map[r.med_id].box = Number(r.qty) || 0;
+    if (r.location === "Dispensa") map[r.med_id].dispensa = Number(r.qty) || 0;
+  });
+  return map;
+}
+
+/**
+ * Inserisce i movimenti in un'unica insert (tutti o nessuno). Con `opId` un
+ * secondo invio della stessa operazione (es. replay offline) non duplica nulla.
+ */
+export async function recordMovements(familyId: string, rows: NewMovement[], opId?: string) {
+  const valid = rows.filter(r => r.delta !== 0);
+  if (valid.length === 0) return null;
+  const payload = valid.map(r => ({ family_id: familyId, ...r, reason: r.reason ?? null, op_id: opId ?? null }));
+  const { error } = opId
+    ? await sb!.from("stock_movements").upsert(payload, { onConflict: "op_id,med_id,location", ignoreDuplicates: true })
+    : await sb!.from("stock_movements").insert(payload);
+  if (error) console.error("insert stock_movements", error);
+  return error;
+}
+
+/**
+ * Correzione assoluta: il delta si calcola sul saldo del server al momento
+ * dell'invio, così una correzione accodata offline non ignora i movimenti
+ * registrati nel frattempo da altri.
+ */
+export async function correctStock(
+  familyId: string, medId: string, location: StockLocation, qty: number, reason: string | null, opId?: string
+) {
+  const cur = (await loadStocks([medId]))[medId] || { box: 0, dispensa: 0 };
+  const delta = qty - (location === "Box" ? cur.box : cur.dispensa);
+  const error = await recordMovements(familyId, [{ med_id: medId, location, delta, kind: "correction", reason }], opId);
+  return { balance: error ? null : (location === "Box" ? { ...cur, box: qty } : { ...cur, dispensa: qty }), error };
+}
+
+/** Storico movimenti di un farmaco, dal più recente */
+export async function loadMovements(medId: string, limit = 100): Promise<StockMovement[]> {
+  const { data, error } = await sb!.from("stock_movements")
+    .select("id,med_id,location,delta,kind,reason,created_at,created_by,author:profiles(email)")
+    .eq("med_id", medId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) console.error("select stock_movements", error);
+  return ((data || []) as unknown as StockMovement[]).map(r => ({ ...r, delta: Number(r.delta) }));
+}
+
+// ---------- Operazioni atomiche (RPC) ----------
+// Intake + delta Box (o i due lati di un travaso) in un'unica transazione
+// lato server; restituiscono il saldo aggiornato del farmaco.
+
+export type Balance = { box: number; dispensa: number };
+
+function toBalance(data: unknown): Balance | null {
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row) return null;
+  const r = row as { box: number | string; dispensa: number | string };
+  return { box: Number(r.box) || 0, dispensa: Number(r.dispensa) || 0 };
+}
+
+/** Chi aveva già segnato la dose (se la spunta non ha cambiato nulla) */
+export type AlreadyMarked = { by: string | null; email: string | null; at: string };
+
+/**
+ * Presa / saltata / annullata ("pending"): idempotente, il Box cambia solo
+ * entrando o uscendo da "presa". `at` è l'ora reale del gesto (conta per le
+ * spunte rimesse in coda).
+ */
+export async function setIntake(
+  medId: string, day: string, slot: string, status: "taken" | "skipped" | "pending",
+  opts: { reason?: string | null; note?: string | null; at?: string } = {}
+) {
+  const { data, error } = await sb!.rpc("set_dose_status", {
+    p_med_id: medId, p_day: day, p_time_slot: slot, p_status: status,
+    p_reason: opts.reason ?? null, p_note: opts.note ?? null, p_at: opts.at ?? null,
+  });
+  if (error) console.error("rpc set_dose_status", error);
+  const row = (Array.isArray(data) ? data[0] : data) as
+    { changed?: boolean; marked_by?: string | null; marked_by_email?: string | null; marked_at?: string | null } | null;
+  const already: AlreadyMarked | null = row && row.changed === false && row.marked_at
+    ? { by: row.marked_by ?? null, email: row.marked_by_email ?? null, at: row.marked_at }
+    : null;
+  return { balance: error ? null : toBalance(data), error, already };
+}
+
+/** Travaso Dispensa → Box (prima i lotti che scadono prima); opId rende sicuro un eventuale retry */
+export async function transferStock(medId: string, qty: number, opId: string = crypto.randomUUID()) {
+  const { data, error } = await sb!.rpc("transfer_stock", { p_med_id: medId, p_qty: qty, p_op_id: opId });
+  if (error) console.error("rpc transfer_stock", error);
+  return { balance: error ? null : toBalance(data), error };
+}
+
+/** Riempimento del portapillole: travaso di più farmaci in un'unica transazione */
+export async function fillOrganizer(
+  items: { medId: string; qty: number }[], reason: string, opId: string = crypto.randomUUID()
+) {
+  const { error } = await sb!.rpc("fill_organizer", {
+    p_items: items.map(i => ({ med_id: i.medId, qty: i.qty })), p_reason: reason, p_op_id: opId,
+  });
+  if (error) console.error("rpc fill_organizer", error);
+  return { balance: null, error };
+}
+
+/** Acquisto in Dispensa; lotto e scadenza sono facoltativi (senza, la merce resta "senza lotto") */
+export async function purchaseStock(
+  medId: string, qty: number, lot: string | null, expiresOn: string | null, opId: string = crypto.randomUUID()
+) {
+  const { data, error } = await sb!.rpc("purchase_stock", {
+    p_med_id: medId, p_qty: qty, p_lot: lot, p_expires_on: expiresOn, p_op_id: opId,
+  });
+  if (error) console.error("rpc purchase_stock", error);
+  return { balance: error ? null : toBalance(data), error };
+}
+
+/** Toglie dalla Dispensa quel che resta di un lotto (scaduto, rovinato…) */
+export async function disposeLot(lotId: string, reason: string, opId: string = crypto.randomUUID()) {
+  const { data, error } = await sb!.rpc("dispose_lot", { p_lot_id: lotId, p_reason: reason, p_op_id: opId });
+  if (error) console.error("rpc dispose_lot", error);
+  return { balance: error ? null : toBalance(data), error };
+}
+
+// ---------- Lotti e scadenze ----------
+
+/** Preavviso sulle scadenze in Dispensa */
+export const EXPIRY_WARNING_DAYS = 30;
+
+/** Lotti in Dispensa per i farmaci indicati, dal primo che scade */
+export async function loadLots(medIds: string[]): Promise<LotsMap> {
+  const map: LotsMap = {};
+  if (medIds.length === 0) return map;
+  const { data, error } = await sb!.rpc("lot_balances", { p_med_ids: medIds });
+  if (error) console.error("rpc lot_balances", error);
+  ((data || []) as StockLot[]).forEach(r => {
+    (map[r.med_id] ||= []).push({ ...r, qty: Number(r.qty) || 0 });
+  });
+  return map;
+}
+
+/** "expired" = scaduto, "expiring" = scade entro EXPIRY_WARNING_DAYS giorni */
+export function expiryStatus(lot: StockLot, today = todayISO()): "expired" | "expiring" | null {
+  if (!lot.expires_on) return null;
+  if (lot.expires_on < today) return "expired";
+  return lot.expires_on <= addDaysISO(today, EXPIRY_WARNING_DAYS) ? "expiring" : null;
+}
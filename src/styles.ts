@@ -0,0 +1,18 @@
+import type React from "react";
+
+// ---------- Stili condivisi ----------
+export const styles = {
+  input: { padding: "8px", width: 280, marginRight: 8, border: "1px solid #ccc", borderRadius: 8 },
+  inputFull: { padding: "8px", width: "100%", border: "1px solid #ccc", borderRadius: 8 },
+  inputSmall: { padding: "6px", width: 110, border: "1px solid #ccc", borderRadius: 8 } as React.CSSProperties,
+  btn: { padding: "10px 14px", background: "#0d6efd", color: "#fff", border: "none", borderRadius: 8, cursor: "pointer" } as React.CSSProperties,
+  btnSmall: { padding: "6px 8px", background: "#0d6efd", color: "#fff", border: "none", borderRadius: 8, cursor: "pointer", fontSize: 12 } as React.CSSProperties,
+  nav: { padding: "4px 10px", borderRadius: 8, border: "1px solid #ddd", background: "#fff", cursor: "pointer" } as React.CSSProperties,
+  table: { width: "100%", borderCollapse: "collapse" } as React.CSSProperties,
+  card: { border: "2px solid #eee", borderRadius: 12, padding: 12, background: "#fff" } as React.CSSProperties,
+  subcard: { border: "1px solid #f0f0f0", borderRadius: 10, padding: 10, background: "#fafafa" } as React.CSSProperties,
+  label: { fontSize: 12, color: "#666" } as React.CSSProperties,
+  big: { fontSize: 22, fontWeight: 700 } as React.CSSProperties,
+  select: { padding: "6px 10px", borderRadius: 8, border: "1px solid #ccc" } as React.CSSProperties,
+  touchCheck: { width: 30, height: 30, margin: "2px 4px", verticalAlign: "middle", cursor: "pointer" } as React.CSSProperties,
+};
@@ -0,0 +1,6 @@
+import { createClient } from "@supabase/supabase-js";
+
+// ---------- Supabase (.env richiesto) ----------
+const URL = import.meta.env.VITE_SUPABASE_URL as string | undefined;
+const KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
+export const sb = URL && KEY ? createClient(URL, KEY) : null;
@@ -0,0 +1,62 @@
+// ---------- Tipi condivisi ----------
+export type Profile = { id: string; email: string; family_id: string | null; role: "admin" | "member" };
+export type MedUnit = "tablet" | "capsule" | "drops" | "ml" | "sachet" | "injection";
+/** Orario esatto di assunzione ("HH:MM") con la sua quantità (anche frazionaria, es. 0.5) */
+export type DoseTime = { time: string; qty: number };
+/** Fascia oraria della famiglia: raggruppa e colora le dosi da `start` in poi */
+export type SlotDef = { name: string; start: string; color: string };
+/** Ricorrenza: ogni giorno, ogni N giorni (contati da `start`), o giorni ISO 1=lun…7=dom */
+export type Recurrence =
+  | { kind: "daily" }
+  | { kind: "every_n_days"; every: number }
+  | { kind: "weekdays"; days: number[] };
+/** Scalaggio: da `from` in poi ogni dose vale `qty` (es. cortisone a scalare) */
+export type TaperStep = { from: string; qty: number };
+export type Schedule = {
+  recurrence: Recurrence; start: string | null; end: string | null; taper: TaperStep[];
+};
+/** Persona assistita: farmaci (e quindi scorte e assunzioni) sono suoi */
+export type Patient = { id: string; family_id: string; name: string; created_at: string };
+export type Med = {
+  id: string; family_id: string; patient_id: string; name: string; dosage: string | null;
+  doses: DoseTime[]; schedule: Schedule | null; threshold: number; archived?: boolean;
+  unit: MedUnit; pack_size: number | null;
+  created_at?: string; archived_at?: string | null;
+  /** nel cestino da quando (archiviato, cancellato dopo 30 giorni) */
+  deleted_at?: string | null;
+  /** versioni della prescrizione (vedi medOn in schedule.ts) */
+  versions?: MedVersion[];
+};
+/** Prescrizione in vigore da `effective_from`: dosaggio, orari/dosi e ricorrenza */
+export type MedVersion = {
+  id: string; effective_from: string; dosage: string | null; doses: DoseTime[]; schedule: Schedule | null;
+  prescriber: string | null; note: string | null; created_at: string;
+  created_by: string | null; author?: { email: string } | null;
+};
+export type StockLocation = "Box" | "Dispensa";
+export type StocksMap = Record<string, { box: number; dispensa: number }>;
+/** Lotto ancora in Dispensa (qty già limitata al saldo, vedi lot_balances) */
+export type StockLot = { lot_id: string; med_id: string; lot: string | null; expires_on: string | null; qty: number };
+/** Lotti per farmaco, dal primo che scade */
+export type LotsMap = Record<string, StockLot[]>;
+
+export type MovementKind = "dose" | "transfer" | "purchase" | "correction" | "disposal";
+export type StockMovement = {
+  id: string; med_id: string; location: StockLocation; delta: number;
+  kind: MovementKind; reason: string | null; created_at: string;
+  created_by: string | null; author: { email: string } | null;
+};
+
+export type IntakeAction = "taken" | "skipped" | "undone" | "note";
+export type IntakeEvent = {
+  id: string; med_id: string; day: string; time_slot: string; action: IntakeAction;
+  at: string; note: string | null; created_at: string;
+  created_by: string | null; author: { email: string } | null;
+};
+
+/** Fotografia della terapia salvata dal trigger su meds (vedi med_changes) */
+export type MedSnapshot = Pick<Med, "name" | "dosage" | "doses" | "schedule" | "unit"> & { archived: boolean };
+export type MedChange = {
+  id: string; med_id: string; before: MedSnapshot | null; after: MedSnapshot;
+  changed_at: string; changed_by: string | null; author: { email: string } | null;
+};
@@ -0,0 +1,80 @@
+import React from "react";
+
+// ---------- UI helpers ----------
+export function Wrap({ children }: { children: React.ReactNode }) {
+  return <div style={{ padding: "28px", fontFamily: "system-ui,-apple-system,Segoe UI,Roboto,sans-serif" }}>{children}</div>;
+}
+/** "Farmaci di <paziente>" (o solo "Farmaci" se non c'è un paziente scelto) */
+export function Title({ patient }: { patient?: string }) {
+  return (
+    <h1 style={{ display: "flex", alignItems: "center", gap: 10, fontSize: 36, marginTop: 0 }}>
+      <span role="img" aria-label="pill">💊</span> <span>Farmaci{patient ? ` di ${patient}` : ""}</span>
+    </h1>
+  );
+}
+export function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div style={{ marginTop: 18 }}>
+      <h2 style={{ fontSize: 18, margin: "0 0 8px 0" }}>{title}</h2>
+      {children}
+    </div>
+  );
+}
+export function Badge({ children, tone }: { children: React.ReactNode; tone: "green" | "amber" | "red" }) {
+  const color = tone === "green" ? "#0a7b35" : tone === "amber" ? "#8a5b00" : "#8a001a";
+  const bg = tone === "green" ? "#e8f6ee" : tone === "amber" ? "#fff5da" : "#ffe3ea";
+  return <span style={{ fontSize: 12, padding: "3px 8px", borderRadius: 999, background: bg, color }}>{children}</span>;
+}
+export function Small({ children, onClick }: { children: React.ReactNode; onClick?: () => void }) {
+  return <button onClick={onClick} style={{ fontSize: 12, color: "#666", background: "transparent", border: "none", cursor: "pointer" }}>{children}</button>;
+}
+export function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label style={{ display: "block", marginTop: 8 }}>
+      <div style={{ fontSize: 12, color: "#555", marginBottom: 4 }}>{label}</div>
+      {children}
+    </label>
+  );
+}
+export function Modal({ children, onClose }: { children: React.ReactNode; onClose: () => void }) {
+  return (
+    <div style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,.35)", display: "grid", placeItems: "center", zIndex: 1000 }}>
+      <div style={{ background: "#fff", padding: 16, borderRadius: 12, width: 420 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+          <div />
+          <button onClick={onClose} style={{ background: "transparent", border: "none", fontSize: 20, lineHeight: 1, cursor: "pointer" }}>×</button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
+/** Senza `onAdd` (utente non admin) niente pulsante, solo l'indicazione */
+export function EmptyHint({ onAdd }: { onAdd?: () => void }) {
+  return (
+    <div style={{
+      border: "1px dashed #ccc",
+      borderRadius: 10,
+      padding: 14,
+      background: "#fcfcfc",
+      color: "#444",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "space-between",
+      gap: 12
+    }}>
+      <div>
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>Nessun farmaco configurato</div>
+        <div style={{ fontSize: 13, color: "#666" }}>
+          {onAdd ? "Aggiungi almeno un farmaco per iniziare a usare planner e scorte." : "Chiedi a un amministratore della famiglia di aggiungerli."}
+        </div>
+      </div>
+      {onAdd && <button
+        onClick={onAdd}
+        style={{ padding: "8px 12px", background: "#0d6efd", color: "#fff", border: "none", borderRadius: 8, cursor: "pointer", whiteSpace: "nowrap" }}
+      >
+        + Aggiungi nuovo farmaco
+      </button>}
+    </div>
+  );
+}
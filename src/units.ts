@@ -0,0 +1,43 @@
+import type { Med, MedUnit } from "./types";
+
+// ---------- Unità e confezioni ----------
+
+export const UNIT_LABELS: Record<MedUnit, { one: string; many: string; short: string }> = {
+  tablet: { one: "compressa", many: "compresse", short: "cpr" },
+  capsule: { one: "capsula", many: "capsule", short: "cps" },
+  drops: { one: "goccia", many: "gocce", short: "gtt" },
+  ml: { one: "ml", many: "ml", short: "ml" },
+  sachet: { one: "bustina", many: "bustine", short: "bust." },
+  injection: { one: "iniezione", many: "iniezioni", short: "iniez." },
+};
+export const UNITS = Object.keys(UNIT_LABELS) as MedUnit[];
+
+const FRACTIONS: Record<string, string> = { "0.25": "¼", "0.5": "½", "0.75": "¾" };
+
+/** 0.5 → "½", 1.5 → "1½", 1.25 → "1¼", 2.3 → "2,3" */
+export function fmtQty(q: number): string {
+  const whole = Math.trunc(q);
+  const frac = FRACTIONS[String(Math.round((q - whole) * 100) / 100)];
+  if (frac) return `${whole || ""}${frac}`;
+  return String(Math.round(q * 100) / 100).replace(".", ",");
+}
+
+/** Quantità con unità: "½ cpr", "20 gtt"; `long` usa il nome per esteso */
+export function qtyLabel(q: number, m: Pick<Med, "unit">, long = false): string {
+  const l = UNIT_LABELS[m.unit] || UNIT_LABELS.tablet;
+  return `${fmtQty(q)} ${long ? (q > 0 && q <= 1 ? l.one : l.many) : l.short}`;
+}
+
+export type QtyMode = "units" | "packs";
+
+/** Quantità inserita dall'utente → unità (le confezioni si moltiplicano per pack_size) */
+export const toUnits = (value: number, mode: QtyMode, m: Pick<Med, "pack_size">) =>
+  mode === "packs" && m.pack_size ? value * m.pack_size : value;
+
+/** "3 conf. + 12 cpr" per scorte grandi, altrimenti solo le unità */
+export function stockLabel(q: number, m: Pick<Med, "unit" | "pack_size">): string {
+  if (!m.pack_size || q < m.pack_size) return qtyLabel(q, m);
+  const packs = Math.floor(q / m.pack_size);
+  const rest = q - packs * m.pack_size;
+  return `${packs} conf.${rest > 0 ? ` + ${qtyLabel(rest, m)}` : ""}`;
+}
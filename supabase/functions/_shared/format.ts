@@ -0,0 +1,40 @@
+// ---------- Testi delle notifiche ----------
+// Stesse abbreviazioni di UNIT_LABELS.short (src/units.ts).
+
+const UNIT_SHORT: Record<string, string> = {
+  tablet: "cpr", capsule: "cps", drops: "gtt", ml: "ml", sachet: "bust.", injection: "iniez.",
+};
+
+export const fmtQty = (q: number) => (Number.isInteger(q) ? String(q) : String(Math.round(q * 100) / 100).replace(".", ","));
+
+export const qtyShort = (q: number, unit: string | null) => `${fmtQty(Number(q))} ${UNIT_SHORT[unit || "tablet"] || ""}`.trim();
+
+/** Giorno (YYYY-MM-DD) e minuti dalla mezzanotte nel fuso della famiglia */
+export function localNow(timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone, year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", hourCycle: "h23",
+    }).formatToParts(new Date()).map(p => [p.type, p.value]),
+  );
+  return { day: `${parts.year}-${parts.month}-${parts.day}`, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+const hmToMin = (t: string) => {
+  const [h, m] = t.split(":").map(Number);
+  return h * 60 + (m || 0);
+};
+
+/**
+ * Giornata di cura in corso e minuti dal suo inizio (come todayISO in
+ * src/dates.ts): prima di `cutoff` vale ancora il giorno prima, con i minuti
+ * che proseguono oltre le 24:00.
+ */
+export function careNow(timeZone: string, cutoff = "00:00") {
+  const { day, minutes } = localNow(timeZone);
+  if (minutes >= hmToMin(cutoff)) return { day, minutes };
+  const prev = new Date(Date.parse(`${day}T00:00:00Z`) - 86400000).toISOString().slice(0, 10);
+  return { day: prev, minutes: minutes + 1440 };
+}
+
+/** Minuti dall'inizio della giornata di cura di un orario "HH:MM" */
+export const careMinutes = (time: string, cutoff = "00:00") => hmToMin(time) + (hmToMin(time) < hmToMin(cutoff) ? 1440 : 0);
@@ -0,0 +1,35 @@
+// ---------- Invio email ----------
+// Con SMTP_HOST impostato si usa SMTP (in locale va bene l'Inbucket / Mailpit
+// di `supabase start`: SMTP_HOST=inbucket, SMTP_PORT=2500); senza, l'email
+// viene solo scritta nei log della funzione.
+// Variabili: SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, MAIL_FROM.
+
+import nodemailer from "npm:nodemailer@6";
+
+export type Mail = { to: string[]; subject: string; text: string };
+
+const host = Deno.env.get("SMTP_HOST");
+const transport = host
+  ? nodemailer.createTransport({
+    host,
+    port: Number(Deno.env.get("SMTP_PORT") || 587),
+    secure: Deno.env.get("SMTP_PORT") === "465",
+    auth: Deno.env.get("SMTP_USER") ? { user: Deno.env.get("SMTP_USER"), pass: Deno.env.get("SMTP_PASS") } : undefined,
+  })
+  : null;
+
+/** true se inviata (o registrata nei log, senza SMTP) */
+export async function sendMail(mail: Mail): Promise<boolean> {
+  if (mail.to.length === 0) return true;
+  if (!transport) {
+    console.log(`[email] a ${mail.to.join(", ")} — ${mail.subject}\n${mail.text}`);
+    return true;
+  }
+  try {
+    await transport.sendMail({ from: Deno.env.get("MAIL_FROM") || "Farmaci <no-reply@example.com>", ...mail });
+    return true;
+  } catch (e) {
+    console.error("invio email", e);
+    return false;
+  }
+}
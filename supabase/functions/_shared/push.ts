@@ -0,0 +1,30 @@
+// ---------- Invio web push (VAPID) ----------
+// Variabili: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT (mailto:…).
+
+import webpush from "npm:web-push@3";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type PushSub = { id: string; user_id: string; endpoint: string; p256dh: string; auth: string; escalation_only: boolean };
+
+export const PUSH_SUB_SELECT = "id,user_id,family_id,endpoint,p256dh,auth,escalation_only";
+
+webpush.setVapidDetails(
+  Deno.env.get("VAPID_SUBJECT") || "mailto:admin@example.com",
+  Deno.env.get("VAPID_PUBLIC_KEY")!,
+  Deno.env.get("VAPID_PRIVATE_KEY")!,
+);
+
+/** Invia una notifica; le iscrizioni scadute o revocate dal browser si tolgono */
+export async function sendPush(sb: SupabaseClient, sub: PushSub, payload: unknown) {
+  try {
+    await webpush.sendNotification({ endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } }, JSON.stringify(payload));
+  } catch (e) {
+    const status = (e as { statusCode?: number }).statusCode;
+    if (status === 404 || status === 410) {
+      const { error } = await sb.from("push_subscriptions").delete().eq("id", sub.id);
+      if (error) console.error("delete push_subscriptions", error);
+    } else {
+      console.error("invio push", status, e);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+// ---------- Token delle azioni dalla notifica ----------
+// Le azioni "Preso" / "Posticipa" partono dal service worker, che non ha la
+// sessione Supabase: ogni notifica porta un token firmato (HMAC) con chi la
+// riceve, quale dose e fino a quando vale.
+
+export type ReminderClaims = { user: string; med: string; day: string; time: string; exp: number };
+
+const enc = new TextEncoder();
+const b64url = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+const fromB64url = (s: string) => Uint8Array.from(atob(s.replace(/-/g, "+").replace(/_/g, "/")), c => c.charCodeAt(0));
+
+async function key(secret: string) {
+  return crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+export async function signReminder(claims: ReminderClaims, secret: string): Promise<string> {
+  const body = b64url(enc.encode(JSON.stringify(claims)));
+  const sig = await crypto.subtle.sign("HMAC", await key(secret), enc.encode(body));
+  return `${body}.${b64url(sig)}`;
+}
+
+/** Claims del token se la firma è valida e non è scaduto, altrimenti null */
+export async function verifyReminder(token: string, secret: string): Promise<ReminderClaims | null> {
+  const [body, sig] = token.split(".");
+  if (!body || !sig) return null;
+  try {
+    const ok = await crypto.subtle.verify("HMAC", await key(secret), fromB64url(sig), enc.encode(body));
+    if (!ok) return null;
+    const claims = JSON.parse(new TextDecoder().decode(fromB64url(body))) as ReminderClaims;
+    return claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
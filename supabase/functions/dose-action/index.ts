@@ -0,0 +1,64 @@
+// ---------- Azioni dalla notifica: "Preso" / "Posticipa 15 min" ----------
+// Chiamata dal service worker senza sessione: l'identità arriva dal token
+// firmato nella notifica, quindi va pubblicata con --no-verify-jwt:
+//   supabase functions deploy dose-action --no-verify-jwt
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { verifyReminder } from "../_shared/reminder-token.ts";
+
+const SNOOZE_MIN = 15;
+
+const sb = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+  auth: { persistSession: false },
+});
+
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "content-type",
+};
+const reply = (body: unknown, status = 200) => Response.json(body, { status, headers: CORS });
+
+Deno.serve(async req => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: CORS });
+  if (req.method !== "POST") return reply({ error: "Metodo non ammesso" }, 405);
+
+  const { token, action } = await req.json().catch(() => ({})) as { token?: string; action?: string };
+  const claims = token ? await verifyReminder(token, Deno.env.get("REMINDER_SECRET")!) : null;
+  if (!claims) return reply({ error: "Promemoria scaduto" }, 401);
+
+  if (action === "taken") {
+    const { data, error } = await sb.rpc("set_dose_status_as", {
+      p_user: claims.user, p_med_id: claims.med, p_day: claims.day, p_time_slot: claims.time, p_status: "taken",
+    });
+    if (error) {
+      console.error("rpc set_dose_status_as", error);
+      return reply({ error: error.message }, 400);
+    }
+    const row = (data as { changed: boolean; marked_by_email: string | null }[] | null)?.[0];
+    return reply({ ok: true, changed: row?.changed ?? true, marked_by: row?.marked_by_email ?? null });
+  }
+
+  if (action === "snooze") {
+    const { data: med, error: medError } = await sb.from("meds").select("family_id").eq("id", claims.med).single();
+    if (medError) {
+      console.error("select meds (posticipa)", medError);
+      return reply({ error: medError.message }, 400);
+    }
+    const { data: prev } = await sb.from("dose_reminders").select("stage")
+      .eq("med_id", claims.med).eq("day", claims.day).eq("time_slot", claims.time).maybeSingle();
+    const until = new Date(Date.now() + SNOOZE_MIN * 60_000).toISOString();
+    // si conserva il livello: un avviso già esteso alla famiglia resta esteso
+    const { error } = await sb.from("dose_reminders").upsert({
+      family_id: med.family_id, med_id: claims.med, day: claims.day, time_slot: claims.time,
+      stage: prev?.stage ?? "due", snoozed_until: until,
+    });
+    if (error) {
+      console.error("upsert dose_reminders (posticipa)", error);
+      return reply({ error: error.message }, 400);
+    }
+    return reply({ ok: true, snoozed_until: until });
+  }
+
+  return reply({ error: "Azione non valida" }, 400);
+});
@@ -0,0 +1,137 @@
+// ---------- Promemoria dosi (web push) ----------
+// Da chiamare ogni 5 minuti (cron di Supabase / pg_cron con la service role):
+//   select cron.schedule('dose-reminders', '*/5 * * * *', $$ select net.http_post(
+//     url := 'https://<progetto>.functions.supabase.co/dose-reminders',
+//     headers := jsonb_build_object('Authorization', 'Bearer <service role key>')) $$);
+// Variabili: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT (mailto:…),
+// REMINDER_SECRET (firma dei token delle azioni), più le SUPABASE_* di default.
+// All'orario della dose avvisa chi riceve i promemoria; se dopo
+// families.escalate_after_min la dose è ancora da dare avvisa tutti gli iscritti.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { careMinutes, careNow, qtyShort } from "../_shared/format.ts";
+import { sendPush, PUSH_SUB_SELECT, type PushSub as Sub } from "../_shared/push.ts";
+import { signReminder } from "../_shared/reminder-token.ts";
+
+type Planned = {
+  med_id: string; patient_id: string; patient: string; med: string;
+  dosage: string | null; unit: string | null; time_slot: string; qty: number;
+};
+type Reminder = { med_id: string; time_slot: string; stage: "due" | "escalated"; snoozed_until: string | null };
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const SECRET = Deno.env.get("REMINDER_SECRET")!;
+const SNOOZE_TOKEN_HOURS = 12;
+// dopo tanto ritardo senza avvisi partiti (es. funzione ferma) non si recupera più
+const STALE_MIN = 180;
+
+const sb = createClient(SUPABASE_URL, SERVICE_KEY, { auth: { persistSession: false } });
+
+async function send(sub: Sub, dose: Planned, day: string, stage: Reminder["stage"], lateMin: number) {
+  const token = await signReminder(
+    { user: sub.user_id, med: dose.med_id, day, time: dose.time_slot, exp: Date.now() + SNOOZE_TOKEN_HOURS * 3600_000 },
+    SECRET,
+  );
+  const what = `${dose.med}${dose.dosage ? ` ${dose.dosage}` : ""} — ${qtyShort(dose.qty, dose.unit)}`;
+  const payload = {
+    title: stage === "escalated"
+      ? `⚠️ ${dose.patient}: dose delle ${dose.time_slot} non ancora data`
+      : `💊 ${dose.patient}: dose delle ${dose.time_slot}`,
+    body: stage === "escalated" ? `${what} (in ritardo di ${lateMin} min)` : what,
+    tag: `dose-${dose.med_id}-${day}-${dose.time_slot}`,
+    data: { token, api: `${SUPABASE_URL}/functions/v1/dose-action` },
+    actions: [
+      { action: "taken", title: "Preso" },
+      { action: "snooze", title: "Posticipa 15 min" },
+    ],
+  };
+  await sendPush(sb, sub, payload);
+}
+
+type Family = { id: string; timezone: string; day_cutoff: string; escalate_after_min: number };
+
+async function remindFamily(family: Family, subs: Sub[]) {
+  const { day, minutes } = careNow(family.timezone || "Europe/Rome", family.day_cutoff);
+
+  const [dosesRes, logsRes, remRes] = await Promise.all([
+    sb.rpc("planned_doses", { p_family: family.id, p_day: day }),
+    sb.from("intake_logs").select("med_id,time_slot,status").eq("family_id", family.id).eq("day", day),
+    sb.from("dose_reminders").select("med_id,time_slot,stage,snoozed_until").eq("family_id", family.id).eq("day", day),
+  ]);
+  if (dosesRes.error) { console.error("rpc planned_doses", dosesRes.error); return; }
+  if (logsRes.error) console.error("select intake_logs", logsRes.error);
+  if (remRes.error) console.error("select dose_reminders", remRes.error);
+
+  const marked = new Set(
+    ((logsRes.data || []) as { med_id: string; time_slot: string; status: string | null }[])
+      .filter(l => l.status).map(l => `${l.med_id}|${l.time_slot}`),
+  );
+  const sent = new Map(((remRes.data || []) as Reminder[]).map(r => [`${r.med_id}|${r.time_slot}`, r]));
+  const now = Date.now();
+
+  for (const dose of (dosesRes.data || []) as Planned[]) {
+    const key = `${dose.med_id}|${dose.time_slot}`;
+    if (marked.has(key)) continue;
+    const late = minutes - careMinutes(dose.time_slot, family.day_cutoff);
+    if (late < 0) continue;
+
+    const prev = sent.get(key);
+    const snoozed = prev?.snoozed_until ? Date.parse(prev.snoozed_until) > now : false;
+    let stage: Reminder["stage"] | null = null;
+    let targets: Sub[] = [];
+
+    if (!prev) {
+      if (late > STALE_MIN) continue;
+      stage = late >= family.escalate_after_min ? "escalated" : "due";
+    } else if (snoozed) {
+      continue;
+    } else if (prev.snoozed_until) {
+      // posticipo scaduto: si ripete l'avviso allo stesso livello
+      stage = prev.stage;
+    } else if (prev.stage === "due" && late >= family.escalate_after_min) {
+      stage = "escalated";
+    }
+    if (!stage) continue;
+
+    targets = stage === "escalated" ? subs : subs.filter(s => !s.escalation_only);
+    await Promise.all(targets.map(s => send(s, dose, day, stage!, late)));
+
+    const { error } = await sb.from("dose_reminders").upsert({
+      family_id: family.id, med_id: dose.med_id, day, time_slot: dose.time_slot,
+      stage, sent_at: new Date().toISOString(), snoozed_until: null,
+    });
+    if (error) console.error("upsert dose_reminders", error);
+  }
+}
+
+Deno.serve(async req => {
+  if (req.headers.get("Authorization") !== `Bearer ${SERVICE_KEY}`) {
+    return new Response("Non autorizzato", { status: 401 });
+  }
+
+  const { data: subsData, error: subsError } = await sb.from("push_subscriptions")
+    .select(PUSH_SUB_SELECT);
+  if (subsError) {
+    console.error("select push_subscriptions", subsError);
+    return new Response("Errore", { status: 500 });
+  }
+  const byFamily = new Map<string, Sub[]>();
+  for (const s of (subsData || []) as (Sub & { family_id: string })[]) {
+    byFamily.set(s.family_id, [...(byFamily.get(s.family_id) || []), s]);
+  }
+  if (byFamily.size === 0) return Response.json({ families: 0 });
+
+  const { data: families, error } = await sb.from("families")
+    .select("id,timezone,day_cutoff,escalate_after_min")
+    .in("id", [...byFamily.keys()]);
+  if (error) {
+    console.error("select families", error);
+    return new Response("Errore", { status: 500 });
+  }
+
+  for (const f of (families || []) as Family[]) {
+    await remindFamily(f, byFamily.get(f.id) || []);
+  }
+  return Response.json({ families: (families || []).length });
+});
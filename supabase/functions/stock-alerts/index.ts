@@ -0,0 +1,114 @@
+// ---------- Avvisi scorte: push agli admin e riepilogo email giornaliero ----------
+// Da chiamare ogni ora (cron con la service role, come dose-reminders):
+//   select cron.schedule('stock-alerts', '7 * * * *', $$ select net.http_post(
+//     url := 'https://<progetto>.functions.supabase.co/stock-alerts',
+//     headers := jsonb_build_object('Authorization', 'Bearer <service role key>')) $$);
+// Prima riallinea la copia della prescrizione in meds (sync_med_copies: le
+// versioni datate nel futuro entrano in vigore il loro giorno) e svuota il
+// cestino dei farmaci scaduti (purge_expired_meds, anche senza pg_cron).
+// refresh_stock_alerts apre/chiude gli avvisi; qui si manda un push per ogni
+// avviso nuovo (o tornato attivo dopo "Posticipa") e, dopo alert_digest_hour,
+// una sola email al giorno con gli avvisi non ancora visti.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { localNow, qtyShort } from "../_shared/format.ts";
+import { sendMail } from "../_shared/mailer.ts";
+import { sendPush, PUSH_SUB_SELECT, type PushSub } from "../_shared/push.ts";
+
+type Alert = {
+  med_id: string; kind: "low" | "runout"; total: number; days_left: number | null;
+  pushed_at: string | null; acked_at: string | null; snoozed_until: string | null;
+};
+type MedInfo = { id: string; name: string; unit: string | null; threshold: number; patient: { name: string } | null };
+type Family = { id: string; name: string | null; timezone: string; alert_digest_hour: number; alert_digest_sent_on: string | null };
+
+const SERVICE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const APP_URL = Deno.env.get("APP_URL") || "";
+
+const sb = createClient(Deno.env.get("SUPABASE_URL")!, SERVICE_KEY, { auth: { persistSession: false } });
+
+function alertText(a: Alert, m: MedInfo | undefined) {
+  const name = m ? `${m.name}${m.patient ? ` (${m.patient.name})` : ""}` : "Farmaco";
+  return a.kind === "low"
+    ? { title: `📦 ${name}: scorte sotto soglia`, body: `Restano ${qtyShort(a.total, m?.unit ?? null)} (soglia ${m?.threshold ?? "?"}).` }
+    : {
+      title: `⏳ ${name}: in esaurimento`,
+      body: a.days_left === 0 ? "Le scorte non coprono le dosi di oggi." : `Scorte per ${a.days_left} ${a.days_left === 1 ? "giorno" : "giorni"}.`,
+    };
+}
+
+async function alertFamily(f: Family) {
+  const { data: alertsData, error } = await sb.rpc("refresh_stock_alerts", { p_family: f.id });
+  if (error) { console.error("rpc refresh_stock_alerts", error); return; }
+  const alerts = (alertsData || []) as Alert[];
+  const now = Date.now();
+  const { day, minutes } = localNow(f.timezone || "Europe/Rome");
+  const digestDue = minutes >= f.alert_digest_hour * 60 && f.alert_digest_sent_on !== day;
+  const quiet = (a: Alert) => !!a.acked_at || (!!a.snoozed_until && Date.parse(a.snoozed_until) > now);
+  const toPush = alerts.filter(a => !quiet(a) && !a.pushed_at);
+  const toMail = digestDue ? alerts.filter(a => !quiet(a)) : [];
+  if (toPush.length === 0 && !digestDue) return;
+
+  const [adminsRes, medsRes] = await Promise.all([
+    sb.from("profiles").select("id,email").eq("family_id", f.id).eq("role", "admin"),
+    sb.from("meds").select("id,name,unit,threshold,patient:patients(name)").in("id", alerts.map(a => a.med_id)),
+  ]);
+  if (adminsRes.error) console.error("select profiles (admin)", adminsRes.error);
+  if (medsRes.error) console.error("select meds (avvisi)", medsRes.error);
+  const admins = (adminsRes.data || []) as { id: string; email: string }[];
+  const meds = new Map(((medsRes.data || []) as unknown as MedInfo[]).map(m => [m.id, m]));
+
+  if (toPush.length > 0 && admins.length > 0) {
+    const { data: subs, error: subsError } = await sb.from("push_subscriptions")
+      .select(PUSH_SUB_SELECT).in("user_id", admins.map(a => a.id));
+    if (subsError) console.error("select push_subscriptions", subsError);
+    for (const a of toPush) {
+      const payload = { ...alertText(a, meds.get(a.med_id)), tag: `stock-${a.med_id}-${a.kind}`, data: { url: "/?view=stocks" } };
+      await Promise.all(((subs || []) as PushSub[]).map(s => sendPush(sb, s, payload)));
+      const { error: upError } = await sb.from("stock_alerts")
+        .update({ pushed_at: new Date().toISOString() }).eq("med_id", a.med_id).eq("kind", a.kind);
+      if (upError) console.error("update stock_alerts (push)", upError);
+    }
+  }
+
+  if (!digestDue) return;
+  if (toMail.length > 0) {
+    const lines = toMail.map(a => {
+      const t = alertText(a, meds.get(a.med_id));
+      return `• ${t.title.replace(/^\S+\s/, "")} — ${t.body}`;
+    });
+    const sent = await sendMail({
+      to: admins.map(a => a.email),
+      subject: `Scorte farmaci${f.name ? ` · ${f.name}` : ""}: ${toMail.length} ${toMail.length === 1 ? "avviso" : "avvisi"}`,
+      text: [...lines, "", `Apri l'app per segnare gli avvisi come visti o posticiparli.${APP_URL ? `\n${APP_URL}/?view=stocks` : ""}`].join("\n"),
+    });
+    if (!sent) return; // si riprova al prossimo giro
+    for (const a of toMail) {
+      const { error: upError } = await sb.from("stock_alerts")
+        .update({ emailed_at: new Date().toISOString() }).eq("med_id", a.med_id).eq("kind", a.kind);
+      if (upError) console.error("update stock_alerts (email)", upError);
+    }
+  }
+  const { error: famError } = await sb.from("families").update({ alert_digest_sent_on: day }).eq("id", f.id);
+  if (famError) console.error("update families (riepilogo)", famError);
+}
+
+Deno.serve(async req => {
+  if (req.headers.get("Authorization") !== `Bearer ${SERVICE_KEY}`) {
+    return new Response("Non autorizzato", { status: 401 });
+  }
+  const { data: families, error } = await sb.from("families")
+    .select("id,name,timezone,alert_digest_hour,alert_digest_sent_on");
+  if (error) {
+    console.error("select families", error);
+    return new Response("Errore", { status: 500 });
+  }
+  const { error: purgeError } = await sb.rpc("purge_expired_meds");
+  if (purgeError) console.error("rpc purge_expired_meds", purgeError);
+  for (const f of (families || []) as Family[]) {
+    const { error: syncError } = await sb.rpc("sync_med_copies", { p_family: f.id });
+    if (syncError) console.error("rpc sync_med_copies", syncError);
+    await alertFamily(f);
+  }
+  return Response.json({ families: (families || []).length });
+});
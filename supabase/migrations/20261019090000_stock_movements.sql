@@ -0,0 +1,51 @@
+-- ---------- Registro movimenti scorte ----------
+-- Le scorte non si sovrascrivono più: ogni variazione (dose presa, travaso
+-- Dispensa → Box, acquisto in farmacia, correzione manuale) è una riga
+-- append-only. Il saldo Box/Dispensa è la somma dei movimenti.
+
+-- famiglia dell'utente loggato (usata dalle policy RLS)
+create or replace function public.current_family_id()
+returns uuid
+language sql stable security definer
+set search_path = public
+as $$
+  select family_id from public.profiles where id = auth.uid()
+$$;
+
+create table if not exists public.stock_movements (
+  id          uuid primary key default gen_random_uuid(),
+  family_id   uuid not null references public.families(id) on delete cascade,
+  med_id      uuid not null references public.meds(id) on delete cascade,
+  location    text not null check (location in ('Box', 'Dispensa')),
+  delta       numeric(10, 2) not null check (delta <> 0),
+  kind        text not null check (kind in ('dose', 'transfer', 'purchase', 'correction')),
+  reason      text,
+  created_by  uuid references public.profiles(id) default auth.uid(),
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists stock_movements_med_idx
+  on public.stock_movements (med_id, created_at desc);
+
+-- append-only: niente update, delete solo tramite cascade sul farmaco
+alter table public.stock_movements enable row level security;
+
+create policy "stock_movements_select" on public.stock_movements
+  for select using (family_id = public.current_family_id());
+create policy "stock_movements_insert" on public.stock_movements
+  for insert with check (family_id = public.current_family_id() and created_by = auth.uid());
+
+-- saldo derivato per farmaco/luogo (stessa forma della vecchia tabella stocks)
+create or replace view public.stock_balances
+with (security_invoker = true) as
+  select med_id, location, coalesce(sum(delta), 0) as qty
+  from public.stock_movements
+  group by med_id, location;
+
+-- ---------- Migrazione dati ----------
+-- le quantità attuali diventano una correzione iniziale
+insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, created_by)
+select m.family_id, s.med_id, s.location, s.qty, 'correction', 'Saldo iniziale (migrazione da stocks)', null
+from public.stocks s
+join public.meds m on m.id = s.med_id
+where coalesce(s.qty, 0) <> 0;
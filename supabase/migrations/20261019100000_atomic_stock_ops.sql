@@ -0,0 +1,103 @@
+-- ---------- Operazioni scorte atomiche (RPC) ----------
+-- Ogni spunta/annullamento e ogni travaso è una sola transazione lato server:
+-- il delta sul Box viene applicato esattamente una volta per assunzione,
+-- anche con doppi tap o più familiari che agiscono insieme.
+
+-- id operazione generato dal client: un retry con lo stesso op_id non duplica
+alter table public.stock_movements add column if not exists op_id uuid;
+create unique index if not exists stock_movements_op_idx
+  on public.stock_movements (op_id, location) where op_id is not null;
+
+-- saldo corrente di un farmaco
+create or replace function public.med_balance(p_med_id uuid)
+returns table (box numeric, dispensa numeric)
+language sql stable
+as $$
+  select
+    coalesce(sum(delta) filter (where location = 'Box'), 0),
+    coalesce(sum(delta) filter (where location = 'Dispensa'), 0)
+  from public.stock_movements
+  where med_id = p_med_id
+$$;
+
+-- blocca il farmaco (serializza le operazioni sullo stesso med) e ne verifica la famiglia
+create or replace function public.lock_med(p_med_id uuid)
+returns public.meds
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+begin
+  select * into v_med from public.meds where id = p_med_id for update;
+  if not found or v_med.family_id is distinct from public.current_family_id() then
+    raise exception 'Farmaco non trovato' using errcode = 'P0002';
+  end if;
+  return v_med;
+end;
+$$;
+
+-- segna/annulla una dose: idempotente rispetto allo stato richiesto
+create or replace function public.set_intake(p_med_id uuid, p_day date, p_time_slot text, p_taken boolean)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_changed boolean := false;
+  v_was boolean;
+begin
+  v_med := public.lock_med(p_med_id);
+
+  if p_taken then
+    insert into public.intake_logs (family_id, day, time_slot, med_id, taken)
+    values (v_med.family_id, p_day, p_time_slot, p_med_id, true)
+    on conflict (family_id, day, time_slot, med_id)
+      do update set taken = true where intake_logs.taken is not true
+    returning true into v_changed;
+  else
+    delete from public.intake_logs
+    where family_id = v_med.family_id and day = p_day and time_slot = p_time_slot and med_id = p_med_id
+    returning taken into v_was;
+    v_changed := coalesce(v_was, false);
+  end if;
+
+  if coalesce(v_changed, false) then
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+    values (
+      v_med.family_id, p_med_id, 'Box',
+      case when p_taken then -v_med.per_dose else v_med.per_dose end,
+      'dose',
+      format('%s %s %s', case when p_taken then 'Presa' else 'Annullata' end, p_day, p_time_slot)
+    );
+  end if;
+
+  return query select * from public.med_balance(p_med_id);
+end;
+$$;
+
+-- travaso Dispensa → Box (qty negativa = Box → Dispensa)
+create or replace function public.transfer_stock(p_med_id uuid, p_qty numeric, p_op_id uuid)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+begin
+  if p_qty is null or p_qty = 0 then
+    raise exception 'Quantità non valida' using errcode = '22023';
+  end if;
+  v_med := public.lock_med(p_med_id);
+
+  insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, op_id)
+  values
+    (v_med.family_id, p_med_id, 'Dispensa', -p_qty, 'transfer', 'Dispensa → Box', p_op_id),
+    (v_med.family_id, p_med_id, 'Box', p_qty, 'transfer', 'Dispensa → Box', p_op_id)
+  on conflict (op_id, location) where op_id is not null do nothing;
+
+  return query select * from public.med_balance(p_med_id);
+end;
+$$;
+
+grant execute on function public.med_balance(uuid) to authenticated;
+grant execute on function public.set_intake(uuid, date, text, boolean) to authenticated;
+grant execute on function public.transfer_stock(uuid, numeric, uuid) to authenticated;
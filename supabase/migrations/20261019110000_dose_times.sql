@@ -0,0 +1,87 @@
+-- ---------- Orari esatti di assunzione ----------
+-- meds.doses = [{ "time": "08:00", "qty": 1 }, ...] sostituisce times + per_dose.
+-- Le fasce (Mattina/Mezzogiorno/Sera) diventano configurabili per famiglia.
+
+alter table public.meds add column if not exists doses jsonb not null default '[]'::jsonb;
+alter table public.meds alter column times drop not null;
+alter table public.meds alter column per_dose drop not null;
+
+alter table public.families add column if not exists slots jsonb not null default '[
+  { "name": "Mattina",     "start": "05:00", "color": "#E8F4FF" },
+  { "name": "Mezzogiorno", "start": "11:00", "color": "#FFF6E5" },
+  { "name": "Sera",        "start": "17:00", "color": "#F3E8FF" }
+]'::jsonb;
+
+-- orario di riferimento delle vecchie fasce
+create or replace function public.legacy_slot_time(p_slot text)
+returns text
+language sql immutable
+as $$
+  select case p_slot
+    when 'Mattina' then '08:00'
+    when 'Mezzogiorno' then '12:00'
+    when 'Sera' then '21:00'
+    else p_slot
+  end
+$$;
+
+-- ---------- Migrazione dati ----------
+update public.meds m
+set doses = coalesce((
+  select jsonb_agg(jsonb_build_object('time', public.legacy_slot_time(t), 'qty', coalesce(m.per_dose, 1))
+                   order by public.legacy_slot_time(t))
+  from unnest(m.times::text[]) as t
+), '[]'::jsonb)
+where m.doses = '[]'::jsonb and m.times is not null;
+
+-- i log esistenti puntano all'orario della dose corrispondente
+update public.intake_logs
+set time_slot = public.legacy_slot_time(time_slot)
+where time_slot in ('Mattina', 'Mezzogiorno', 'Sera');
+
+-- ---------- set_intake: quantità per orario ----------
+create or replace function public.set_intake(p_med_id uuid, p_day date, p_time_slot text, p_taken boolean)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_qty numeric;
+  v_changed boolean := false;
+  v_was boolean;
+begin
+  v_med := public.lock_med(p_med_id);
+  p_time_slot := public.legacy_slot_time(p_time_slot);
+
+  select (d->>'qty')::numeric into v_qty
+  from jsonb_array_elements(v_med.doses) d
+  where d->>'time' = p_time_slot
+  limit 1;
+  v_qty := coalesce(v_qty, v_med.per_dose, 1);
+
+  if p_taken then
+    insert into public.intake_logs (family_id, day, time_slot, med_id, taken)
+    values (v_med.family_id, p_day, p_time_slot, p_med_id, true)
+    on conflict (family_id, day, time_slot, med_id)
+      do update set taken = true where intake_logs.taken is not true
+    returning true into v_changed;
+  else
+    delete from public.intake_logs
+    where family_id = v_med.family_id and day = p_day and time_slot = p_time_slot and med_id = p_med_id
+    returning taken into v_was;
+    v_changed := coalesce(v_was, false);
+  end if;
+
+  if coalesce(v_changed, false) then
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+    values (
+      v_med.family_id, p_med_id, 'Box',
+      case when p_taken then -v_qty else v_qty end,
+      'dose',
+      format('%s %s %s', case when p_taken then 'Presa' else 'Annullata' end, p_day, p_time_slot)
+    );
+  end if;
+
+  return query select * from public.med_balance(p_med_id);
+end;
+$$;
@@ -0,0 +1,70 @@
+-- ---------- Ricorrenza dei farmaci ----------
+-- meds.schedule (null = tutti i giorni):
+--   { "recurrence": { "kind": "daily" }
+--                 | { "kind": "every_n_days", "every": 2 }
+--                 | { "kind": "weekdays", "days": [1, 4] },      -- 1 = lunedì
+--     "start": "2026-10-01" | null, "end": "2026-10-10" | null,
+--     "taper": [ { "from": "2026-10-08", "qty": 0.5 }, ... ] }   -- scalaggio
+
+alter table public.meds add column if not exists schedule jsonb;
+
+-- quantità di una dose in un giorno: lo step di scalaggio in vigore prevale
+create or replace function public.dose_qty_on(p_med public.meds, p_time text, p_day date)
+returns numeric
+language sql stable
+as $$
+  select coalesce(
+    (select (t->>'qty')::numeric
+       from jsonb_array_elements(coalesce(p_med.schedule->'taper', '[]'::jsonb)) t
+      where (t->>'from')::date <= p_day
+      order by (t->>'from')::date desc
+      limit 1),
+    (select (d->>'qty')::numeric
+       from jsonb_array_elements(p_med.doses) d
+      where d->>'time' = p_time
+      limit 1),
+    p_med.per_dose,
+    1
+  )
+$$;
+
+create or replace function public.set_intake(p_med_id uuid, p_day date, p_time_slot text, p_taken boolean)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_qty numeric;
+  v_changed boolean := false;
+  v_was boolean;
+begin
+  v_med := public.lock_med(p_med_id);
+  p_time_slot := public.legacy_slot_time(p_time_slot);
+  v_qty := public.dose_qty_on(v_med, p_time_slot, p_day);
+
+  if p_taken then
+    insert into public.intake_logs (family_id, day, time_slot, med_id, taken)
+    values (v_med.family_id, p_day, p_time_slot, p_med_id, true)
+    on conflict (family_id, day, time_slot, med_id)
+      do update set taken = true where intake_logs.taken is not true
+    returning true into v_changed;
+  else
+    delete from public.intake_logs
+    where family_id = v_med.family_id and day = p_day and time_slot = p_time_slot and med_id = p_med_id
+    returning taken into v_was;
+    v_changed := coalesce(v_was, false);
+  end if;
+
+  if coalesce(v_changed, false) then
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+    values (
+      v_med.family_id, p_med_id, 'Box',
+      case when p_taken then -v_qty else v_qty end,
+      'dose',
+      format('%s %s %s', case when p_taken then 'Presa' else 'Annullata' end, p_day, p_time_slot)
+    );
+  end if;
+
+  return query select * from public.med_balance(p_med_id);
+end;
+$$;
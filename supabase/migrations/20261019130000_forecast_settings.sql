@@ -0,0 +1,8 @@
+-- ---------- Impostazioni previsione scorte ----------
+-- lead_days: giorni di attesa in farmacia (ordine/ricetta) prima di avere il farmaco
+-- forecast_days: quanti giorni di intake_logs usare per stimare il consumo reale
+
+alter table public.families add column if not exists lead_days integer not null default 3
+  check (lead_days between 0 and 60);
+alter table public.families add column if not exists forecast_days integer not null default 14
+  check (forecast_days between 1 and 90);
@@ -0,0 +1,5 @@
+-- ---------- Lista farmacia ----------
+-- pezzi per confezione: la quantità suggerita si arrotonda a confezioni intere
+
+alter table public.meds add column if not exists pack_size integer
+  check (pack_size is null or pack_size > 0);
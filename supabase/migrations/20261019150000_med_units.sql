@@ -0,0 +1,9 @@
+-- ---------- Unità di misura e dosi frazionate ----------
+-- unit: forma del farmaco; le quantità (dosi, scorte) sono in questa unità e
+-- possono essere frazionarie (es. ½ compressa di Bisoprololo 1.25 mg).
+
+alter table public.meds add column if not exists unit text not null default 'tablet'
+  check (unit in ('tablet', 'capsule', 'drops', 'ml', 'sachet', 'injection'));
+
+-- le quantità del registro erano già numeric(10,2); i vecchi log interi restano validi
+alter table public.meds alter column per_dose type numeric(10, 2);
@@ -0,0 +1,30 @@
+-- ---------- Replay delle operazioni offline ----------
+-- Le operazioni accodate offline vengono reinviate con lo stesso op_id: l'indice
+-- copre anche med_id (un acquisto in blocco ha più farmaci con lo stesso op_id)
+-- e non è parziale, così PostgREST può usarlo in on_conflict.
+
+drop index if exists public.stock_movements_op_idx;
+create unique index if not exists stock_movements_op_idx
+  on public.stock_movements (op_id, med_id, location);
+
+create or replace function public.transfer_stock(p_med_id uuid, p_qty numeric, p_op_id uuid)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+begin
+  if p_qty is null or p_qty = 0 then
+    raise exception 'Quantità non valida' using errcode = '22023';
+  end if;
+  v_med := public.lock_med(p_med_id);
+
+  insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, op_id)
+  values
+    (v_med.family_id, p_med_id, 'Dispensa', -p_qty, 'transfer', 'Dispensa → Box', p_op_id),
+    (v_med.family_id, p_med_id, 'Box', p_qty, 'transfer', 'Dispensa → Box', p_op_id)
+  on conflict (op_id, med_id, location) do nothing;
+
+  return query select * from public.med_balance(p_med_id);
+end;
+$$;
@@ -0,0 +1,84 @@
+-- ---------- Sync in tempo reale tra caregiver ----------
+-- intake_logs ricorda chi e quando ha segnato la dose; le tabelle entrano nella
+-- publication di Supabase Realtime (replica identity full: i DELETE portano la
+-- riga intera, così il client sa quale spunta togliere).
+
+alter table public.intake_logs add column if not exists updated_at timestamptz not null default now();
+alter table public.intake_logs add column if not exists updated_by uuid references public.profiles(id) default auth.uid();
+alter table public.intake_logs replica identity full;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['intake_logs', 'stock_movements', 'meds'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end;
+$$;
+
+-- i caregiver della stessa famiglia si vedono (email negli avvisi "già segnata da…")
+drop policy if exists "profiles family read" on public.profiles;
+create policy "profiles family read" on public.profiles
+  for select using (family_id = public.current_family_id());
+
+-- set_intake dice anche se ha cambiato qualcosa e, se la dose era già
+-- segnata, da chi e quando (per avvisare di non darla due volte)
+drop function if exists public.set_intake(uuid, date, text, boolean);
+create function public.set_intake(p_med_id uuid, p_day date, p_time_slot text, p_taken boolean)
+returns table (box numeric, dispensa numeric, changed boolean, marked_by uuid, marked_by_email text, marked_at timestamptz)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_qty numeric;
+  v_changed boolean := false;
+  v_was boolean;
+  v_by uuid;
+  v_at timestamptz;
+begin
+  v_med := public.lock_med(p_med_id);
+  p_time_slot := public.legacy_slot_time(p_time_slot);
+  v_qty := public.dose_qty_on(v_med, p_time_slot, p_day);
+
+  if p_taken then
+    insert into public.intake_logs (family_id, day, time_slot, med_id, taken, updated_at, updated_by)
+    values (v_med.family_id, p_day, p_time_slot, p_med_id, true, now(), auth.uid())
+    on conflict (family_id, day, time_slot, med_id)
+      do update set taken = true, updated_at = now(), updated_by = auth.uid()
+      where intake_logs.taken is not true
+    returning true into v_changed;
+  else
+    delete from public.intake_logs
+    where family_id = v_med.family_id and day = p_day and time_slot = p_time_slot and med_id = p_med_id
+    returning taken into v_was;
+    v_changed := coalesce(v_was, false);
+  end if;
+  v_changed := coalesce(v_changed, false);
+
+  if v_changed then
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+    values (
+      v_med.family_id, p_med_id, 'Box',
+      case when p_taken then -v_qty else v_qty end,
+      'dose',
+      format('%s %s %s', case when p_taken then 'Presa' else 'Annullata' end, p_day, p_time_slot)
+    );
+  elsif p_taken then
+    select l.updated_by, l.updated_at into v_by, v_at
+    from public.intake_logs l
+    where l.family_id = v_med.family_id and l.day = p_day and l.time_slot = p_time_slot and l.med_id = p_med_id;
+  end if;
+
+  return query
+    select b.box, b.dispensa, v_changed, v_by, (select p.email from public.profiles p where p.id = v_by), v_at
+    from public.med_balance(p_med_id) b;
+end;
+$$;
+
+grant execute on function public.set_intake(uuid, date, text, boolean) to authenticated;
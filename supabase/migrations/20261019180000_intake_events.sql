@@ -0,0 +1,130 @@
+-- ---------- Registro assunzioni ----------
+-- Ogni spunta, annullamento o nota è un evento append-only con chi l'ha fatto,
+-- l'ora reale e una nota libera ("a stomaco pieno", "vomitata, ridata").
+-- intake_logs resta lo stato corrente della dose: annullare non cancella più
+-- la riga ma la porta a taken = false.
+
+create table if not exists public.intake_events (
+  id          uuid primary key default gen_random_uuid(),
+  family_id   uuid not null references public.families(id) on delete cascade,
+  med_id      uuid not null references public.meds(id) on delete cascade,
+  day         date not null,
+  time_slot   text not null,
+  action      text not null check (action in ('taken', 'undone', 'note')),
+  at          timestamptz not null default now(),
+  note        text,
+  created_by  uuid references public.profiles(id) default auth.uid(),
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists intake_events_dose_idx
+  on public.intake_events (family_id, day, time_slot, med_id, created_at desc);
+
+alter table public.intake_events enable row level security;
+
+create policy "intake_events_select" on public.intake_events
+  for select using (family_id = public.current_family_id());
+create policy "intake_events_insert" on public.intake_events
+  for insert with check (family_id = public.current_family_id() and created_by = auth.uid());
+
+-- stato corrente: ora reale della presa e ultima nota
+alter table public.intake_logs add column if not exists taken_at timestamptz;
+alter table public.intake_logs add column if not exists note text;
+update public.intake_logs set taken_at = updated_at where taken and taken_at is null;
+
+-- ---------- Migrazione dati ----------
+-- le spunte esistenti diventano il primo evento della loro dose
+insert into public.intake_events (family_id, med_id, day, time_slot, action, at, created_by, created_at)
+select l.family_id, l.med_id, l.day, l.time_slot, 'taken', l.updated_at, l.updated_by, l.updated_at
+from public.intake_logs l
+where l.taken;
+
+-- ---------- set_intake con autore, ora reale e nota ----------
+-- p_at: quando la dose è stata data davvero (una spunta accodata offline
+-- arriva dopo); p_note: nota facoltativa salvata con l'evento.
+drop function if exists public.set_intake(uuid, date, text, boolean);
+create function public.set_intake(
+  p_med_id uuid, p_day date, p_time_slot text, p_taken boolean,
+  p_note text default null, p_at timestamptz default null
+)
+returns table (box numeric, dispensa numeric, changed boolean, marked_by uuid, marked_by_email text, marked_at timestamptz)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_qty numeric;
+  v_changed boolean := false;
+  v_at timestamptz := coalesce(p_at, now());
+  v_note text := nullif(btrim(p_note), '');
+  v_by uuid;
+  v_marked timestamptz;
+begin
+  v_med := public.lock_med(p_med_id);
+  p_time_slot := public.legacy_slot_time(p_time_slot);
+  v_qty := public.dose_qty_on(v_med, p_time_slot, p_day);
+
+  if p_taken then
+    insert into public.intake_logs (family_id, day, time_slot, med_id, taken, taken_at, note, updated_at, updated_by)
+    values (v_med.family_id, p_day, p_time_slot, p_med_id, true, v_at, v_note, now(), auth.uid())
+    on conflict (family_id, day, time_slot, med_id)
+      do update set taken = true, taken_at = v_at, note = v_note, updated_at = now(), updated_by = auth.uid()
+      where intake_logs.taken is not true
+    returning true into v_changed;
+  else
+    update public.intake_logs
+    set taken = false, taken_at = null, note = v_note, updated_at = now(), updated_by = auth.uid()
+    where family_id = v_med.family_id and day = p_day and time_slot = p_time_slot and med_id = p_med_id
+      and taken
+    returning true into v_changed;
+  end if;
+  v_changed := coalesce(v_changed, false);
+
+  if v_changed then
+    insert into public.intake_events (family_id, med_id, day, time_slot, action, at, note)
+    values (v_med.family_id, p_med_id, p_day, p_time_slot, case when p_taken then 'taken' else 'undone' end, v_at, v_note);
+
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+    values (
+      v_med.family_id, p_med_id, 'Box',
+      case when p_taken then -v_qty else v_qty end,
+      'dose',
+      format('%s %s %s', case when p_taken then 'Presa' else 'Annullata' end, p_day, p_time_slot)
+    );
+  elsif p_taken then
+    select l.updated_by, coalesce(l.taken_at, l.updated_at) into v_by, v_marked
+    from public.intake_logs l
+    where l.family_id = v_med.family_id and l.day = p_day and l.time_slot = p_time_slot and l.med_id = p_med_id;
+  end if;
+
+  return query
+    select b.box, b.dispensa, v_changed, v_by, (select p.email from public.profiles p where p.id = v_by), v_marked
+    from public.med_balance(p_med_id) b;
+end;
+$$;
+
+grant execute on function public.set_intake(uuid, date, text, boolean, text, timestamptz) to authenticated;
+
+-- nota aggiunta dopo (es. "vomitata, ridata"): evento + ultima nota sulla dose
+create or replace function public.note_intake(p_med_id uuid, p_day date, p_time_slot text, p_note text)
+returns void
+language plpgsql
+as $$
+declare
+  v_family uuid;
+begin
+  select family_id into v_family from public.meds where id = p_med_id;
+  if v_family is null or v_family <> public.current_family_id() then
+    raise exception 'Farmaco non trovato';
+  end if;
+  p_time_slot := public.legacy_slot_time(p_time_slot);
+
+  insert into public.intake_events (family_id, med_id, day, time_slot, action, note)
+  values (v_family, p_med_id, p_day, p_time_slot, 'note', p_note);
+
+  update public.intake_logs
+  set note = p_note, updated_at = now(), updated_by = auth.uid()
+  where family_id = v_family and day = p_day and time_slot = p_time_slot and med_id = p_med_id;
+end;
+$$;
+
+grant execute on function public.note_intake(uuid, date, text, text) to authenticated;
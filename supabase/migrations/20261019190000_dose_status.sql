@@ -0,0 +1,108 @@
+-- ---------- Stato dose: presa / saltata ----------
+-- Oltre a "presa" una dose può essere saltata di proposito (con motivo: su
+-- indicazione del medico, rifiutata…). Una dose saltata non scala il Box.
+-- "In ritardo", "da dare" e "non data" si ricavano dall'orario sul client.
+-- status null = nessuna registrazione (riga rimasta dopo un annullamento).
+
+alter table public.intake_logs add column if not exists status text check (status in ('taken', 'skipped'));
+alter table public.intake_logs add column if not exists skip_reason text;
+update public.intake_logs set status = 'taken' where taken and status is null;
+
+alter table public.intake_events drop constraint if exists intake_events_action_check;
+alter table public.intake_events add constraint intake_events_action_check
+  check (action in ('taken', 'skipped', 'undone', 'note'));
+
+-- p_status: 'taken' | 'skipped' | 'pending' (= annulla quanto registrato).
+-- Il Box cambia solo entrando o uscendo da 'taken'.
+create or replace function public.set_dose_status(
+  p_med_id uuid, p_day date, p_time_slot text, p_status text,
+  p_reason text default null, p_note text default null, p_at timestamptz default null
+)
+returns table (box numeric, dispensa numeric, changed boolean, marked_by uuid, marked_by_email text, marked_at timestamptz)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_qty numeric;
+  v_prev text;
+  v_next text := nullif(p_status, 'pending');
+  v_at timestamptz := coalesce(p_at, now());
+  v_note text := nullif(btrim(p_note), '');
+  v_reason text := nullif(btrim(p_reason), '');
+  v_by uuid;
+  v_marked timestamptz;
+begin
+  if p_status not in ('taken', 'skipped', 'pending') then
+    raise exception 'Stato dose non valido: %', p_status;
+  end if;
+  if v_next = 'skipped' and v_reason is null then
+    raise exception 'Indica il motivo per cui la dose è saltata';
+  end if;
+
+  v_med := public.lock_med(p_med_id);
+  p_time_slot := public.legacy_slot_time(p_time_slot);
+  v_qty := public.dose_qty_on(v_med, p_time_slot, p_day);
+
+  select l.status, l.updated_by, coalesce(l.taken_at, l.updated_at) into v_prev, v_by, v_marked
+  from public.intake_logs l
+  where l.family_id = v_med.family_id and l.day = p_day and l.time_slot = p_time_slot and l.med_id = p_med_id;
+
+  -- niente da cambiare: se era già presa si dice da chi e quando
+  if v_prev is not distinct from v_next then
+    return query
+      select b.box, b.dispensa, false,
+        case when v_next = 'taken' then v_by end,
+        case when v_next = 'taken' then (select p.email from public.profiles p where p.id = v_by) end,
+        case when v_next = 'taken' then v_marked end
+      from public.med_balance(p_med_id) b;
+    return;
+  end if;
+
+  insert into public.intake_logs (family_id, day, time_slot, med_id, taken, status, skip_reason, taken_at, note, updated_at, updated_by)
+  values (
+    v_med.family_id, p_day, p_time_slot, p_med_id, v_next = 'taken', v_next,
+    case when v_next = 'skipped' then v_reason end,
+    case when v_next is not null then v_at end,
+    v_note, now(), auth.uid()
+  )
+  on conflict (family_id, day, time_slot, med_id) do update set
+    taken = excluded.taken, status = excluded.status, skip_reason = excluded.skip_reason,
+    taken_at = excluded.taken_at, note = excluded.note, updated_at = now(), updated_by = auth.uid();
+
+  insert into public.intake_events (family_id, med_id, day, time_slot, action, at, note)
+  values (
+    v_med.family_id, p_med_id, p_day, p_time_slot,
+    coalesce(v_next, 'undone'), v_at,
+    case when v_next = 'skipped' then concat_ws(' — ', v_reason, v_note) else v_note end
+  );
+
+  if v_next = 'taken' or v_prev = 'taken' then
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+    values (
+      v_med.family_id, p_med_id, 'Box',
+      case when v_next = 'taken' then -v_qty else v_qty end,
+      'dose',
+      format('%s %s %s', case v_next when 'taken' then 'Presa' when 'skipped' then 'Saltata' else 'Annullata' end, p_day, p_time_slot)
+    );
+  end if;
+
+  return query
+    select b.box, b.dispensa, true, null::uuid, null::text, null::timestamptz
+    from public.med_balance(p_med_id) b;
+end;
+$$;
+
+grant execute on function public.set_dose_status(uuid, date, text, text, text, text, timestamptz) to authenticated;
+
+-- compatibilità (client non aggiornati): presa / annullata
+create or replace function public.set_intake(
+  p_med_id uuid, p_day date, p_time_slot text, p_taken boolean,
+  p_note text default null, p_at timestamptz default null
+)
+returns table (box numeric, dispensa numeric, changed boolean, marked_by uuid, marked_by_email text, marked_at timestamptz)
+language sql
+as $$
+  select * from public.set_dose_status(
+    p_med_id, p_day, p_time_slot, case when p_taken then 'taken' else 'pending' end, null, p_note, p_at
+  )
+$$;
@@ -0,0 +1,77 @@
+-- ---------- Storico farmaci ----------
+-- Per la vista "Storico" servono: da quando esiste un farmaco, quando è stato
+-- archiviato e come è cambiata la terapia nel tempo (orari, dosi, ricorrenza),
+-- così l'aderenza di un periodo passato si calcola sulla terapia di allora.
+
+alter table public.meds add column if not exists created_at timestamptz;
+alter table public.meds add column if not exists archived_at timestamptz;
+
+-- farmaci esistenti: la prima assunzione registrata è la miglior stima
+update public.meds m
+set created_at = coalesce(
+  (select min(l.day)::timestamptz from public.intake_logs l where l.med_id = m.id),
+  (select min(s.created_at) from public.stock_movements s where s.med_id = m.id),
+  now()
+)
+where m.created_at is null;
+alter table public.meds alter column created_at set default now();
+alter table public.meds alter column created_at set not null;
+
+update public.meds m
+set archived_at = coalesce(
+  (select max(l.day)::timestamptz + interval '1 day' from public.intake_logs l where l.med_id = m.id),
+  now()
+)
+where m.archived and m.archived_at is null;
+
+-- ogni modifica della terapia (scritta dal trigger, non dal client)
+create table if not exists public.med_changes (
+  id          uuid primary key default gen_random_uuid(),
+  family_id   uuid not null references public.families(id) on delete cascade,
+  med_id      uuid not null references public.meds(id) on delete cascade,
+  before      jsonb,
+  after       jsonb not null,
+  changed_by  uuid references public.profiles(id) default auth.uid(),
+  changed_at  timestamptz not null default now()
+);
+
+create index if not exists med_changes_family_idx
+  on public.med_changes (family_id, changed_at desc);
+
+alter table public.med_changes enable row level security;
+
+create policy "med_changes_select" on public.med_changes
+  for select using (family_id = public.current_family_id());
+
+-- campi che contano per la terapia (threshold/pack_size no)
+create or replace function public.med_snapshot(m public.meds)
+returns jsonb
+language sql immutable
+as $$
+  select jsonb_build_object(
+    'name', m.name, 'dosage', m.dosage, 'doses', m.doses, 'schedule', m.schedule,
+    'unit', m.unit, 'archived', coalesce(m.archived, false)
+  )
+$$;
+
+create or replace function public.log_med_change()
+returns trigger
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.med_changes (family_id, med_id, before, after, changed_by)
+    values (new.family_id, new.id, null, public.med_snapshot(new), auth.uid());
+  elsif public.med_snapshot(old) is distinct from public.med_snapshot(new) then
+    insert into public.med_changes (family_id, med_id, before, after, changed_by)
+    values (new.family_id, new.id, public.med_snapshot(old), public.med_snapshot(new), auth.uid());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists meds_log_change on public.meds;
+create trigger meds_log_change
+  after insert or update on public.meds
+  for each row execute function public.log_med_change();
@@ -0,0 +1,143 @@
+-- ---------- Versioni della prescrizione ----------
+-- Dosaggio, orari/dosi e ricorrenza hanno una data di entrata in vigore,
+-- chi li ha prescritti e una nota. Ogni giorno usa la versione in vigore
+-- allora: le settimane passate non cambiano quando il medico cambia la dose.
+-- meds.dosage/doses/schedule restano la copia della versione di oggi.
+
+create table if not exists public.med_versions (
+  id              uuid primary key default gen_random_uuid(),
+  family_id       uuid not null references public.families(id) on delete cascade,
+  med_id          uuid not null references public.meds(id) on delete cascade,
+  effective_from  date not null,
+  dosage          text,
+  doses           jsonb not null default '[]'::jsonb,
+  schedule        jsonb,
+  prescriber      text,
+  note            text,
+  created_by      uuid references public.profiles(id) default auth.uid(),
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists med_versions_med_idx
+  on public.med_versions (med_id, effective_from desc, created_at desc);
+
+alter table public.med_versions enable row level security;
+
+create policy "med_versions_select" on public.med_versions
+  for select using (family_id = public.current_family_id());
+create policy "med_versions_insert" on public.med_versions
+  for insert with check (family_id = public.current_family_id() and created_by = auth.uid());
+
+-- ---------- Migrazione dati ----------
+-- la terapia attuale diventa la prima versione, in vigore da quando esiste il farmaco
+insert into public.med_versions (family_id, med_id, effective_from, dosage, doses, schedule, note, created_by, created_at)
+select m.family_id, m.id, m.created_at::date, m.dosage, coalesce(m.doses, '[]'::jsonb), m.schedule,
+       'Versione iniziale', null, m.created_at
+from public.meds m
+where not exists (select 1 from public.med_versions v where v.med_id = m.id);
+
+-- farmaci nuovi: prima versione automatica
+create or replace function public.init_med_version()
+returns trigger
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  insert into public.med_versions (family_id, med_id, effective_from, dosage, doses, schedule, created_by)
+  values (new.family_id, new.id, coalesce(new.created_at, now())::date, new.dosage, coalesce(new.doses, '[]'::jsonb), new.schedule, auth.uid());
+  return new;
+end;
+$$;
+
+drop trigger if exists meds_init_version on public.meds;
+create trigger meds_init_version
+  after insert on public.meds
+  for each row execute function public.init_med_version();
+
+-- il farmaco com'era il giorno p_day (se il giorno precede la prima versione vale la prima)
+create or replace function public.med_on(p_med public.meds, p_day date)
+returns public.meds
+language plpgsql stable
+as $$
+declare
+  v public.med_versions;
+  r public.meds := p_med;
+begin
+  select * into v from public.med_versions
+  where med_id = p_med.id and effective_from <= p_day
+  order by effective_from desc, created_at desc limit 1;
+  if not found then
+    select * into v from public.med_versions
+    where med_id = p_med.id
+    order by effective_from, created_at limit 1;
+  end if;
+  if found then
+    r.dosage := v.dosage;
+    r.doses := v.doses;
+    r.schedule := v.schedule;
+  end if;
+  return r;
+end;
+$$;
+
+-- le dosi scalate dal Box seguono la versione in vigore quel giorno
+create or replace function public.dose_qty_on(p_med public.meds, p_time text, p_day date)
+returns numeric
+language plpgsql stable
+as $$
+declare
+  v_med public.meds := public.med_on(p_med, p_day);
+begin
+  return coalesce(
+    (select (t->>'qty')::numeric
+       from jsonb_array_elements(coalesce(v_med.schedule->'taper', '[]'::jsonb)) t
+      where (t->>'from')::date <= p_day
+      order by (t->>'from')::date desc
+      limit 1),
+    (select (d->>'qty')::numeric
+       from jsonb_array_elements(v_med.doses) d
+      where d->>'time' = p_time
+      limit 1),
+    v_med.per_dose,
+    1
+  );
+end;
+$$;
+
+-- nuova versione + allineamento di meds alla versione di oggi (in un'unica transazione)
+create or replace function public.add_med_version(
+  p_med_id uuid, p_effective_from date, p_dosage text, p_doses jsonb, p_schedule jsonb,
+  p_prescriber text default null, p_note text default null
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_today public.meds;
+begin
+  v_med := public.lock_med(p_med_id);
+  insert into public.med_versions (family_id, med_id, effective_from, dosage, doses, schedule, prescriber, note)
+  values (
+    v_med.family_id, p_med_id, p_effective_from, nullif(btrim(p_dosage), ''), coalesce(p_doses, '[]'::jsonb), p_schedule,
+    nullif(btrim(p_prescriber), ''), nullif(btrim(p_note), '')
+  );
+  v_today := public.med_on(v_med, current_date);
+  update public.meds
+  set dosage = v_today.dosage, doses = v_today.doses, schedule = v_today.schedule
+  where id = p_med_id;
+end;
+$$;
+
+grant execute on function public.add_med_version(uuid, date, text, jsonb, jsonb, text, text) to authenticated;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'med_versions'
+  ) then
+    alter publication supabase_realtime add table public.med_versions;
+  end if;
+end;
+$$;
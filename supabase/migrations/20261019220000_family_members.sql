@@ -0,0 +1,227 @@
+-- ---------- Membri della famiglia: inviti e ruoli ----------
+-- Gli admin invitano per email, cambiano ruolo e rimuovono i membri; chi
+-- accede con un'email invitata entra in famiglia al primo login. I membri
+-- semplici danno le dosi e muovono le scorte, ma non toccano i farmaci né
+-- correggono le quantità assolute.
+
+-- l'utente loggato è admin della sua famiglia?
+create or replace function public.is_family_admin()
+returns boolean
+language sql stable security definer
+set search_path = public
+as $$
+  select coalesce((select role = 'admin' from public.profiles where id = auth.uid() and family_id is not null), false)
+$$;
+
+create table if not exists public.family_invites (
+  id          uuid primary key default gen_random_uuid(),
+  family_id   uuid not null references public.families(id) on delete cascade,
+  email       text not null check (email = lower(btrim(email)) and position('@' in email) > 1),
+  role        text not null default 'member' check (role in ('admin', 'member')),
+  invited_by  uuid references public.profiles(id) default auth.uid(),
+  created_at  timestamptz not null default now(),
+  unique (family_id, email)
+);
+
+alter table public.family_invites enable row level security;
+
+create policy "family_invites_select" on public.family_invites
+  for select using (family_id = public.current_family_id());
+create policy "family_invites_insert" on public.family_invites
+  for insert with check (family_id = public.current_family_id() and public.is_family_admin());
+create policy "family_invites_delete" on public.family_invites
+  for delete using (family_id = public.current_family_id() and public.is_family_admin());
+
+-- ---------- Famiglia e ruolo solo tramite le funzioni qui sotto ----------
+-- prima bastava un update sul proprio profilo per diventare admin di
+-- qualunque famiglia; ora family_id/role cambiano solo dentro le RPC
+-- (o dal service role, senza auth.uid()).
+create or replace function public.guard_profile_membership()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.family_id is distinct from old.family_id or new.role is distinct from old.role)
+     and auth.uid() is not null
+     and coalesce(current_setting('app.membership_rpc', true), '') <> 'on' then
+    raise exception 'Famiglia e ruolo si cambiano solo dalle impostazioni famiglia' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile_membership on public.profiles;
+create trigger guard_profile_membership
+  before update on public.profiles
+  for each row execute function public.guard_profile_membership();
+
+-- primo accesso senza inviti: nuova famiglia con l'utente admin
+create or replace function public.create_family(p_name text)
+returns uuid
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_family uuid;
+begin
+  if exists (select 1 from public.profiles where id = auth.uid() and family_id is not null) then
+    raise exception 'Fai già parte di una famiglia';
+  end if;
+  if nullif(btrim(p_name), '') is null then
+    raise exception 'Indica il nome della famiglia';
+  end if;
+  insert into public.families (name) values (btrim(p_name)) returning id into v_family;
+  perform set_config('app.membership_rpc', 'on', true);
+  update public.profiles set family_id = v_family, role = 'admin' where id = auth.uid();
+  return v_family;
+end;
+$$;
+
+-- al login: se c'è un invito per la mia email entro in quella famiglia
+create or replace function public.accept_invite()
+returns uuid
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_invite public.family_invites;
+begin
+  if exists (select 1 from public.profiles where id = auth.uid() and family_id is not null) then
+    return null;
+  end if;
+  select * into v_invite from public.family_invites
+  where email = lower(btrim(auth.jwt() ->> 'email'))
+  order by created_at desc
+  limit 1;
+  if not found then
+    return null;
+  end if;
+  perform set_config('app.membership_rpc', 'on', true);
+  update public.profiles set family_id = v_invite.family_id, role = v_invite.role where id = auth.uid();
+  delete from public.family_invites where email = v_invite.email;
+  return v_invite.family_id;
+end;
+$$;
+
+-- membro della mia famiglia (lock sulla riga), altrimenti errore
+create or replace function public.lock_member(p_user uuid)
+returns public.profiles
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_member public.profiles;
+begin
+  select * into v_member from public.profiles where id = p_user for update;
+  if not found or v_member.family_id is distinct from public.current_family_id() then
+    raise exception 'Membro non trovato' using errcode = 'P0002';
+  end if;
+  return v_member;
+end;
+$$;
+
+-- la famiglia deve sempre avere almeno un admin
+create or replace function public.assert_other_admin(p_family uuid, p_user uuid)
+returns void
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.profiles where family_id = p_family and role = 'admin' and id <> p_user
+  ) then
+    raise exception 'La famiglia deve avere almeno un amministratore';
+  end if;
+end;
+$$;
+
+create or replace function public.set_member_role(p_user uuid, p_role text)
+returns void
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_member public.profiles;
+begin
+  if not public.is_family_admin() then
+    raise exception 'Solo un amministratore può cambiare i ruoli' using errcode = '42501';
+  end if;
+  if p_role not in ('admin', 'member') then
+    raise exception 'Ruolo non valido: %', p_role;
+  end if;
+  v_member := public.lock_member(p_user);
+  if v_member.role = 'admin' and p_role = 'member' then
+    perform public.assert_other_admin(v_member.family_id, p_user);
+  end if;
+  perform set_config('app.membership_rpc', 'on', true);
+  update public.profiles set role = p_role where id = p_user;
+end;
+$$;
+
+-- un admin rimuove chiunque; un membro può solo uscire lui stesso
+create or replace function public.remove_member(p_user uuid)
+returns void
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_member public.profiles;
+begin
+  if p_user <> auth.uid() and not public.is_family_admin() then
+    raise exception 'Solo un amministratore può rimuovere i membri' using errcode = '42501';
+  end if;
+  v_member := public.lock_member(p_user);
+  if v_member.role = 'admin' then
+    perform public.assert_other_admin(v_member.family_id, p_user);
+  end if;
+  perform set_config('app.membership_rpc', 'on', true);
+  update public.profiles set family_id = null, role = 'member' where id = p_user;
+end;
+$$;
+
+revoke execute on function public.lock_member(uuid) from public, authenticated;
+revoke execute on function public.assert_other_admin(uuid, uuid) from public, authenticated;
+grant execute on function public.create_family(text) to authenticated;
+grant execute on function public.accept_invite() to authenticated;
+grant execute on function public.set_member_role(uuid, text) to authenticated;
+grant execute on function public.remove_member(uuid) to authenticated;
+
+-- ---------- Permessi per ruolo ----------
+-- policy restrittive: si sommano (in AND) a quelle già esistenti
+drop policy if exists "meds admin insert" on public.meds;
+create policy "meds admin insert" on public.meds
+  as restrictive for insert with check (public.is_family_admin());
+drop policy if exists "meds admin update" on public.meds;
+create policy "meds admin update" on public.meds
+  as restrictive for update using (public.is_family_admin());
+drop policy if exists "meds admin delete" on public.meds;
+create policy "meds admin delete" on public.meds
+  as restrictive for delete using (public.is_family_admin());
+
+drop policy if exists "med_versions admin insert" on public.med_versions;
+create policy "med_versions admin insert" on public.med_versions
+  as restrictive for insert with check (public.is_family_admin());
+
+-- correzioni assolute (e quantità iniziali) solo admin; dosi, travasi e acquisti per tutti
+drop policy if exists "stock_movements correction admin" on public.stock_movements;
+create policy "stock_movements correction admin" on public.stock_movements
+  as restrictive for insert with check (kind <> 'correction' or public.is_family_admin());
+
+-- rinomina famiglia e impostazioni (fasce, previsione) restano sull'update di families;
+-- il nome però lo cambia solo un admin
+create or replace function public.guard_family_name()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.name is distinct from old.name and auth.uid() is not null and not public.is_family_admin() then
+    raise exception 'Solo un amministratore può rinominare la famiglia' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_family_name on public.families;
+create trigger guard_family_name
+  before update on public.families
+  for each row execute function public.guard_family_name();
@@ -0,0 +1,92 @@
+-- ---------- Più pazienti per famiglia ----------
+-- Una famiglia può seguire più persone: ogni farmaco appartiene a un
+-- paziente. Scorte (stock_movements) e assunzioni (intake_logs) restano
+-- legate al farmaco, quindi sono già separate per paziente.
+
+create table if not exists public.patients (
+  id          uuid primary key default gen_random_uuid(),
+  family_id   uuid not null references public.families(id) on delete cascade,
+  name        text not null check (btrim(name) <> ''),
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists patients_family_idx on public.patients (family_id, name);
+
+alter table public.patients enable row level security;
+
+create policy "patients_select" on public.patients
+  for select using (family_id = public.current_family_id());
+create policy "patients_insert" on public.patients
+  for insert with check (family_id = public.current_family_id() and public.is_family_admin());
+create policy "patients_update" on public.patients
+  for update using (family_id = public.current_family_id() and public.is_family_admin());
+create policy "patients_delete" on public.patients
+  for delete using (family_id = public.current_family_id() and public.is_family_admin());
+
+-- ---------- Migrazione dati ----------
+-- un paziente per famiglia, col nome della famiglia senza "Famiglia"
+-- (come faceva la relazione per il medico)
+insert into public.patients (family_id, name)
+select f.id, coalesce(nullif(btrim(regexp_replace(f.name, '^\s*famiglia\s+', '', 'i')), ''), 'Paziente')
+from public.families f
+where not exists (select 1 from public.patients p where p.family_id = f.id);
+
+alter table public.meds add column if not exists patient_id uuid references public.patients(id) on delete restrict;
+
+update public.meds m
+set patient_id = (select p.id from public.patients p where p.family_id = m.family_id order by p.created_at limit 1)
+where m.patient_id is null;
+
+alter table public.meds alter column patient_id set not null;
+create index if not exists meds_patient_idx on public.meds (patient_id);
+
+-- il paziente deve essere della stessa famiglia del farmaco
+drop policy if exists "meds patient same family" on public.meds;
+create policy "meds patient same family" on public.meds
+  as restrictive for insert with check (
+    exists (select 1 from public.patients p where p.id = patient_id and p.family_id = meds.family_id)
+  );
+drop policy if exists "meds patient same family update" on public.meds;
+create policy "meds patient same family update" on public.meds
+  as restrictive for update with check (
+    exists (select 1 from public.patients p where p.id = patient_id and p.family_id = meds.family_id)
+  );
+
+-- nuova famiglia: si crea subito anche la persona assistita
+drop function if exists public.create_family(text);
+create or replace function public.create_family(p_name text, p_patient text default null)
+returns uuid
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_family uuid;
+begin
+  if exists (select 1 from public.profiles where id = auth.uid() and family_id is not null) then
+    raise exception 'Fai già parte di una famiglia';
+  end if;
+  if nullif(btrim(p_name), '') is null then
+    raise exception 'Indica il nome della famiglia';
+  end if;
+  insert into public.families (name) values (btrim(p_name)) returning id into v_family;
+  if nullif(btrim(p_patient), '') is not null then
+    insert into public.patients (family_id, name) values (v_family, btrim(p_patient));
+  end if;
+  perform set_config('app.membership_rpc', 'on', true);
+  update public.profiles set family_id = v_family, role = 'admin' where id = auth.uid();
+  return v_family;
+end;
+$$;
+
+grant execute on function public.create_family(text, text) to authenticated;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'patients'
+  ) then
+    alter publication supabase_realtime add table public.patients;
+  end if;
+end;
+$$;
@@ -0,0 +1,112 @@
+-- ---------- Promemoria dosi (web push) ----------
+-- Ogni dispositivo che attiva i promemoria salva qui la sua iscrizione push.
+-- La funzione edge dose-reminders (ogni 5 minuti) avvisa all'orario della
+-- dose chi riceve i promemoria e, se dopo escalate_after_min la dose è ancora
+-- da dare, tutti gli altri iscritti della famiglia. dose_reminders ricorda
+-- cosa è già partito e i "Posticipa 15 min".
+
+alter table public.families
+  add column if not exists escalate_after_min integer not null default 30
+    check (escalate_after_min between 5 and 240),
+  add column if not exists timezone text not null default 'Europe/Rome';
+
+create table if not exists public.push_subscriptions (
+  id               uuid primary key default gen_random_uuid(),
+  user_id          uuid not null references public.profiles(id) on delete cascade default auth.uid(),
+  family_id        uuid not null references public.families(id) on delete cascade,
+  endpoint         text not null unique,
+  p256dh           text not null,
+  auth             text not null,
+  -- true = solo gli avvisi di dose ancora non data (escalation), non quelli all'orario
+  escalation_only  boolean not null default false,
+  user_agent       text,
+  created_at       timestamptz not null default now()
+);
+
+alter table public.push_subscriptions enable row level security;
+
+-- ognuno gestisce solo i propri dispositivi
+create policy "push_subscriptions_select" on public.push_subscriptions
+  for select using (user_id = auth.uid());
+create policy "push_subscriptions_insert" on public.push_subscriptions
+  for insert with check (user_id = auth.uid() and family_id = public.current_family_id());
+create policy "push_subscriptions_update" on public.push_subscriptions
+  for update using (user_id = auth.uid()) with check (family_id = public.current_family_id());
+create policy "push_subscriptions_delete" on public.push_subscriptions
+  for delete using (user_id = auth.uid());
+
+create table if not exists public.dose_reminders (
+  family_id      uuid not null references public.families(id) on delete cascade,
+  med_id         uuid not null references public.meds(id) on delete cascade,
+  day            date not null,
+  time_slot      text not null,
+  stage          text not null check (stage in ('due', 'escalated')),
+  sent_at        timestamptz not null default now(),
+  snoozed_until  timestamptz,
+  primary key (med_id, day, time_slot)
+);
+
+-- scritta solo dalle funzioni edge (service role); la famiglia può leggerla
+alter table public.dose_reminders enable row level security;
+
+create policy "dose_reminders_select" on public.dose_reminders
+  for select using (family_id = public.current_family_id());
+
+-- ---------- Dosi previste in un giorno ----------
+-- stessa logica di isDueOn / dosesOn (schedule.ts), con la prescrizione in vigore
+create or replace function public.med_due_on(p_med public.meds, p_day date)
+returns boolean
+language plpgsql immutable
+as $$
+declare
+  s jsonb := coalesce(p_med.schedule, '{"recurrence": {"kind": "daily"}}'::jsonb);
+  r jsonb := coalesce(s->'recurrence', '{"kind": "daily"}'::jsonb);
+  v_start date := nullif(s->>'start', '')::date;
+begin
+  if v_start is not null and p_day < v_start then return false; end if;
+  if nullif(s->>'end', '') is not null and p_day > (s->>'end')::date then return false; end if;
+  if r->>'kind' = 'every_n_days' then
+    return (p_day - coalesce(v_start, p_day)) % greatest(1, coalesce((r->>'every')::int, 1)) = 0;
+  end if;
+  if r->>'kind' = 'weekdays' then
+    return coalesce(r->'days', '[]'::jsonb) @> to_jsonb(extract(isodow from p_day)::int);
+  end if;
+  return true;
+end;
+$$;
+
+create or replace function public.planned_doses(p_family uuid, p_day date)
+returns table (med_id uuid, patient_id uuid, patient text, med text, dosage text, unit text, time_slot text, qty numeric)
+language sql stable
+as $$
+  select m.id, m.patient_id, p.name, m.name, rx.dosage, m.unit, d->>'time', public.dose_qty_on(m, d->>'time', p_day)
+  from public.meds m
+  join public.patients p on p.id = m.patient_id
+  cross join lateral public.med_on(m, p_day) rx
+  cross join lateral jsonb_array_elements(coalesce(rx.doses, '[]'::jsonb)) d
+  where m.family_id = p_family
+    and not coalesce(m.archived, false)
+    and (m.created_at is null or m.created_at::date <= p_day)
+    and public.med_due_on(rx, p_day)
+  order by d->>'time', p.name, m.name
+$$;
+
+-- "Preso" dalla notifica: la funzione edge agisce a nome di chi l'ha toccata
+-- (auth.uid() = p_user dentro set_dose_status, quindi log e movimenti restano firmati)
+create or replace function public.set_dose_status_as(
+  p_user uuid, p_med_id uuid, p_day date, p_time_slot text, p_status text, p_at timestamptz default null
+)
+returns table (box numeric, dispensa numeric, changed boolean, marked_by uuid, marked_by_email text, marked_at timestamptz)
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  perform set_config('request.jwt.claim.sub', p_user::text, true);
+  perform set_config('request.jwt.claims', json_build_object('sub', p_user, 'role', 'authenticated')::text, true);
+  return query select * from public.set_dose_status(p_med_id, p_day, p_time_slot, p_status, null, null, p_at);
+end;
+$$;
+
+revoke execute on function public.set_dose_status_as(uuid, uuid, date, text, text, timestamptz) from public, anon, authenticated;
+grant execute on function public.set_dose_status_as(uuid, uuid, date, text, text, timestamptz) to service_role;
+grant execute on function public.planned_doses(uuid, date) to service_role;
@@ -0,0 +1,167 @@
+-- ---------- Avvisi scorte (sotto soglia / in esaurimento) ----------
+-- refresh_stock_alerts ricalcola per ogni farmaco attivo se il totale
+-- Box+Dispensa è sotto `threshold` ('low') o se copre meno di
+-- alert_coverage_days giorni ('runout'). Una riga per farmaco e tipo: si apre
+-- quando la condizione compare, si chiude (resolved_at) quando sparisce.
+-- Così ogni avviso parte una volta sola (pushed_at / emailed_at) e "Visto" /
+-- "Posticipa" valgono finché la condizione non si ripresenta.
+
+alter table public.families
+  add column if not exists alert_coverage_days integer not null default 7
+    check (alert_coverage_days between 1 and 60),
+  add column if not exists alert_digest_hour integer not null default 8
+    check (alert_digest_hour between 0 and 23),
+  add column if not exists alert_digest_sent_on date;
+
+create table if not exists public.stock_alerts (
+  family_id      uuid not null references public.families(id) on delete cascade,
+  med_id         uuid not null references public.meds(id) on delete cascade,
+  kind           text not null check (kind in ('low', 'runout')),
+  total          numeric not null default 0,
+  -- giorni coperti all'ultimo controllo (null = oltre l'orizzonte)
+  days_left      integer,
+  opened_at      timestamptz not null default now(),
+  checked_at     timestamptz not null default now(),
+  pushed_at      timestamptz,
+  emailed_at     timestamptz,
+  acked_at       timestamptz,
+  acked_by       uuid references public.profiles(id) on delete set null,
+  snoozed_until  timestamptz,
+  resolved_at    timestamptz,
+  primary key (med_id, kind)
+);
+
+create index if not exists stock_alerts_family_idx on public.stock_alerts (family_id) where resolved_at is null;
+
+-- lettura per la famiglia; le scritture passano dalle funzioni qui sotto
+alter table public.stock_alerts enable row level security;
+
+create policy "stock_alerts_select" on public.stock_alerts
+  for select using (family_id = public.current_family_id());
+
+-- ---------- Consumo previsto ----------
+-- quantità prevista in un giorno (come qtyOn in schedule.ts)
+create or replace function public.qty_on(p_med public.meds, p_day date)
+returns numeric
+language sql stable
+as $$
+  select coalesce(sum(public.dose_qty_on(p_med, d->>'time', p_day)), 0)
+  from public.med_on(p_med, p_day) rx
+  cross join lateral jsonb_array_elements(coalesce(rx.doses, '[]'::jsonb)) d
+  where public.med_due_on(rx, p_day)
+$$;
+
+-- giorni coperti da p_stock a partire da p_day (come forecastMed, senza
+-- correzione per l'aderenza); null = oltre l'orizzonte o nessun consumo
+create or replace function public.med_days_left(
+  p_med public.meds, p_stock numeric, p_day date, p_taken_today numeric default 0, p_horizon integer default 90
+)
+returns integer
+language plpgsql stable
+as $$
+declare
+  v_left numeric := p_stock;
+  v_need numeric;
+begin
+  for i in 0 .. p_horizon - 1 loop
+    v_need := public.qty_on(p_med, p_day + i);
+    if i = 0 then v_need := greatest(0, v_need - coalesce(p_taken_today, 0)); end if;
+    if v_need > v_left + 1e-9 then return i; end if;
+    v_left := v_left - v_need;
+  end loop;
+  return null;
+end;
+$$;
+
+-- ---------- Ricalcolo ----------
+-- dal client (propria famiglia) dopo ogni caricamento delle scorte, e dalla
+-- funzione edge stock-alerts (service role) per tutte le famiglie
+create or replace function public.refresh_stock_alerts(p_family uuid)
+returns setof public.stock_alerts
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  f public.families;
+  m public.meds;
+  v_today date;
+  v_total numeric;
+  v_taken numeric;
+  v_days integer;
+  v_kind text;
+  v_on boolean;
+begin
+  if coalesce(auth.role(), '') <> 'service_role' and p_family is distinct from public.current_family_id() then
+    raise exception 'Famiglia non trovata' using errcode = 'P0002';
+  end if;
+  select * into f from public.families where id = p_family;
+  if not found then return; end if;
+  v_today := (now() at time zone coalesce(f.timezone, 'Europe/Rome'))::date;
+
+  -- farmaci archiviati: niente più avvisi
+  update public.stock_alerts a set resolved_at = now()
+  from public.meds x
+  where x.id = a.med_id and a.family_id = p_family and a.resolved_at is null and coalesce(x.archived, false);
+
+  for m in select * from public.meds where family_id = p_family and not coalesce(archived, false) loop
+    select b.box + b.dispensa into v_total from public.med_balance(m.id) b;
+    select coalesce(sum(public.dose_qty_on(m, l.time_slot, v_today)), 0) into v_taken
+    from public.intake_logs l
+    where l.med_id = m.id and l.day = v_today and l.status = 'taken';
+    v_days := public.med_days_left(m, v_total, v_today, v_taken);
+
+    foreach v_kind in array array['low', 'runout'] loop
+      v_on := case v_kind
+        when 'low' then v_total < coalesce(m.threshold, 0)
+        else v_days is not null and v_days < f.alert_coverage_days
+      end;
+      if v_on then
+        insert into public.stock_alerts as a (family_id, med_id, kind, total, days_left)
+        values (p_family, m.id, v_kind, v_total, v_days)
+        on conflict (med_id, kind) do update set
+          total = excluded.total, days_left = excluded.days_left, checked_at = now(),
+          -- condizione ricomparsa dopo essere rientrata: avviso nuovo
+          opened_at = case when a.resolved_at is null then a.opened_at else now() end,
+          pushed_at = case when a.resolved_at is null then a.pushed_at end,
+          emailed_at = case when a.resolved_at is null then a.emailed_at end,
+          acked_at = case when a.resolved_at is null then a.acked_at end,
+          acked_by = case when a.resolved_at is null then a.acked_by end,
+          snoozed_until = case when a.resolved_at is null then a.snoozed_until end,
+          resolved_at = null;
+      else
+        update public.stock_alerts
+        set resolved_at = now(), checked_at = now(), total = v_total, days_left = v_days
+        where med_id = m.id and kind = v_kind and resolved_at is null;
+      end if;
+    end loop;
+  end loop;
+
+  return query select * from public.stock_alerts where family_id = p_family and resolved_at is null;
+end;
+$$;
+
+-- "Visto" (p_snooze_until null) oppure "Posticipa" fino a p_snooze_until; solo admin
+create or replace function public.ack_stock_alert(p_med_id uuid, p_kind text, p_snooze_until timestamptz default null)
+returns void
+language plpgsql security definer
+set search_path = public
+as $$
+begin
+  if not public.is_family_admin() then
+    raise exception 'Solo gli amministratori gestiscono gli avvisi scorte';
+  end if;
+  update public.stock_alerts set
+    acked_at = case when p_snooze_until is null then now() else acked_at end,
+    acked_by = case when p_snooze_until is null then auth.uid() else acked_by end,
+    -- a fine posticipo l'avviso riparte
+    snoozed_until = p_snooze_until,
+    pushed_at = case when p_snooze_until is null then pushed_at end
+  where med_id = p_med_id and kind = p_kind and family_id = public.current_family_id() and resolved_at is null;
+  if not found then
+    raise exception 'Avviso non trovato' using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+grant execute on function public.refresh_stock_alerts(uuid) to authenticated, service_role;
+grant execute on function public.ack_stock_alert(uuid, text, timestamptz) to authenticated;
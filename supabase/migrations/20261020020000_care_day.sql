@@ -0,0 +1,27 @@
+-- ---------- Giornata di cura ----------
+-- day_cutoff: ora in cui finisce la giornata (dopo mezzanotte). Con '03:00'
+-- una dose delle 00:30 appartiene alla sera prima e fino alle 03:00 "oggi"
+-- resta il giorno prima. Le date sono calcolate nel fuso families.timezone
+-- (src/dates.ts e funzioni edge).
+
+alter table public.families
+  add column if not exists day_cutoff text not null default '00:00'
+    check (day_cutoff ~ '^0[0-5]:[0-5][0-9]$');
+
+-- il fuso deve essere un nome IANA che Postgres conosce (es. Europe/Rome)
+create or replace function public.guard_family_timezone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from pg_timezone_names where name = new.timezone) then
+    raise exception 'Fuso orario non valido: %', new.timezone using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_family_timezone on public.families;
+create trigger guard_family_timezone
+  before insert or update of timezone on public.families
+  for each row execute function public.guard_family_timezone();
@@ -0,0 +1,74 @@
+-- ---------- Cestino farmaci ----------
+-- "Elimina" non cancella più subito: il farmaco va nel cestino (archiviato con
+-- deleted_at) e resta recuperabile per 30 giorni. Poi purge_expired_meds lo
+-- cancella con tutto lo storico. Solo gli admin svuotano il cestino a mano.
+
+alter table public.meds
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.profiles(id) on delete set null;
+
+create index if not exists meds_trash_idx on public.meds (family_id, deleted_at) where deleted_at is not null;
+
+-- un farmaco nel cestino è sempre anche archiviato
+alter table public.meds drop constraint if exists meds_trash_archived;
+alter table public.meds add constraint meds_trash_archived check (deleted_at is null or archived);
+
+-- cancellazione definitiva (intake_logs non ha il cascade sul farmaco)
+create or replace function public.purge_med_rows(p_med_id uuid)
+returns void
+language sql
+as $$
+  delete from public.intake_logs where med_id = p_med_id;
+  delete from public.meds where id = p_med_id;
+$$;
+
+-- "Elimina subito" dal cestino
+create or replace function public.purge_med(p_med_id uuid)
+returns void
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_med public.meds;
+begin
+  if not public.is_family_admin() then
+    raise exception 'Solo gli amministratori eliminano i farmaci' using errcode = '42501';
+  end if;
+  v_med := public.lock_med(p_med_id);
+  if v_med.deleted_at is null then
+    raise exception 'Il farmaco non è nel cestino';
+  end if;
+  perform public.purge_med_rows(p_med_id);
+end;
+$$;
+
+-- pulizia giornaliera: cestino più vecchio di 30 giorni
+create or replace function public.purge_expired_meds()
+returns integer
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+  v_count integer := 0;
+begin
+  for v_id in select id from public.meds where deleted_at < now() - interval '30 days' loop
+    perform public.purge_med_rows(v_id);
+    v_count := v_count + 1;
+  end loop;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.purge_med_rows(uuid) from public, anon, authenticated;
+revoke execute on function public.purge_expired_meds() from public, anon, authenticated;
+grant execute on function public.purge_med(uuid) to authenticated;
+grant execute on function public.purge_expired_meds() to service_role;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('purge-med-trash', '30 3 * * *', 'select public.purge_expired_meds()');
+  end if;
+end;
+$$;
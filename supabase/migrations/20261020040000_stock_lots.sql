@@ -0,0 +1,196 @@
+-- ---------- Lotti e scadenze in Dispensa ----------
+-- Gli acquisti in farmacia registrano lotto e scadenza (stock_lots); i
+-- movimenti di Dispensa portano il lotto a cui si riferiscono. Il travaso
+-- verso il Box pesca prima dal lotto che scade prima (FEFO); la merce senza
+-- lotto (saldi vecchi, correzioni) si usa per ultima. "Smaltimento" toglie
+-- dalla Dispensa un lotto scaduto con un motivo.
+
+create table if not exists public.stock_lots (
+  id          uuid primary key default gen_random_uuid(),
+  family_id   uuid not null references public.families(id) on delete cascade,
+  med_id      uuid not null references public.meds(id) on delete cascade,
+  lot         text,
+  expires_on  date,
+  created_by  uuid references public.profiles(id) default auth.uid(),
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists stock_lots_med_idx on public.stock_lots (med_id, expires_on);
+
+alter table public.stock_lots enable row level security;
+
+create policy "stock_lots_select" on public.stock_lots
+  for select using (family_id = public.current_family_id());
+create policy "stock_lots_insert" on public.stock_lots
+  for insert with check (family_id = public.current_family_id());
+
+alter table public.stock_movements
+  add column if not exists lot_id uuid references public.stock_lots(id) on delete cascade;
+
+alter table public.stock_movements drop constraint if exists stock_movements_kind_check;
+alter table public.stock_movements add constraint stock_movements_kind_check
+  check (kind in ('dose', 'transfer', 'purchase', 'correction', 'disposal'));
+
+-- Quantità per lotto ancora in Dispensa. Le correzioni senza lotto non
+-- toccano i lotti: se il saldo della Dispensa è più basso della somma dei
+-- lotti, mancano quelli che scadono prima (sarebbero stati usati per primi).
+create or replace function public.lot_balances(p_med_ids uuid[])
+returns table (med_id uuid, lot_id uuid, lot text, expires_on date, qty numeric)
+language sql stable
+as $$
+  with ledger as (
+    select l.med_id, l.id as lot_id, l.lot, l.expires_on, l.created_at, coalesce(sum(s.delta), 0) as qty
+    from public.stock_lots l
+    left join public.stock_movements s on s.lot_id = l.id and s.location = 'Dispensa'
+    where l.med_id = any(p_med_ids)
+    group by l.id
+  ),
+  kept as (
+    select g.*,
+           sum(g.qty) over (partition by g.med_id order by g.expires_on desc nulls first, g.created_at desc
+                                  rows between unbounded preceding and current row) as kept_qty,
+           (select b.dispensa from public.med_balance(g.med_id) b) as dispensa
+    from ledger g
+    where g.qty > 0
+  )
+  select k.med_id, k.lot_id, k.lot, k.expires_on, least(k.qty, greatest(0, k.dispensa - (k.kept_qty - k.qty)))
+  from kept k
+  where k.dispensa - (k.kept_qty - k.qty) > 0
+  order by k.med_id, k.expires_on nulls last, k.created_at
+$$;
+
+-- già eseguita? (retry / replay offline con lo stesso op_id)
+create or replace function public.op_done(p_med_id uuid, p_op_id uuid)
+returns boolean
+language sql stable
+as $$
+  select p_op_id is not null and exists (select 1 from public.stock_movements where op_id = p_op_id and med_id = p_med_id)
+$$;
+
+-- acquisto in farmacia, con lotto e scadenza facoltativi
+create or replace function public.purchase_stock(p_med_id uuid, p_qty numeric, p_lot text, p_expires_on date, p_op_id uuid)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_lot_id uuid;
+  v_lot text := nullif(trim(coalesce(p_lot, '')), '');
+begin
+  if p_qty is null or p_qty <= 0 then
+    raise exception 'Quantità non valida' using errcode = '22023';
+  end if;
+  v_med := public.lock_med(p_med_id);
+
+  if not public.op_done(p_med_id, p_op_id) then
+    if v_lot is not null or p_expires_on is not null then
+      -- stesso lotto e scadenza = stesso lotto (altre confezioni dello stesso acquisto)
+      select id into v_lot_id from public.stock_lots
+      where med_id = p_med_id and lot is not distinct from v_lot and expires_on is not distinct from p_expires_on;
+      if v_lot_id is null then
+        insert into public.stock_lots (family_id, med_id, lot, expires_on)
+        values (v_med.family_id, p_med_id, v_lot, p_expires_on)
+        returning id into v_lot_id;
+      end if;
+    end if;
+
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, op_id, lot_id)
+    values (
+      v_med.family_id, p_med_id, 'Dispensa', p_qty, 'purchase',
+      concat_ws(' · ', 'Acquisto in farmacia', 'lotto ' || v_lot, 'scad. ' || to_char(p_expires_on, 'DD/MM/YYYY')),
+      p_op_id, v_lot_id
+    );
+  end if;
+
+  return query select * from public.med_balance(p_med_id);
+end;
+$$;
+
+-- travaso Dispensa → Box: i lotti che scadono prima escono per primi
+-- (qty negativa = Box → Dispensa, senza lotto). p_reason: motivo nei
+-- movimenti (di default la direzione del travaso)
+drop function if exists public.transfer_stock(uuid, numeric, uuid);
+
+create or replace function public.transfer_stock(p_med_id uuid, p_qty numeric, p_op_id uuid, p_reason text default null)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_left numeric := p_qty;
+  v_take numeric;
+  v_lot record;
+  v_reason text := coalesce(p_reason, case when p_qty > 0 then 'Dispensa → Box' else 'Box → Dispensa' end);
+begin
+  if p_qty is null or p_qty = 0 then
+    raise exception 'Quantità non valida' using errcode = '22023';
+  end if;
+  v_med := public.lock_med(p_med_id);
+
+  if not public.op_done(p_med_id, p_op_id) then
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, op_id)
+    values (v_med.family_id, p_med_id, 'Box', p_qty, 'transfer', v_reason, p_op_id);
+
+    if p_qty > 0 then
+      for v_lot in select * from public.lot_balances(array[p_med_id]) loop
+        exit when v_left <= 0;
+        v_take := least(v_left, v_lot.qty);
+        insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, lot_id)
+        values (
+          v_med.family_id, p_med_id, 'Dispensa', -v_take, 'transfer',
+          concat_ws(' · ', v_reason, 'lotto ' || v_lot.lot, 'scad. ' || to_char(v_lot.expires_on, 'DD/MM/YYYY')),
+          v_lot.lot_id
+        );
+        v_left := v_left - v_take;
+      end loop;
+    end if;
+
+    if v_left <> 0 then
+      insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+      values (v_med.family_id, p_med_id, 'Dispensa', -v_left, 'transfer', v_reason);
+    end if;
+  end if;
+
+  return query select * from public.med_balance(p_med_id);
+end;
+$$;
+
+-- smaltimento di tutto quel che resta di un lotto (scaduto, rovinato…)
+create or replace function public.dispose_lot(p_lot_id uuid, p_reason text, p_op_id uuid)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_lot public.stock_lots;
+  v_med public.meds;
+  v_qty numeric;
+begin
+  if nullif(trim(coalesce(p_reason, '')), '') is null then
+    raise exception 'Indica il motivo dello smaltimento' using errcode = '22023';
+  end if;
+  select * into v_lot from public.stock_lots where id = p_lot_id;
+  if not found then
+    raise exception 'Lotto non trovato' using errcode = 'P0002';
+  end if;
+  v_med := public.lock_med(v_lot.med_id);
+
+  if not public.op_done(v_lot.med_id, p_op_id) then
+    select b.qty into v_qty from public.lot_balances(array[v_lot.med_id]) b where b.lot_id = p_lot_id;
+    if coalesce(v_qty, 0) > 0 then
+      insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, op_id, lot_id)
+      values (
+        v_med.family_id, v_lot.med_id, 'Dispensa', -v_qty, 'disposal',
+        concat_ws(' · ', trim(p_reason), 'lotto ' || v_lot.lot, 'scad. ' || to_char(v_lot.expires_on, 'DD/MM/YYYY')),
+        p_op_id, p_lot_id
+      );
+    end if;
+  end if;
+
+  return query select * from public.med_balance(v_lot.med_id);
+end;
+$$;
+
+grant execute on function public.lot_balances(uuid[]) to authenticated;
+grant execute on function public.purchase_stock(uuid, numeric, text, date, uuid) to authenticated;
+grant execute on function public.transfer_stock(uuid, numeric, uuid, text) to authenticated;
+grant execute on function public.dispose_lot(uuid, text, uuid) to authenticated;
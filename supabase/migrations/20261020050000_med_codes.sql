@@ -0,0 +1,24 @@
+-- ---------- Codici delle confezioni ----------
+-- Codice AIC (bollino) o GTIN (DataMatrix GS1) collegati a un farmaco: alla
+-- scansione successiva la confezione viene riconosciuta. Lo stesso codice
+-- può stare su più farmaci della famiglia (pazienti diversi, stessa terapia).
+
+create table if not exists public.med_codes (
+  med_id      uuid not null references public.meds(id) on delete cascade,
+  family_id   uuid not null references public.families(id) on delete cascade,
+  code        text not null check (code ~ '^(AIC|GTIN):[0-9]+$'),
+  created_by  uuid references public.profiles(id) default auth.uid(),
+  created_at  timestamptz not null default now(),
+  primary key (med_id, code)
+);
+
+create index if not exists med_codes_family_idx on public.med_codes (family_id, code);
+
+alter table public.med_codes enable row level security;
+
+create policy "med_codes_select" on public.med_codes
+  for select using (family_id = public.current_family_id());
+create policy "med_codes_insert" on public.med_codes
+  for insert with check (family_id = public.current_family_id());
+create policy "med_codes_delete" on public.med_codes
+  for delete using (family_id = public.current_family_id() and public.is_family_admin());
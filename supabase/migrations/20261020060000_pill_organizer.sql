@@ -0,0 +1,28 @@
+-- ---------- Riempimento portapillole ----------
+-- Il Box è il portapillole settimanale: il riempimento travasa dalla Dispensa
+-- la quantità della settimana di tutti i farmaci in un'unica transazione
+-- (tutti o nessuno), con lo stesso op_id per il replay offline.
+
+-- p_items: [{ "med_id": "…", "qty": 14 }, …]
+create or replace function public.fill_organizer(p_items jsonb, p_reason text, p_op_id uuid)
+returns table (med_id uuid, box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_item jsonb;
+begin
+  if jsonb_typeof(p_items) is distinct from 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Niente da mettere nel portapillole' using errcode = '22023';
+  end if;
+  for v_item in select value from jsonb_array_elements(p_items) loop
+    perform public.transfer_stock((v_item->>'med_id')::uuid, (v_item->>'qty')::numeric, p_op_id, p_reason);
+  end loop;
+
+  return query
+    select (i.value->>'med_id')::uuid, b.box, b.dispensa
+    from jsonb_array_elements(p_items) i
+    cross join lateral public.med_balance((i.value->>'med_id')::uuid) b;
+end;
+$$;
+
+grant execute on function public.fill_organizer(jsonb, text, uuid) to authenticated;
@@ -0,0 +1,38 @@
+-- ---------- Giornata di cura sul server ----------
+-- Come todayISO (src/dates.ts) e careNow (funzioni edge): il giorno nel fuso
+-- della famiglia, che fino a day_cutoff resta quello prima.
+create or replace function public.care_today(p_family uuid)
+returns date
+language sql stable
+as $$
+  select coalesce(
+    (select ((now() at time zone coalesce(f.timezone, 'Europe/Rome')) - f.day_cutoff::interval)::date
+       from public.families f where f.id = p_family),
+    current_date
+  );
+$$;
+
+-- la copia in meds è la versione in vigore nella giornata di cura di oggi
+create or replace function public.add_med_version(
+  p_med_id uuid, p_effective_from date, p_dosage text, p_doses jsonb, p_schedule jsonb,
+  p_prescriber text default null, p_note text default null
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_today public.meds;
+begin
+  v_med := public.lock_med(p_med_id);
+  insert into public.med_versions (family_id, med_id, effective_from, dosage, doses, schedule, prescriber, note)
+  values (
+    v_med.family_id, p_med_id, p_effective_from, nullif(btrim(p_dosage), ''), coalesce(p_doses, '[]'::jsonb), p_schedule,
+    nullif(btrim(p_prescriber), ''), nullif(btrim(p_note), '')
+  );
+  v_today := public.med_on(v_med, public.care_today(v_med.family_id));
+  update public.meds
+  set dosage = v_today.dosage, doses = v_today.doses, schedule = v_today.schedule
+  where id = p_med_id;
+end;
+$$;
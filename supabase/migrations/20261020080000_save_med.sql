@@ -0,0 +1,57 @@
+-- ---------- Salvataggio del farmaco e copia della prescrizione ----------
+-- Dati del farmaco e nuova versione in un'unica transazione: con due
+-- richieste un errore a metà lasciava meds e med_versions disallineati.
+-- La copia in meds si riallinea anche ogni ora (funzione edge stock-alerts),
+-- così una versione datata nel futuro entra in vigore il suo giorno.
+
+-- p_version: { effective_from, dosage, doses, schedule, prescriber, note } oppure null
+create or replace function public.save_med(
+  p_med_id uuid, p_name text, p_unit text, p_pack_size integer, p_version jsonb default null
+)
+returns void
+language plpgsql
+as $$
+begin
+  update public.meds set name = p_name, unit = p_unit, pack_size = p_pack_size
+  where id = p_med_id and family_id = public.current_family_id();
+  if not found then
+    raise exception 'Farmaco non trovato' using errcode = 'P0002';
+  end if;
+  if p_version is not null then
+    perform public.add_med_version(
+      p_med_id, (p_version->>'effective_from')::date, p_version->>'dosage', p_version->'doses',
+      nullif(p_version->'schedule', 'null'::jsonb), p_version->>'prescriber', p_version->>'note'
+    );
+  end if;
+end;
+$$;
+
+-- meds.dosage/doses/schedule = versione in vigore nella giornata di cura di oggi
+create or replace function public.sync_med_copies(p_family uuid)
+returns integer
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_day date;
+  m public.meds;
+  v public.meds;
+  v_count integer := 0;
+begin
+  if coalesce(auth.role(), '') <> 'service_role' and p_family is distinct from public.current_family_id() then
+    raise exception 'Famiglia non trovata' using errcode = 'P0002';
+  end if;
+  v_day := public.care_today(p_family);
+  for m in select * from public.meds where family_id = p_family loop
+    v := public.med_on(m, v_day);
+    if (v.dosage, v.doses, v.schedule) is distinct from (m.dosage, m.doses, m.schedule) then
+      update public.meds set dosage = v.dosage, doses = v.doses, schedule = v.schedule where id = m.id;
+      v_count := v_count + 1;
+    end if;
+  end loop;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.save_med(uuid, text, text, integer, jsonb) to authenticated;
+grant execute on function public.sync_med_copies(uuid) to authenticated, service_role;
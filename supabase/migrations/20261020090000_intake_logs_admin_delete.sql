@@ -0,0 +1,6 @@
+-- ---------- Storico assunzioni: cancellazione solo admin ----------
+-- Come per meds: i caregiver annullano una dose (set_intake aggiorna la
+-- riga), ma non cancellano lo storico tramite l'API.
+drop policy if exists "intake_logs admin delete" on public.intake_logs;
+create policy "intake_logs admin delete" on public.intake_logs
+  as restrictive for delete using (public.is_family_admin());
@@ -0,0 +1,28 @@
+-- ---------- Registrazione del dispositivo per i promemoria ----------
+-- L'endpoint push è del browser, non dell'account: se sullo stesso browser
+-- un altro utente aveva attivato i promemoria, la sua riga non è visibile
+-- (RLS) e l'upsert falliva. La registrazione passa di qui e riassegna
+-- l'endpoint a chi lo registra adesso.
+create or replace function public.register_push_subscription(
+  p_endpoint text, p_p256dh text, p_auth text, p_escalation_only boolean, p_user_agent text default null
+)
+returns void
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_family uuid := public.current_family_id();
+begin
+  if auth.uid() is null or v_family is null then
+    raise exception 'Accesso richiesto' using errcode = '42501';
+  end if;
+  insert into public.push_subscriptions (user_id, family_id, endpoint, p256dh, auth, escalation_only, user_agent)
+  values (auth.uid(), v_family, p_endpoint, p_p256dh, p_auth, p_escalation_only, left(p_user_agent, 200))
+  on conflict (endpoint) do update set
+    user_id = excluded.user_id, family_id = excluded.family_id,
+    p256dh = excluded.p256dh, auth = excluded.auth,
+    escalation_only = excluded.escalation_only, user_agent = excluded.user_agent;
+end;
+$$;
+
+grant execute on function public.register_push_subscription(text, text, text, boolean, text) to authenticated;
@@ -0,0 +1,77 @@
+-- ---------- Avvisi scorte: ricalcolo mirato ----------
+-- Il ricalcolo (90 giorni di med_on/dose_qty_on per farmaco) partiva da ogni
+-- client a ogni cambio delle scorte. Ora p_med_ids limita il ricalcolo ai
+-- farmaci indicati (il client passa quelli cambiati, [] = solo lettura); la
+-- funzione edge stock-alerts, ogni ora, ricalcola tutto (null). "Oggi" è la
+-- giornata di cura della famiglia (care_today: fuso e day_cutoff).
+
+drop function if exists public.refresh_stock_alerts(uuid);
+
+create function public.refresh_stock_alerts(p_family uuid, p_med_ids uuid[] default null)
+returns setof public.stock_alerts
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  f public.families;
+  m public.meds;
+  v_today date;
+  v_total numeric;
+  v_taken numeric;
+  v_days integer;
+  v_kind text;
+  v_on boolean;
+begin
+  if coalesce(auth.role(), '') <> 'service_role' and p_family is distinct from public.current_family_id() then
+    raise exception 'Famiglia non trovata' using errcode = 'P0002';
+  end if;
+  select * into f from public.families where id = p_family;
+  if not found then return; end if;
+  v_today := public.care_today(p_family);
+
+  -- farmaci archiviati: niente più avvisi
+  update public.stock_alerts a set resolved_at = now()
+  from public.meds x
+  where x.id = a.med_id and a.family_id = p_family and a.resolved_at is null and coalesce(x.archived, false);
+
+  for m in
+    select * from public.meds
+    where family_id = p_family and not coalesce(archived, false) and (p_med_ids is null or id = any(p_med_ids))
+  loop
+    select b.box + b.dispensa into v_total from public.med_balance(m.id) b;
+    select coalesce(sum(public.dose_qty_on(m, l.time_slot, v_today)), 0) into v_taken
+    from public.intake_logs l
+    where l.med_id = m.id and l.day = v_today and l.status = 'taken';
+    v_days := public.med_days_left(m, v_total, v_today, v_taken);
+
+    foreach v_kind in array array['low', 'runout'] loop
+      v_on := case v_kind
+        when 'low' then v_total < coalesce(m.threshold, 0)
+        else v_days is not null and v_days < f.alert_coverage_days
+      end;
+      if v_on then
+        insert into public.stock_alerts as a (family_id, med_id, kind, total, days_left)
+        values (p_family, m.id, v_kind, v_total, v_days)
+        on conflict (med_id, kind) do update set
+          total = excluded.total, days_left = excluded.days_left, checked_at = now(),
+          -- condizione ricomparsa dopo essere rientrata: avviso nuovo
+          opened_at = case when a.resolved_at is null then a.opened_at else now() end,
+          pushed_at = case when a.resolved_at is null then a.pushed_at end,
+          emailed_at = case when a.resolved_at is null then a.emailed_at end,
+          acked_at = case when a.resolved_at is null then a.acked_at end,
+          acked_by = case when a.resolved_at is null then a.acked_by end,
+          snoozed_until = case when a.resolved_at is null then a.snoozed_until end,
+          resolved_at = null;
+      else
+        update public.stock_alerts
+        set resolved_at = now(), checked_at = now(), total = v_total, days_left = v_days
+        where med_id = m.id and kind = v_kind and resolved_at is null;
+      end if;
+    end loop;
+  end loop;
+
+  return query select * from public.stock_alerts where family_id = p_family and resolved_at is null;
+end;
+$$;
+
+grant execute on function public.refresh_stock_alerts(uuid, uuid[]) to authenticated, service_role;
@@ -0,0 +1,25 @@
+-- ---------- Cestino: autore e pulizia ----------
+-- deleted_by lo scrive il server: chi sposta nel cestino (null quando il
+-- farmaco ne esce). purge_expired_meds, oltre che da pg_cron se c'è, parte
+-- ogni ora dalla funzione edge stock-alerts: il cestino si svuota anche
+-- dove pg_cron non è installato.
+create or replace function public.set_med_deleted_by()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is null then
+    new.deleted_by := null;
+  elsif old.deleted_at is null then
+    new.deleted_by := auth.uid();
+  else
+    new.deleted_by := old.deleted_by;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists meds_set_deleted_by on public.meds;
+create trigger meds_set_deleted_by
+  before update of deleted_at, deleted_by on public.meds
+  for each row execute function public.set_med_deleted_by();
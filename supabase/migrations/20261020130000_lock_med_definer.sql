@@ -0,0 +1,21 @@
+-- ---------- lock_med per tutti i membri ----------
+-- "meds admin update" è restrittiva e Postgres la applica anche a
+-- select … for update: per un membro non admin la riga spariva e lock_med
+-- rispondeva "Farmaco non trovato", bloccando set_intake, transfer_stock e
+-- le altre operazioni sulle scorte. Ora gira come owner (senza RLS) e la
+-- famiglia la controlla da sé, come prima.
+create or replace function public.lock_med(p_med_id uuid)
+returns public.meds
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_med public.meds;
+begin
+  select * into v_med from public.meds where id = p_med_id for update;
+  if not found or v_med.family_id is distinct from public.current_family_id() then
+    raise exception 'Farmaco non trovato' using errcode = 'P0002';
+  end if;
+  return v_med;
+end;
+$$;
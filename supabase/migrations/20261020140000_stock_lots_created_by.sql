@@ -0,0 +1,5 @@
+-- ---------- Lotti: autore ----------
+-- come gli altri inserimenti del registro: il lotto è di chi lo registra
+drop policy if exists "stock_lots_insert" on public.stock_lots;
+create policy "stock_lots_insert" on public.stock_lots
+  for insert with check (family_id = public.current_family_id() and created_by = auth.uid());
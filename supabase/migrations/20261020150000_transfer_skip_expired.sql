@@ -0,0 +1,64 @@
+-- ---------- Travaso: niente lotti scaduti ----------
+-- Il FEFO pescava per primi i lotti che scadono prima anche se già scaduti,
+-- e le confezioni scadute finivano nel Box e nel portapillole. Ora i lotti
+-- scaduti (rispetto alla giornata di cura) restano in Dispensa per "Smaltisci";
+-- se senza di loro la Dispensa non basta, il travaso si ferma con un errore.
+create or replace function public.transfer_stock(p_med_id uuid, p_qty numeric, p_op_id uuid, p_reason text default null)
+returns table (box numeric, dispensa numeric)
+language plpgsql
+as $$
+declare
+  v_med public.meds;
+  v_left numeric := p_qty;
+  v_take numeric;
+  v_lot record;
+  v_reason text := coalesce(p_reason, case when p_qty > 0 then 'Dispensa → Box' else 'Box → Dispensa' end);
+  v_today date;
+  v_expired numeric;
+  v_dispensa numeric;
+begin
+  if p_qty is null or p_qty = 0 then
+    raise exception 'Quantità non valida' using errcode = '22023';
+  end if;
+  v_med := public.lock_med(p_med_id);
+
+  if not public.op_done(p_med_id, p_op_id) then
+    if p_qty > 0 then
+      v_today := public.care_today(v_med.family_id);
+      select coalesce(sum(l.qty), 0) into v_expired
+      from public.lot_balances(array[p_med_id]) l where l.expires_on < v_today;
+      select b.dispensa into v_dispensa from public.med_balance(p_med_id) b;
+      if v_expired > 0 and p_qty > v_dispensa - v_expired then
+        raise exception 'In Dispensa % ha solo % non scaduti: smaltisci i lotti scaduti e registra un acquisto',
+          v_med.name, greatest(0, v_dispensa - v_expired) using errcode = '22023';
+      end if;
+    end if;
+
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, op_id)
+    values (v_med.family_id, p_med_id, 'Box', p_qty, 'transfer', v_reason, p_op_id);
+
+    if p_qty > 0 then
+      for v_lot in select * from public.lot_balances(array[p_med_id]) where expires_on is null or expires_on >= v_today loop
+        exit when v_left <= 0;
+        v_take := least(v_left, v_lot.qty);
+        insert into public.stock_movements (family_id, med_id, location, delta, kind, reason, lot_id)
+        values (
+          v_med.family_id, p_med_id, 'Dispensa', -v_take, 'transfer',
+          concat_ws(' · ', v_reason, 'lotto ' || v_lot.lot, 'scad. ' || to_char(v_lot.expires_on, 'DD/MM/YYYY')),
+          v_lot.lot_id
+        );
+        v_left := v_left - v_take;
+      end loop;
+    end if;
+
+    -- il resto esce dalla merce senza lotto (il controllo sopra garantisce che
+    -- basti senza intaccare i lotti scaduti)
+    if v_left <> 0 then
+      insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+      values (v_med.family_id, p_med_id, 'Dispensa', -v_left, 'transfer', v_reason);
+    end if;
+  end if;
+
+  return query select * from public.med_balance(p_med_id);
+end;
+$$;
@@ -0,0 +1,43 @@
+-- ---------- "Ogni N giorni" con data di inizio ----------
+-- Senza start med_due_on contava dal giorno stesso: il farmaco risultava da
+-- prendere tutti i giorni. Le ricorrenze senza inizio partono dalla creazione
+-- del farmaco e da qui in poi start è obbligatorio (anche l'editor lo chiede).
+
+update public.meds
+set schedule = jsonb_set(schedule, '{start}', to_jsonb(created_at::date::text))
+where schedule->'recurrence'->>'kind' = 'every_n_days' and nullif(schedule->>'start', '') is null;
+
+update public.med_versions v
+set schedule = jsonb_set(v.schedule, '{start}', to_jsonb(m.created_at::date::text))
+from public.meds m
+where m.id = v.med_id
+  and v.schedule->'recurrence'->>'kind' = 'every_n_days' and nullif(v.schedule->>'start', '') is null;
+
+alter table public.meds drop constraint if exists meds_every_n_days_start;
+alter table public.meds add constraint meds_every_n_days_start
+  check (schedule->'recurrence'->>'kind' is distinct from 'every_n_days' or nullif(schedule->>'start', '') is not null);
+alter table public.med_versions drop constraint if exists med_versions_every_n_days_start;
+alter table public.med_versions add constraint med_versions_every_n_days_start
+  check (schedule->'recurrence'->>'kind' is distinct from 'every_n_days' or nullif(schedule->>'start', '') is not null);
+
+-- come isDueOn (schedule.ts): senza inizio si conta dalla creazione del farmaco
+create or replace function public.med_due_on(p_med public.meds, p_day date)
+returns boolean
+language plpgsql immutable
+as $$
+declare
+  s jsonb := coalesce(p_med.schedule, '{"recurrence": {"kind": "daily"}}'::jsonb);
+  r jsonb := coalesce(s->'recurrence', '{"kind": "daily"}'::jsonb);
+  v_start date := nullif(s->>'start', '')::date;
+begin
+  if v_start is not null and p_day < v_start then return false; end if;
+  if nullif(s->>'end', '') is not null and p_day > (s->>'end')::date then return false; end if;
+  if r->>'kind' = 'every_n_days' then
+    return (p_day - coalesce(v_start, p_med.created_at::date, date '1970-01-01')) % greatest(1, coalesce((r->>'every')::int, 1)) = 0;
+  end if;
+  if r->>'kind' = 'weekdays' then
+    return coalesce(r->'days', '[]'::jsonb) @> to_jsonb(extract(isodow from p_day)::int);
+  end if;
+  return true;
+end;
+$$;
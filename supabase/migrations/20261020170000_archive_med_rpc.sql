@@ -0,0 +1,65 @@
+-- ---------- Archivia / cestino / ripristina in un'unica transazione ----------
+-- Prima il client aggiornava meds e poi registrava le correzioni delle
+-- scorte con due richieste: un errore a metà lasciava un farmaco archiviato
+-- con le scorte ancora a registro, o ripristinato senza scorte. Come le altre
+-- operazioni sulle scorte ora è una sola funzione, riservata agli admin.
+
+-- archivia (scorte azzerate con "Archiviazione farmaco"); p_trash = anche nel cestino
+create or replace function public.archive_med(p_med_id uuid, p_trash boolean default false)
+returns void
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_med public.meds;
+  v_bal record;
+begin
+  if not public.is_family_admin() then
+    raise exception 'Solo gli amministratori archiviano i farmaci' using errcode = '42501';
+  end if;
+  v_med := public.lock_med(p_med_id);
+
+  if not coalesce(v_med.archived, false) then
+    update public.meds set archived = true, archived_at = now() where id = p_med_id;
+    select * into v_bal from public.med_balance(p_med_id);
+    insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+    select v_med.family_id, p_med_id, x.location, -x.qty, 'correction', 'Archiviazione farmaco'
+    from (values ('Box', v_bal.box), ('Dispensa', v_bal.dispensa)) x(location, qty)
+    where x.qty <> 0;
+  end if;
+  if p_trash and v_med.deleted_at is null then
+    update public.meds set deleted_at = now() where id = p_med_id;
+  end if;
+end;
+$$;
+
+-- torna attivo (anche dal cestino) con le scorte indicate ("Ripristino farmaco")
+create or replace function public.restore_med(p_med_id uuid, p_box numeric, p_dispensa numeric)
+returns void
+language plpgsql security definer
+set search_path = public
+as $$
+declare
+  v_med public.meds;
+begin
+  if not public.is_family_admin() then
+    raise exception 'Solo gli amministratori ripristinano i farmaci' using errcode = '42501';
+  end if;
+  if coalesce(p_box, 0) < 0 or coalesce(p_dispensa, 0) < 0 then
+    raise exception 'Quantità non valida' using errcode = '22023';
+  end if;
+  v_med := public.lock_med(p_med_id);
+  if not coalesce(v_med.archived, false) then
+    raise exception 'Il farmaco non è archiviato';
+  end if;
+
+  update public.meds set archived = false, archived_at = null, deleted_at = null where id = p_med_id;
+  insert into public.stock_movements (family_id, med_id, location, delta, kind, reason)
+  select v_med.family_id, p_med_id, x.location, x.qty, 'correction', 'Ripristino farmaco'
+  from (values ('Box', coalesce(p_box, 0)), ('Dispensa', coalesce(p_dispensa, 0))) x(location, qty)
+  where x.qty <> 0;
+end;
+$$;
+
+grant execute on function public.archive_med(uuid, boolean) to authenticated;
+grant execute on function public.restore_med(uuid, numeric, numeric) to authenticated;
@@ -1,7 +1,35 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Service worker: in build public/sw.js riceve l'elenco degli asset con hash
+// da mettere in cache all'installazione e una versione della cache per build
+// (all'attivazione le cache delle build precedenti si cancellano).
+function serviceWorkerAssets(): Plugin {
+  let outDir = 'dist'
+  return {
+    name: 'sw-assets',
+    apply: 'build',
+    configResolved(config) {
+      outDir = config.build.outDir
+    },
+    writeBundle(_, bundle) {
+      const assets = Object.keys(bundle).filter(f => f.startsWith('assets/')).sort().map(f => `/${f}`)
+      const build = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12)
+      const file = join(outDir, 'sw.js')
+      const src = readFileSync(file, 'utf8')
+      const out = src
+        .replace(/^const BUILD = ".*";$/m, `const BUILD = ${JSON.stringify(build)};`)
+        .replace(/^const ASSETS = \[\];$/m, `const ASSETS = ${JSON.stringify(assets)};`)
+      if (!out.includes(build) || !out.includes('const ASSETS = [')) this.error('sw.js: segnaposto BUILD/ASSETS non trovati')
+      writeFileSync(file, out)
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerAssets()],
 })